@@ -10,6 +10,7 @@ import Footer from "@/components/ui/footer";
 
 // Pages
 import Login from "@/pages/login";
+import ChangePassword from "@/pages/change-password";
 import Rules from "@/pages/rules";
 import WaitingRoom from "@/pages/waiting-room";
 import Quiz from "@/pages/quiz";
@@ -19,6 +20,9 @@ import AddQuestion from "@/pages/admin/add-question";
 import Questions from "@/pages/admin/questions";
 import SuperAdminPanel from "@/pages/superadmin/panel";
 import UserManagement from "@/pages/superadmin/user-management";
+import LoginActivityPage from "@/pages/superadmin/login-activity";
+import SystemSettingsPage from "@/pages/superadmin/system-settings";
+import RoundArchivesPage from "@/pages/superadmin/archives";
 import NotFound from "@/pages/not-found";
 import StudentLeaderboard from "./pages/studentleaderboard";
 
@@ -26,6 +30,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Login} />
+      <Route path="/change-password" component={ChangePassword} />
       <Route path="/rules" component={Rules} />
       <Route path="/waiting-room" component={WaitingRoom} />
       <Route path="/quiz" component={Quiz} />
@@ -40,6 +45,9 @@ function Router() {
       {/* Super Admin routes */}
       <Route path="/superadmin" component={SuperAdminPanel} />
       <Route path="/superadmin/users" component={UserManagement} />
+      <Route path="/superadmin/activity" component={LoginActivityPage} />
+      <Route path="/superadmin/settings" component={SystemSettingsPage} />
+      <Route path="/superadmin/archives" component={RoundArchivesPage} />
 
       {/* Fallback to 404 */}
       <Route component={NotFound} />
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useQuiz } from "@/context/QuizContext";
+import { Competition } from "@shared/schema";
+import ScoringProfileDialog from "./scoring-profile-dialog";
+import QuestionBlueprintDialog from "./question-blueprint-dialog";
+import PaperLayoutDialog from "./paper-layout-dialog";
+
+const competitionTypes: { value: Competition["type"]; label: string }[] = [
+  { value: "preliminary", label: "Preliminary Round" },
+  { value: "final", label: "Final" },
+  { value: "practice", label: "Practice Session" },
+];
+
+export default function CompetitionSwitcher() {
+  const { competitionId, competitions, selectCompetition } = useQuiz();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<Competition["type"]>("preliminary");
+
+  const createCompetitionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/competitions", { name, type });
+      return res.json();
+    },
+    onSuccess: (competition: Competition) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      selectCompetition(competition.id);
+      setIsCreateOpen(false);
+      setName("");
+      toast({
+        title: "Competition created",
+        description: `${competition.name} is now selected.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create competition",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={competitionId ? competitionId.toString() : undefined}
+        onValueChange={(value) => selectCompetition(parseInt(value, 10))}
+      >
+        <SelectTrigger className="w-64 bg-white">
+          <SelectValue placeholder="Select a competition" />
+        </SelectTrigger>
+        <SelectContent>
+          {competitions.map((competition) => (
+            <SelectItem key={competition.id} value={competition.id.toString()}>
+              {competition.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="icon" onClick={() => setIsCreateOpen(true)}>
+        <Plus className="h-4 w-4" />
+      </Button>
+      <ScoringProfileDialog />
+      <QuestionBlueprintDialog />
+      <PaperLayoutDialog />
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Competition</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="competition-name">Name</Label>
+              <Input
+                id="competition-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Colombo Preliminary Round"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="competition-type">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as Competition["type"])}>
+                <SelectTrigger id="competition-type" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {competitionTypes.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createCompetitionMutation.mutate()}
+              disabled={!name.trim() || createCompetitionMutation.isPending}
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { LayoutGrid, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
+import { useQuiz } from "@/context/QuizContext";
+import { Competition, PaperDisplay, NavigationMode, DEFAULT_PAPER_LAYOUT, DEFAULT_NAVIGATION_POLICY } from "@shared/schema";
+
+// Input values are kept as typed and converted when saving
+interface SectionForm {
+  name: string;
+  questionCount: string;
+  // Blank for no time limit
+  timeLimitMinutes: string;
+}
+
+const EMPTY_SECTION: SectionForm = { name: "", questionCount: "10", timeLimitMinutes: "" };
+
+// Blank inputs clear the time limit
+const toSeconds = (value: string, unitSeconds: number) =>
+  value.trim() === "" ? null : Math.round(Number(value) * unitSeconds);
+
+export default function PaperLayoutDialog() {
+  const { competitionId, competition } = useQuiz();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [display, setDisplay] = useState<PaperDisplay>(DEFAULT_PAPER_LAYOUT.display);
+  const [questionsPerPage, setQuestionsPerPage] = useState(DEFAULT_PAPER_LAYOUT.questionsPerPage.toString());
+  const [sections, setSections] = useState<SectionForm[]>([]);
+  const [questionTimeLimit, setQuestionTimeLimit] = useState("");
+  const [navigationMode, setNavigationMode] = useState<NavigationMode>(DEFAULT_NAVIGATION_POLICY.mode);
+  const [reviewScreen, setReviewScreen] = useState(DEFAULT_NAVIGATION_POLICY.reviewScreen);
+
+  const saveLayoutMutation = useMutation({
+    mutationFn: async () => {
+      // Free navigation has no time limits, so any left in the form are cleared
+      const timed = navigationMode === "forward";
+      const res = await apiRequest("PUT", `/api/competitions/${competitionId}`, {
+        paperLayout: {
+          display,
+          questionsPerPage: Number(questionsPerPage),
+          sections: sections.map(section => ({
+            name: section.name,
+            questionCount: Number(section.questionCount),
+            timeLimitSeconds: timed ? toSeconds(section.timeLimitMinutes, 60) : null,
+          })),
+          questionTimeLimitSeconds: timed ? toSeconds(questionTimeLimit, 1) : null,
+        },
+        navigationPolicy: { mode: navigationMode, reviewScreen },
+      });
+      return res.json();
+    },
+    onSuccess: (updated: Competition) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions/current"] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(updated.id, '/quiz/paper')] });
+      setIsOpen(false);
+      toast({
+        title: "Paper layout and navigation updated",
+        description: updated.paperLayout.display === "single"
+          ? `Students in ${updated.name} will see one question per screen.`
+          : `Students in ${updated.name} will see ${updated.paperLayout.questionsPerPage} questions per page.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update paper layout and navigation",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpen = () => {
+    const layout = competition?.paperLayout ?? DEFAULT_PAPER_LAYOUT;
+    setDisplay(layout.display);
+    setQuestionsPerPage(layout.questionsPerPage.toString());
+    setSections(layout.sections.map(section => ({
+      name: section.name,
+      questionCount: section.questionCount.toString(),
+      timeLimitMinutes: section.timeLimitSeconds === null ? "" : (section.timeLimitSeconds / 60).toString(),
+    })));
+    setQuestionTimeLimit(layout.questionTimeLimitSeconds?.toString() ?? "");
+    const policy = competition?.navigationPolicy ?? DEFAULT_NAVIGATION_POLICY;
+    setNavigationMode(policy.mode);
+    setReviewScreen(policy.reviewScreen);
+    setIsOpen(true);
+  };
+
+  const updateSection = (index: number, changes: Partial<SectionForm>) => {
+    setSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="icon" onClick={handleOpen} disabled={!competition} title="Paper layout and navigation">
+        <LayoutGrid className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Paper Layout and Navigation</DialogTitle>
+            <DialogDescription>
+              How the quiz page shows each student's paper in {competition?.name}, and how students move
+              through it. Students who already have the quiz open see the changes when they reload the page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="paper-display">Display</Label>
+                <Select value={display} onValueChange={(value) => setDisplay(value as PaperDisplay)}>
+                  <SelectTrigger id="paper-display" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="grid">Grid of questions</SelectItem>
+                    <SelectItem value="single">One question per screen</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="paper-per-page">Questions per page</Label>
+                <Input
+                  id="paper-per-page"
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={display === "single" ? "1" : questionsPerPage}
+                  onChange={(e) => setQuestionsPerPage(e.target.value)}
+                  disabled={display === "single"}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Sections</h4>
+              {sections.map((section, index) => (
+                <div key={index} className="grid grid-cols-[1fr_90px_90px_auto] gap-2 items-end">
+                  <div>
+                    <Label htmlFor={`section-name-${index}`} className="text-xs text-gray-500">Name</Label>
+                    <Input
+                      id={`section-name-${index}`}
+                      value={section.name}
+                      onChange={(e) => updateSection(index, { name: e.target.value })}
+                      placeholder={`Section ${String.fromCharCode(65 + index)}`}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`section-count-${index}`} className="text-xs text-gray-500">Questions</Label>
+                    <Input
+                      id={`section-count-${index}`}
+                      type="number"
+                      min="1"
+                      value={section.questionCount}
+                      onChange={(e) => updateSection(index, { questionCount: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`section-time-${index}`} className="text-xs text-gray-500">Minutes</Label>
+                    <Input
+                      id={`section-time-${index}`}
+                      type="number"
+                      min="1"
+                      value={section.timeLimitMinutes}
+                      onChange={(e) => updateSection(index, { timeLimitMinutes: e.target.value })}
+                      placeholder="No limit"
+                      disabled={navigationMode === "free"}
+                      className="mt-1"
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSections(sections.filter((_, i) => i !== index))}
+                    title="Remove section"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {sections.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-2">No sections: the paper is one run of questions.</p>
+              )}
+
+              <Button variant="outline" size="sm" onClick={() => setSections([...sections, EMPTY_SECTION])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Section
+              </Button>
+              <p className="text-xs text-gray-500">
+                Sections take questions in the order each student is served them. Questions left over after
+                the last section are shown together at the end, and a page never spans two sections.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Navigation</h4>
+              <Select value={navigationMode} onValueChange={(value) => setNavigationMode(value as NavigationMode)}>
+                <SelectTrigger id="paper-navigation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="forward">Forward only: pages close once a student moves on</SelectItem>
+                  <SelectItem value="free">Free: students can go back and jump between questions</SelectItem>
+                </SelectContent>
+              </Select>
+              <div>
+                <Label htmlFor="paper-question-time">Seconds per question</Label>
+                <Input
+                  id="paper-question-time"
+                  type="number"
+                  min="10"
+                  max="3600"
+                  value={questionTimeLimit}
+                  onChange={(e) => setQuestionTimeLimit(e.target.value)}
+                  placeholder="No limit"
+                  disabled={navigationMode === "free"}
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  A page closes once the time for its questions, or its section's minutes, run out, and the
+                  student is moved on. Time limits only apply to forward-only papers and are cleared when a
+                  paper is saved with free navigation. Leaving them blank means no limit.
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="paper-review-screen" checked={reviewScreen} onCheckedChange={setReviewScreen} />
+                <Label htmlFor="paper-review-screen">
+                  List unanswered and flagged questions before students submit
+                </Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => saveLayoutMutation.mutate()} disabled={saveLayoutMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
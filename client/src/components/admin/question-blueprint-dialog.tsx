@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useQuiz } from "@/context/QuizContext";
+import { Competition, QuestionPool } from "@shared/schema";
+
+// Input values are kept as typed and converted when saving
+interface PoolForm {
+  count: string;
+  difficulty: NonNullable<QuestionPool['difficulty']> | "any";
+  // Comma separated
+  topics: string;
+}
+
+function toForm(pool: QuestionPool): PoolForm {
+  return {
+    count: pool.count.toString(),
+    difficulty: pool.difficulty ?? "any",
+    topics: pool.topics.join(", "),
+  };
+}
+
+function toPool(form: PoolForm): QuestionPool {
+  return {
+    count: Number(form.count),
+    difficulty: form.difficulty === "any" ? null : form.difficulty,
+    topics: form.topics.split(",").map(topic => topic.trim()).filter(Boolean),
+  };
+}
+
+const EMPTY_POOL: PoolForm = { count: "10", difficulty: "any", topics: "" };
+
+export default function QuestionBlueprintDialog() {
+  const { competitionId, competition } = useQuiz();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [pools, setPools] = useState<PoolForm[]>([]);
+
+  const saveBlueprintMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/competitions/${competitionId}`, {
+        questionBlueprint: pools.map(toPool),
+      });
+      return res.json();
+    },
+    onSuccess: (updated: Competition) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions/current"] });
+      setIsOpen(false);
+      toast({
+        title: "Question pools updated",
+        description: updated.questionBlueprint.length > 0
+          ? `Students in ${updated.name} will get ${updated.questionBlueprint.reduce((sum, pool) => sum + pool.count, 0)} questions drawn from the pools.`
+          : `Students in ${updated.name} will get every question.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update question pools",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpen = () => {
+    setPools((competition?.questionBlueprint ?? []).map(toForm));
+    setIsOpen(true);
+  };
+
+  const updatePool = (index: number, changes: Partial<PoolForm>) => {
+    setPools(pools.map((pool, i) => (i === index ? { ...pool, ...changes } : pool)));
+  };
+
+  const total = pools.reduce((sum, pool) => sum + (Number(pool.count) || 0), 0);
+
+  return (
+    <>
+      <Button variant="outline" size="icon" onClick={handleOpen} disabled={!competition} title="Question pools">
+        <Layers className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Question Pools</DialogTitle>
+            <DialogDescription>
+              Each student in {competition?.name} gets a paper drawn at random from these pools. Without
+              pools, every student gets every question. Papers already drawn are kept until the quiz is reset.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {pools.map((pool, index) => (
+              <div key={index} className="grid grid-cols-[80px_120px_1fr_auto] gap-2 items-end">
+                <div>
+                  <Label htmlFor={`pool-count-${index}`} className="text-xs text-gray-500">Questions</Label>
+                  <Input
+                    id={`pool-count-${index}`}
+                    type="number"
+                    min="1"
+                    value={pool.count}
+                    onChange={(e) => updatePool(index, { count: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`pool-difficulty-${index}`} className="text-xs text-gray-500">Difficulty</Label>
+                  <Select
+                    value={pool.difficulty}
+                    onValueChange={(value) => updatePool(index, { difficulty: value as PoolForm['difficulty'] })}
+                  >
+                    <SelectTrigger id={`pool-difficulty-${index}`} className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any</SelectItem>
+                      <SelectItem value="easy">Easy</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="hard">Hard</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor={`pool-topics-${index}`} className="text-xs text-gray-500">Topics</Label>
+                  <Input
+                    id={`pool-topics-${index}`}
+                    value={pool.topics}
+                    onChange={(e) => updatePool(index, { topics: e.target.value })}
+                    placeholder="Any topic"
+                    className="mt-1"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPools(pools.filter((_, i) => i !== index))}
+                  title="Remove pool"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            {pools.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-2">No pools: every student gets every question.</p>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => setPools([...pools, EMPTY_POOL])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Pool
+              </Button>
+              {pools.length > 0 && (
+                <span className="text-sm text-gray-500">{total} questions per paper</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              Separate several topics with commas. A question drawn for one pool is not drawn again for a later one.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => saveBlueprintMutation.mutate()} disabled={saveBlueprintMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -32,6 +32,7 @@ const formSchema = z.object({
   difficulty: z.enum(["easy", "medium", "hard"], {
     required_error: "Please select the difficulty level",
   }).default("medium"),
+  topic: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -48,7 +49,8 @@ export default function QuestionForm({ initialData, questionId, onSuccess }: Que
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: initialData || {
+    // Questions saved without a topic have null, which the input cannot show
+    defaultValues: initialData ? { ...initialData, topic: initialData.topic ?? "" } : {
       questionText: "",
       optionA: "",
       optionB: "",
@@ -56,6 +58,7 @@ export default function QuestionForm({ initialData, questionId, onSuccess }: Que
       optionD: "",
       correctAnswer: undefined,
       difficulty: "medium",
+      topic: "",
     },
   });
 
@@ -79,6 +82,7 @@ export default function QuestionForm({ initialData, questionId, onSuccess }: Que
         optionD: "",
         correctAnswer: undefined,
         difficulty: "medium",
+        topic: "",
       });
       if (onSuccess) onSuccess();
     },
@@ -372,6 +376,24 @@ export default function QuestionForm({ initialData, questionId, onSuccess }: Que
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="topic"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Topic</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  placeholder="e.g. Algebra"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {submitError && (
           <div className="text-red-500 text-sm">{submitError}</div>
         )}
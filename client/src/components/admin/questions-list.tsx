@@ -102,6 +102,9 @@ export default function QuestionsList({ questions, onEdit }: QuestionsListProps)
                 }>
                   {question.difficulty}
                 </Badge>
+                {question.topic && (
+                  <p className="text-xs text-gray-500 mt-1">{question.topic}</p>
+                )}
               </TableCell>
               <TableCell>{question.correctAnswer}</TableCell>
               <TableCell className="text-right">
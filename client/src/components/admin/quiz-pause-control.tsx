@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Pause, Play } from "lucide-react";
+import { useQuiz } from "@/context/QuizContext";
+
+export default function QuizPauseControl() {
+  const { quizState, pauseQuiz, resumeQuiz, loading } = useQuiz();
+  const [extraMinutes, setExtraMinutes] = useState("");
+
+  if (quizState === 'started') {
+    return (
+      <Button variant="outline" className="w-full" onClick={pauseQuiz} disabled={loading}>
+        <Pause className="h-4 w-4 mr-2" />
+        Pause Quiz
+      </Button>
+    );
+  }
+
+  if (quizState !== 'paused') return null;
+
+  const handleResume = async () => {
+    const minutes = parseInt(extraMinutes, 10);
+    await resumeQuiz(minutes > 0 ? minutes : 0);
+    setExtraMinutes("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="quiz-extra-minutes">Extra minutes on resume</Label>
+      <div className="flex gap-2">
+        <Input
+          id="quiz-extra-minutes"
+          type="number"
+          min={0}
+          value={extraMinutes}
+          onChange={(e) => setExtraMinutes(e.target.value)}
+          placeholder="0"
+        />
+        <Button onClick={handleResume} disabled={loading}>
+          <Play className="h-4 w-4 mr-2" />
+          Resume
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarClock, X } from "lucide-react";
+import { useQuiz } from "@/context/QuizContext";
+
+// Format a date for a datetime-local input, in the browser's time zone
+function toLocalInputValue(date: Date) {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export default function QuizScheduleControl() {
+  const { quizState, scheduledStartTime, scheduleQuiz, cancelScheduledStart, loading } = useQuiz();
+  const [startAt, setStartAt] = useState("");
+
+  if (quizState !== 'waiting') return null;
+
+  const handleSchedule = async () => {
+    if (!startAt) return;
+    await scheduleQuiz(new Date(startAt));
+    setStartAt("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="quiz-start-at">Scheduled start</Label>
+      {scheduledStartTime && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>Starts at <span className="font-semibold">{scheduledStartTime.toLocaleString()}</span></span>
+          <Button variant="ghost" size="sm" onClick={cancelScheduledStart} disabled={loading}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id="quiz-start-at"
+          type="datetime-local"
+          value={startAt}
+          min={toLocalInputValue(new Date())}
+          onChange={(e) => setStartAt(e.target.value)}
+        />
+        <Button variant="outline" onClick={handleSchedule} disabled={!startAt || loading}>
+          <CalendarClock className="h-4 w-4 mr-2" />
+          {scheduledStartTime ? "Reschedule" : "Schedule"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Calculator, ChevronDown, ChevronUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
+import { useQuiz } from "@/context/QuizContext";
+import {
+  Competition,
+  DEFAULT_RANKING_POLICY,
+  DEFAULT_SCHOOL_RANKING,
+  DEFAULT_SCORING_PROFILE,
+  RankMethod,
+  RankingPolicy,
+  SchoolAggregate,
+  ScoringProfile,
+  TieBreaker,
+  tieBreakers,
+} from "@shared/schema";
+
+// Input values are kept as typed and converted when saving
+type ScoringForm = Record<
+  'correct' | 'incorrect' | 'skipped' | 'easy' | 'medium' | 'hard' | 'maxPoints' | 'withinSeconds',
+  string
+>;
+
+function toForm(profile: ScoringProfile): ScoringForm {
+  return {
+    correct: profile.correct.toString(),
+    incorrect: profile.incorrect.toString(),
+    skipped: profile.skipped.toString(),
+    easy: profile.difficultyWeights.easy.toString(),
+    medium: profile.difficultyWeights.medium.toString(),
+    hard: profile.difficultyWeights.hard.toString(),
+    maxPoints: profile.speedBonus.maxPoints.toString(),
+    withinSeconds: profile.speedBonus.withinSeconds.toString(),
+  };
+}
+
+function toProfile(form: ScoringForm): ScoringProfile {
+  return {
+    correct: Number(form.correct),
+    incorrect: Number(form.incorrect),
+    skipped: Number(form.skipped),
+    difficultyWeights: {
+      easy: Number(form.easy),
+      medium: Number(form.medium),
+      hard: Number(form.hard),
+    },
+    speedBonus: {
+      maxPoints: Number(form.maxPoints),
+      withinSeconds: Number(form.withinSeconds),
+    },
+  };
+}
+
+const FIELD_GROUPS: { title: string; fields: { key: keyof ScoringForm; label: string; step?: string }[] }[] = [
+  {
+    title: "Points per answer",
+    fields: [
+      { key: "correct", label: "Correct" },
+      { key: "incorrect", label: "Incorrect" },
+      { key: "skipped", label: "Skipped" },
+    ],
+  },
+  {
+    title: "Difficulty weights",
+    fields: [
+      { key: "easy", label: "Easy", step: "0.1" },
+      { key: "medium", label: "Medium", step: "0.1" },
+      { key: "hard", label: "Hard", step: "0.1" },
+    ],
+  },
+  {
+    title: "Speed bonus",
+    fields: [
+      { key: "maxPoints", label: "Up to (points)" },
+      { key: "withinSeconds", label: "Within (seconds)" },
+    ],
+  },
+];
+
+const tieBreakerLabels: Record<TieBreaker, string> = {
+  completionTime: "Faster completion time",
+  correctAnswers: "More correct answers",
+  fewerIncorrect: "Fewer wrong answers",
+  hardAccuracy: "Better accuracy on hard questions",
+};
+
+const rankMethods: { value: RankMethod; label: string }[] = [
+  { value: "standard", label: "Standard (1, 2, 2, 4)" },
+  { value: "dense", label: "Dense (1, 2, 2, 3)" },
+  { value: "shared", label: "Shared (1, 3, 3, 4)" },
+];
+
+export default function ScoringProfileDialog() {
+  const { competitionId, competition } = useQuiz();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<ScoringForm>(toForm(DEFAULT_SCORING_PROFILE));
+  const [ranking, setRanking] = useState<RankingPolicy>(DEFAULT_RANKING_POLICY);
+  const [topStudents, setTopStudents] = useState(DEFAULT_SCHOOL_RANKING.topStudents.toString());
+  const [aggregate, setAggregate] = useState<SchoolAggregate>(DEFAULT_SCHOOL_RANKING.aggregate);
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/competitions/${competitionId}`, {
+        scoringProfile: toProfile(form),
+        rankingPolicy: ranking,
+        schoolRanking: { topStudents: Number(topStudents), aggregate },
+      });
+      return res.json();
+    },
+    onSuccess: (updated: Competition) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/competitions/current"] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(updated.id, '/results')] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(updated.id, '/leaderboard/schools')] });
+      setIsOpen(false);
+      toast({
+        title: "Scoring updated",
+        description: `Results for ${updated.name} have been rescored and ranked.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update scoring",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpen = () => {
+    setForm(toForm(competition?.scoringProfile ?? DEFAULT_SCORING_PROFILE));
+    setRanking(competition?.rankingPolicy ?? DEFAULT_RANKING_POLICY);
+    const schoolRanking = competition?.schoolRanking ?? DEFAULT_SCHOOL_RANKING;
+    setTopStudents(schoolRanking.topStudents.toString());
+    setAggregate(schoolRanking.aggregate);
+    setIsOpen(true);
+  };
+
+  // Tie-breakers in use come first, in the order they are tried
+  const tieBreakerOrder = [
+    ...ranking.tieBreakers,
+    ...tieBreakers.filter(tieBreaker => !ranking.tieBreakers.includes(tieBreaker)),
+  ];
+
+  const toggleTieBreaker = (tieBreaker: TieBreaker, enabled: boolean) => {
+    setRanking({
+      ...ranking,
+      tieBreakers: enabled
+        ? [...ranking.tieBreakers, tieBreaker]
+        : ranking.tieBreakers.filter(item => item !== tieBreaker),
+    });
+  };
+
+  const moveTieBreaker = (index: number, offset: number) => {
+    const reordered = [...ranking.tieBreakers];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setRanking({ ...ranking, tieBreakers: reordered });
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="icon" onClick={handleOpen} disabled={!competition} title="Scoring and ranking">
+        <Calculator className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Scoring and Ranking</DialogTitle>
+            <DialogDescription>
+              How answers in {competition?.name} are scored and ranked. Saving rescores any results already recorded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {FIELD_GROUPS.map(({ title, fields }) => (
+              <div key={title}>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+                <div className="grid grid-cols-3 gap-3">
+                  {fields.map(({ key, label, step }) => (
+                    <div key={key}>
+                      <Label htmlFor={`scoring-${key}`} className="text-xs text-gray-500">{label}</Label>
+                      <Input
+                        id={`scoring-${key}`}
+                        type="number"
+                        step={step ?? "1"}
+                        value={form[key]}
+                        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                        className="mt-1"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Set the speed bonus to 0 points to turn it off. The bonus falls from its full value for an
+              instant answer to nothing at the time limit.
+            </p>
+
+            <div className="border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Ranking</h3>
+              <Label htmlFor="rank-method" className="text-xs text-gray-500">Tied students</Label>
+              <Select
+                value={ranking.method}
+                onValueChange={(value) => setRanking({ ...ranking, method: value as RankMethod })}
+              >
+                <SelectTrigger id="rank-method" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rankMethods.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <p className="text-xs text-gray-500 mt-3 mb-1">Students with the same score are separated by, in order:</p>
+              <div className="space-y-1">
+                {tieBreakerOrder.map((tieBreaker) => {
+                  const index = ranking.tieBreakers.indexOf(tieBreaker);
+                  const enabled = index !== -1;
+                  return (
+                    <div key={tieBreaker} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`tie-breaker-${tieBreaker}`}
+                          checked={enabled}
+                          onCheckedChange={(checked) => toggleTieBreaker(tieBreaker, checked === true)}
+                        />
+                        <Label htmlFor={`tie-breaker-${tieBreaker}`} className="text-sm font-normal">
+                          {tieBreakerLabels[tieBreaker]}
+                        </Label>
+                      </div>
+                      {enabled && (
+                        <div className="flex">
+                          <Button variant="ghost" size="sm" onClick={() => moveTieBreaker(index, -1)} disabled={index === 0}>
+                            <ChevronUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moveTieBreaker(index, 1)}
+                            disabled={index === ranking.tieBreakers.length - 1}
+                          >
+                            <ChevronDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">School standings</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="school-top-students" className="text-xs text-gray-500">Best students counted</Label>
+                  <Input
+                    id="school-top-students"
+                    type="number"
+                    min="1"
+                    value={topStudents}
+                    onChange={(e) => setTopStudents(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="school-aggregate" className="text-xs text-gray-500">School score</Label>
+                  <Select value={aggregate} onValueChange={(value) => setAggregate(value as SchoolAggregate)}>
+                    <SelectTrigger id="school-aggregate" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sum">Sum of their scores</SelectItem>
+                      <SelectItem value="average">Average of their scores</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setForm(toForm(DEFAULT_SCORING_PROFILE));
+                setRanking(DEFAULT_RANKING_POLICY);
+                setTopStudents(DEFAULT_SCHOOL_RANKING.topStudents.toString());
+                setAggregate(DEFAULT_SCHOOL_RANKING.aggregate);
+              }}
+            >
+              Use Defaults
+            </Button>
+            <Button onClick={() => saveProfileMutation.mutate()} disabled={saveProfileMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
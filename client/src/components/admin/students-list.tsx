@@ -7,6 +7,25 @@ import {
   TableCell 
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Clock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { competitionUrl, grantTimeExtension, removeTimeExtension } from "@/lib/quiz";
+import { useQuiz } from "@/context/QuizContext";
+import { TimeExtension } from "@shared/schema";
 
 interface Student {
   id: number;
@@ -22,6 +41,76 @@ interface StudentsListProps {
 }
 
 export default function StudentsList({ students }: StudentsListProps) {
+  const { competitionId } = useQuiz();
+  const { toast } = useToast();
+  const [extensionStudent, setExtensionStudent] = useState<Student | null>(null);
+  const [extraMinutes, setExtraMinutes] = useState("");
+  const [reason, setReason] = useState("");
+
+  const extensionsKey = competitionUrl(competitionId, '/quiz/extensions');
+
+  // Fetch time extensions for the selected competition
+  const { data: extensions = [] } = useQuery<TimeExtension[]>({
+    queryKey: [extensionsKey],
+    enabled: !!competitionId,
+  });
+
+  const grantExtensionMutation = useMutation({
+    mutationFn: async ({ userId, minutes }: { userId: number; minutes: number }) =>
+      grantTimeExtension(competitionId!, userId, minutes * 60, reason || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [extensionsKey] });
+      toast({
+        title: "Time extension granted",
+        description: `${extensionStudent?.username} will get ${extraMinutes} extra minute(s).`,
+      });
+      closeExtensionDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to grant extension",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeExtensionMutation = useMutation({
+    mutationFn: async (userId: number) => removeTimeExtension(competitionId!, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [extensionsKey] });
+      toast({
+        title: "Time extension removed",
+        description: `${extensionStudent?.username} is back on the standard quiz time.`,
+      });
+      closeExtensionDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove extension",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openExtensionDialog = (student: Student) => {
+    const current = extensions.find(extension => extension.userId === student.id);
+    setExtensionStudent(student);
+    setExtraMinutes(current ? Math.round(current.extraSeconds / 60).toString() : "");
+    setReason(current?.reason ?? "");
+  };
+
+  const closeExtensionDialog = () => {
+    setExtensionStudent(null);
+    setExtraMinutes("");
+    setReason("");
+  };
+
+  const currentExtension = extensionStudent
+    ? extensions.find(extension => extension.userId === extensionStudent.id)
+    : undefined;
+
   const formatDate = (date: Date | string | undefined) => {
     if (!date) return 'Never';
     
@@ -50,6 +139,7 @@ export default function StudentsList({ students }: StudentsListProps) {
             <TableHead>School</TableHead>
             <TableHead>Status</TableHead>
             <TableHead>Last Login</TableHead>
+            <TableHead>Extra Time</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -85,12 +175,28 @@ export default function StudentsList({ students }: StudentsListProps) {
               <TableCell className="text-sm text-gray-500">
                 {formatDate(student.lastLogin)}
               </TableCell>
+              <TableCell>
+                {(() => {
+                  const extension = extensions.find(e => e.userId === student.id);
+                  return (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openExtensionDialog(student)}
+                      disabled={!competitionId}
+                    >
+                      <Clock className="h-4 w-4 mr-1" />
+                      {extension ? `+${Math.round(extension.extraSeconds / 60)} min` : 'Grant'}
+                    </Button>
+                  );
+                })()}
+              </TableCell>
             </TableRow>
           ))}
           
           {students.length === 0 && (
             <TableRow>
-              <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+              <TableCell colSpan={5} className="text-center py-8 text-gray-500">
                 No students registered yet.
               </TableCell>
             </TableRow>
@@ -105,6 +211,60 @@ export default function StudentsList({ students }: StudentsListProps) {
           </div>
         </div>
       )}
+
+      <Dialog open={!!extensionStudent} onOpenChange={(open) => !open && closeExtensionDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Time Extension</DialogTitle>
+            <DialogDescription>
+              Extra time for {extensionStudent?.username} in this competition. It is added to their deadline only.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="extension-minutes">Extra minutes</Label>
+              <Input
+                id="extension-minutes"
+                type="number"
+                min={1}
+                value={extraMinutes}
+                onChange={(e) => setExtraMinutes(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="extension-reason">Reason</Label>
+              <Input
+                id="extension-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Documented accommodation, machine crash"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {currentExtension && (
+              <Button
+                variant="outline"
+                onClick={() => removeExtensionMutation.mutate(extensionStudent!.id)}
+                disabled={removeExtensionMutation.isPending}
+              >
+                Remove
+              </Button>
+            )}
+            <Button
+              onClick={() => grantExtensionMutation.mutate({
+                userId: extensionStudent!.id,
+                minutes: parseInt(extraMinutes, 10),
+              })}
+              disabled={!(parseInt(extraMinutes, 10) > 0) || grantExtensionMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
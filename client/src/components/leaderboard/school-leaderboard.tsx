@@ -0,0 +1,113 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useQuiz } from "@/context/QuizContext";
+import { competitionUrl } from "@/lib/quiz";
+import { SchoolStanding } from "@shared/schema";
+
+export default function SchoolLeaderboard() {
+  const { user } = useAuth();
+  const { competitionId, competition } = useQuiz();
+  const [openSchool, setOpenSchool] = useState<string | null>(null);
+
+  const { data: standings = [], isLoading } = useQuery<SchoolStanding[]>({
+    queryKey: [competitionUrl(competitionId, '/leaderboard/schools')],
+    enabled: !!user && !!competitionId,
+  });
+
+  const rule = competition?.schoolRanking;
+
+  if (isLoading) {
+    return <p className="text-center py-6 text-gray-500">Loading school standings...</p>;
+  }
+
+  return (
+    <>
+      {rule && (
+        <p className="text-sm text-gray-500 mb-4 text-center">
+          Schools are ranked by the {rule.aggregate === 'average' ? 'average' : 'total'} score of their
+          best {rule.topStudents === 1 ? 'student' : `${rule.topStudents} students`}.
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rank</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">School</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Students</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {standings.map((standing) => {
+              const isOpen = openSchool === standing.school;
+              return (
+                <Fragment key={standing.school}>
+                  <tr
+                    className={`cursor-pointer hover:bg-gray-50 ${standing.school === user?.school ? "bg-primary-50" : ""}`}
+                    onClick={() => setOpenSchool(isOpen ? null : standing.school)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`flex-shrink-0 h-8 w-8 rounded-full ${standing.rank === 1 ? "bg-yellow-500" : standing.rank === 2 ? "bg-gray-400" : standing.rank === 3 ? "bg-primary-500" : "bg-gray-300"} flex items-center justify-center text-white font-bold`}>
+                        {standing.rank}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        {isOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                        {standing.school}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-bold text-gray-900">{standing.score}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-500">{standing.studentCount}</div>
+                    </td>
+                  </tr>
+
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={4} className="px-6 py-3 bg-gray-50">
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-xs text-gray-500 uppercase">
+                              <th className="px-4 py-2 text-left font-medium">Rank</th>
+                              <th className="px-4 py-2 text-left font-medium">Student</th>
+                              <th className="px-4 py-2 text-left font-medium">Score</th>
+                              <th className="px-4 py-2 text-left font-medium"></th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {standing.students.map((student, index) => (
+                              <tr key={`${student.userId}-${index}`} className={student.counted ? "" : "text-gray-400"}>
+                                <td className="px-4 py-1">{student.rank ?? '—'}</td>
+                                <td className="px-4 py-1">{student.username ?? 'Student'}</td>
+                                <td className="px-4 py-1 font-medium">{student.score}</td>
+                                <td className="px-4 py-1 text-xs">{student.counted ? 'Counted' : ''}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+
+            {standings.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-6 text-center text-gray-500">
+                  No school has results yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
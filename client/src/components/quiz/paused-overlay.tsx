@@ -0,0 +1,36 @@
+import { motion } from "framer-motion";
+import { Pause } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface PausedOverlayProps {
+  timeRemaining: number;
+}
+
+export default function PausedOverlay({ timeRemaining }: PausedOverlayProps) {
+  const minutes = Math.floor(timeRemaining / 60);
+  const seconds = (timeRemaining % 60).toString().padStart(2, '0');
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <Card className="max-w-md w-full">
+        <CardContent className="p-8 text-center">
+          <div className="mx-auto mb-6 flex h-16 w-16 items-center justify-center rounded-full bg-yellow-100">
+            <Pause className="h-8 w-8 text-yellow-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-3">Quiz Paused</h2>
+          <p className="text-gray-600 mb-4">
+            The administrator has paused the quiz. Your answers are saved and the timer is stopped.
+            Please stay on this page; the quiz will continue automatically.
+          </p>
+          <p className="text-sm text-gray-500">
+            Time remaining when the quiz resumes: <span className="font-semibold">{minutes}:{seconds}</span>
+          </p>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
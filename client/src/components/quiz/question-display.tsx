@@ -5,7 +5,7 @@ import { Card } from "@/components/ui/card";
 import { Question } from "@shared/schema";
 import { AlertDialog, AlertDialogContent, AlertDialogTrigger, AlertDialogHeader, AlertDialogTitle, AlertDialogCancel, AlertDialogFooter } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-import { Maximize2 } from "lucide-react";
+import { Flag, Maximize2 } from "lucide-react";
 import { useQuiz } from "@/context/QuizContext";
 
 interface QuestionDisplayProps {
@@ -14,6 +14,9 @@ interface QuestionDisplayProps {
   currentIndex: number;
   totalQuestions: number;
   disabled?: boolean;
+  // Flagging marks the question for the review screen
+  flagged?: boolean;
+  onToggleFlag?: () => void;
 }
 
 export default function QuestionDisplay({
@@ -21,7 +24,9 @@ export default function QuestionDisplay({
   onSubmit,
   currentIndex,
   totalQuestions,
-  disabled: isDisabled = false
+  disabled: isDisabled = false,
+  flagged = false,
+  onToggleFlag,
 }: QuestionDisplayProps) {
   const { userAnswers } = useQuiz();
   const [selectedAnswer, setSelectedAnswer] = useState<string | undefined>(
@@ -48,13 +53,27 @@ export default function QuestionDisplay({
           <span className="text-sm font-medium text-gray-600">
             Question {currentIndex + 1} of {totalQuestions}
           </span>
-          <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-            question.difficulty === 'easy' ? 'bg-green-100 text-green-800' :
-            question.difficulty === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-            'bg-red-100 text-red-800'
-          }`}>
-            {question.difficulty}
-          </span>
+          <div className="flex items-center gap-2">
+            {onToggleFlag && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onToggleFlag}
+                disabled={isDisabled}
+                title={flagged ? "Remove flag" : "Flag for review"}
+                className={flagged ? "text-amber-600" : "text-gray-400"}
+              >
+                <Flag className={`h-4 w-4 ${flagged ? "fill-current" : ""}`} />
+              </Button>
+            )}
+            <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+              question.difficulty === 'easy' ? 'bg-green-100 text-green-800' :
+              question.difficulty === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+              'bg-red-100 text-red-800'
+            }`}>
+              {question.difficulty}
+            </span>
+          </div>
         </div>
 
         {/* Question Content */}
@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import { Flag } from "lucide-react";
+import { useQuiz } from "@/context/QuizContext";
+import { Question } from "@shared/schema";
+
+interface ReviewScreenProps {
+  onBack: () => void;
+  onSubmit: () => void;
+  // Shows the page holding a question; only offered where the student may go back to it
+  onGoToPage?: (pageIndex: number) => void;
+  disabled?: boolean;
+}
+
+// The questions a student left unanswered or flagged, listed before they submit
+export default function ReviewScreen({ onBack, onSubmit, onGoToPage, disabled = false }: ReviewScreenProps) {
+  const { questions, pages, currentPageIndex, userAnswers, flaggedQuestions } = useQuiz();
+
+  const pageOfQuestion = new Map<number, number>();
+  pages.forEach((page, pageIndex) => page.questions.forEach(question => pageOfQuestion.set(question.id, pageIndex)));
+
+  const unanswered = questions.filter(question => !userAnswers.get(question.id));
+  const flagged = questions.filter(question => flaggedQuestions.has(question.id));
+
+  const renderList = (title: string, items: Question[], empty: string) => (
+    <div>
+      <h3 className="text-md font-semibold text-gray-800 mb-2">{title} ({items.length})</h3>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {items.map(question => {
+            const pageIndex = pageOfQuestion.get(question.id) ?? -1;
+            // Without free navigation, only the page the student is on can still be answered
+            const reachable = onGoToPage ? pageIndex !== -1 : pageIndex === currentPageIndex;
+            return (
+              <li key={question.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="flex items-center text-gray-700">
+                  Question {questions.indexOf(question) + 1}
+                  {flaggedQuestions.has(question.id) && <Flag className="h-3 w-3 ml-2 text-amber-600 fill-current" />}
+                </span>
+                {reachable ? (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => (onGoToPage ? onGoToPage(pageIndex) : onBack())}
+                    disabled={disabled}
+                  >
+                    Go to question
+                  </Button>
+                ) : (
+                  <span className="text-xs text-gray-400">Closed</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-bold text-gray-800">Review your answers</h2>
+        <p className="text-sm text-gray-500">
+          You have answered {questions.length - unanswered.length} of {questions.length} questions.
+          Once you submit, your answers can no longer be changed.
+        </p>
+      </div>
+
+      {renderList("Unanswered", unanswered, "Every question has an answer.")}
+      {renderList("Flagged", flagged, "You have not flagged any questions.")}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onBack} disabled={disabled}>
+          Back to Questions
+        </Button>
+        <Button onClick={onSubmit} disabled={disabled}>
+          Submit Quiz
+        </Button>
+      </div>
+    </div>
+  );
+}
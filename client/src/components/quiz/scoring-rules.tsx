@@ -0,0 +1,50 @@
+import { DEFAULT_RANKING_POLICY, DEFAULT_SCORING_PROFILE, RankingPolicy, ScoringProfile, TieBreaker } from "@shared/schema";
+
+const tieBreakerRules: Record<TieBreaker, string> = {
+  completionTime: "finishing sooner",
+  correctAnswers: "more correct answers",
+  fewerIncorrect: "fewer wrong answers",
+  hardAccuracy: "more hard questions answered correctly",
+};
+
+function formatPoints(points: number) {
+  const sign = points > 0 ? "+" : "";
+  return `${sign}${points} ${Math.abs(points) === 1 ? "point" : "points"}`;
+}
+
+interface ScoringRulesProps {
+  profile?: ScoringProfile;
+  ranking?: RankingPolicy;
+}
+
+// The scoring and ranking rules of a competition, as list items for the rules page
+export default function ScoringRules({ profile = DEFAULT_SCORING_PROFILE, ranking = DEFAULT_RANKING_POLICY }: ScoringRulesProps) {
+  const { easy, medium, hard } = profile.difficultyWeights;
+  const weighted = easy !== 1 || medium !== 1 || hard !== 1;
+  const { maxPoints, withinSeconds } = profile.speedBonus;
+
+  return (
+    <>
+      <li>Correct answer: {formatPoints(profile.correct)}</li>
+      <li>Incorrect answer: {formatPoints(profile.incorrect)}</li>
+      <li>Unanswered question: {formatPoints(profile.skipped)}</li>
+      {weighted && (
+        <li>
+          Points are multiplied by the question's difficulty: easy ×{easy}, medium ×{medium}, hard ×{hard}.
+        </li>
+      )}
+      {maxPoints > 0 && (
+        <li>
+          Speed bonus: a correct answer earns up to {formatPoints(maxPoints)} more, fewer the longer it takes.
+          Answers that take {withinSeconds} seconds or longer earn no bonus.
+        </li>
+      )}
+      <li>Final leaderboard placement is based on total points earned.</li>
+      <li>
+        {ranking.tieBreakers.length > 0
+          ? `Students with the same score are placed by ${ranking.tieBreakers.map(tieBreaker => tieBreakerRules[tieBreaker]).join(", then by ")}. Students still tied share a rank.`
+          : "Students with the same score share a rank."}
+      </li>
+    </>
+  );
+}
@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Upload, CheckCircle2, XCircle, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface RestoreReport {
+  valid: boolean;
+  createdAt: string | null;
+  counts: {
+    users: number;
+    questions: number;
+    competitions: number;
+    quizAnswers: number;
+    answerRevisions: number;
+    results: number;
+    timeExtensions: number;
+    questionDraws: number;
+    paperPositions: number;
+    roundArchives: number;
+    images: number;
+  };
+  errors: string[];
+  warnings: string[];
+}
+
+interface RestoreResponse {
+  restored: boolean;
+  report: RestoreReport;
+}
+
+interface Snapshot {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+interface SnapshotsResponse {
+  intervalMinutes: number;
+  retention: number;
+  snapshots: Snapshot[];
+}
+
+const BACKUPS_KEY = '/api/admin/backups';
+
+const COUNT_LABELS: [keyof RestoreReport['counts'], string][] = [
+  ['users', 'Users'],
+  ['questions', 'Questions'],
+  ['competitions', 'Competitions'],
+  ['quizAnswers', 'Answers'],
+  ['answerRevisions', 'Answer revisions'],
+  ['results', 'Results'],
+  ['timeExtensions', 'Time extensions'],
+  ['questionDraws', 'Question papers'],
+  ['paperPositions', 'Paper positions'],
+  ['roundArchives', 'Archived rounds'],
+  ['images', 'Images'],
+];
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function BackupRestore() {
+  const { toast } = useToast();
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  // Changing the key clears the file input after a restore
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const { data: snapshotData } = useQuery<SnapshotsResponse>({
+    queryKey: [BACKUPS_KEY],
+  });
+  const snapshots = snapshotData?.snapshots ?? [];
+
+  const createBackupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('GET', '/api/admin/backup');
+      const fileName = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'mathmaster-backup.json.gz';
+      return { blob: await res.blob(), fileName };
+    },
+    onSuccess: ({ blob, fileName }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Backup failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const uploadBackup = async (dryRun: boolean): Promise<RestoreResponse> => {
+    const formData = new FormData();
+    formData.append('backup', backupFile!);
+
+    const res = await apiRequest('POST', `/api/admin/restore${dryRun ? '?dryRun=true' : ''}`, formData);
+    return res.json();
+  };
+
+  const checkBackupMutation = useMutation({
+    mutationFn: () => uploadBackup(true),
+    onSuccess: (data) => setReport(data.report),
+    onError: (error: any) => {
+      toast({
+        title: "Failed to check backup",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreBackupMutation = useMutation({
+    mutationFn: () => uploadBackup(false),
+    onSuccess: () => {
+      // Everything on screen may have changed
+      queryClient.invalidateQueries();
+      setBackupFile(null);
+      setReport(null);
+      setFileInputKey(key => key + 1);
+      toast({
+        title: "Data restored",
+        description: "The backup has been restored. A snapshot of the previous data was kept.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (file: File | null) => {
+    setBackupFile(file);
+    setReport(null);
+  };
+
+  return (
+    <>
+      <div>
+        <h3 className="text-lg font-medium text-gray-800 mb-2">Backup Data</h3>
+        <p className="text-gray-600 mb-4">
+          Download a backup of all competition data including users, questions, answers, results and question images.
+        </p>
+        <Button onClick={() => createBackupMutation.mutate()} disabled={createBackupMutation.isPending}>
+          <Download className="mr-2 h-4 w-4" />
+          {createBackupMutation.isPending ? 'Creating Backup...' : 'Create Backup'}
+        </Button>
+      </div>
+
+      <div className="border-t pt-6">
+        <h3 className="text-lg font-medium text-gray-800 mb-2">Restore Data</h3>
+        <p className="text-gray-600 mb-4">
+          Restore from a previous backup file. The file is checked first, and nothing changes until you confirm.
+        </p>
+        <div className="flex items-center space-x-2">
+          <Input
+            key={fileInputKey}
+            id="backup-file"
+            type="file"
+            accept=".gz"
+            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+          />
+          <Button
+            variant="outline"
+            onClick={() => checkBackupMutation.mutate()}
+            disabled={!backupFile || checkBackupMutation.isPending}
+          >
+            {checkBackupMutation.isPending ? 'Checking...' : 'Check'}
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={!report?.valid || restoreBackupMutation.isPending}>
+                <Upload className="mr-2 h-4 w-4" />
+                {restoreBackupMutation.isPending ? 'Restoring...' : 'Restore'}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All users, questions, competitions, answers and results will be replaced by the contents of the backup.
+                  A snapshot of the current data is taken first.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => restoreBackupMutation.mutate()}>Restore</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {report && (
+          <div className="mt-4 rounded-lg border p-4 space-y-3">
+            <div className="flex items-center">
+              {report.valid
+                ? <CheckCircle2 className="h-5 w-5 text-green-600 mr-2" />
+                : <XCircle className="h-5 w-5 text-red-600 mr-2" />}
+              <span className="font-medium text-gray-800">
+                {report.valid ? 'This backup can be restored' : 'This backup cannot be restored'}
+              </span>
+              {report.createdAt && (
+                <span className="ml-2 text-sm text-gray-500">
+                  (created {new Date(report.createdAt).toLocaleString()})
+                </span>
+              )}
+            </div>
+
+            {report.valid && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                {COUNT_LABELS.map(([key, label]) => (
+                  <div key={key} className="flex justify-between bg-gray-50 rounded px-2 py-1">
+                    <span className="text-gray-600">{label}</span>
+                    <span className="font-medium">{report.counts[key]}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.errors.map((error) => (
+              <div key={error} className="flex items-start text-sm text-red-700">
+                <XCircle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                {error}
+              </div>
+            ))}
+            {report.warnings.map((warning) => (
+              <div key={warning} className="flex items-start text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                {warning}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t pt-6">
+        <h3 className="text-lg font-medium text-gray-800 mb-2">Automatic Snapshots</h3>
+        <p className="text-gray-600 mb-4">
+          {snapshotData && snapshotData.intervalMinutes > 0
+            ? `A snapshot is taken every ${snapshotData.intervalMinutes} minutes and the newest ${snapshotData.retention} are kept on the server.`
+            : 'Automatic snapshots are turned off.'}
+        </p>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Taken</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshots.map((snapshot) => (
+                <TableRow key={snapshot.name}>
+                  <TableCell className="text-sm text-gray-700">
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                    {snapshot.name.endsWith('-pre-restore.json.gz') && (
+                      <span className="ml-2 text-xs text-gray-500">(before restore)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatSize(snapshot.size)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`${BACKUPS_KEY}/${encodeURIComponent(snapshot.name)}`} download>
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </a>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+
+              {snapshots.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-6 text-gray-500">
+                    No snapshots yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell
+} from "@/components/ui/table";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MonitorSmartphone, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface LiveSession {
+  id: string;
+  userId: number;
+  username: string;
+  role: string;
+  school: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  live: boolean;
+  current: boolean;
+}
+
+interface LiveSessionsResponse {
+  policy: 'takeover' | 'reject';
+  sessions: LiveSession[];
+}
+
+const SESSIONS_KEY = '/api/sessions';
+
+export default function LiveSessions() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<LiveSessionsResponse>({
+    queryKey: [SESSIONS_KEY],
+    refetchInterval: 10000,
+  });
+  const sessions = data?.sessions ?? [];
+
+  const terminateSessionMutation = useMutation({
+    mutationFn: async (session: LiveSession) => apiRequest('DELETE', `${SESSIONS_KEY}/${session.id}`),
+    onSuccess: (_data, session) => {
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+      toast({
+        title: "Session ended",
+        description: `${session.username} has been logged out.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to end session",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <Card className="bg-white rounded-xl shadow-lg overflow-hidden mt-6">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <MonitorSmartphone className="h-5 w-5 text-primary-600 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-800">Live Sessions</h3>
+        </div>
+        {data && (
+          <span className="text-sm text-gray-500">
+            Second student login: {data.policy === 'reject' ? 'rejected' : 'replaces the first'}
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Device</TableHead>
+              <TableHead>Logged In</TableHead>
+              <TableHead>Last Seen</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.id} className="hover:bg-gray-50">
+                <TableCell>
+                  <div className="text-sm font-medium text-gray-900">
+                    {session.username}
+                    {session.current && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {session.role.charAt(0).toUpperCase() + session.role.slice(1)}
+                    {session.school && ` · ${session.school}`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm text-gray-700">{session.ipAddress || 'Unknown'}</div>
+                  <div className="text-xs text-gray-500 max-w-xs truncate">{session.userAgent}</div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-500">{formatTime(session.createdAt)}</TableCell>
+                <TableCell>
+                  <Badge
+                    className={session.live ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}
+                    variant="outline"
+                  >
+                    {session.live ? 'Active' : 'Idle'} · {formatTime(session.lastSeenAt)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => terminateSessionMutation.mutate(session)}
+                      disabled={terminateSessionMutation.isPending}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      End
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+
+            {sessions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  {isLoading ? 'Loading sessions...' : 'No one is logged in.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
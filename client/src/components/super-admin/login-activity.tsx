@@ -1,23 +1,21 @@
-import {
-  Table,
-  TableHeader,
-  TableRow,
-  TableHead,
-  TableBody,
-  TableCell
-} from "@/components/ui/table";
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { useQuery } from "@tanstack/react-query";
+import { LogIn, LogOut, ShieldX } from "lucide-react";
+import LoginLockouts from "@/components/super-admin/login-lockouts";
+import { LoginEvent } from "@shared/schema";
 
 interface User {
   id: number;
   username: string;
   role: string;
-  school?: string;
-  email?: string;
-  status: string;
-  lastLogin?: Date;
+  school?: string | null;
+  lastLogin?: Date | string | null;
 }
 
 interface LoginActivityProps {
@@ -25,59 +23,74 @@ interface LoginActivityProps {
   isLoading: boolean;
 }
 
+// How each event type is shown in the timeline
+const EVENT_STYLES = {
+  login: { label: 'Logged in', icon: LogIn, className: 'bg-green-100 text-green-700' },
+  logout: { label: 'Logged out', icon: LogOut, className: 'bg-gray-100 text-gray-700' },
+  failure: { label: 'Failed login', icon: ShieldX, className: 'bg-red-100 text-red-700' },
+};
+
+// Number of events shown in the timeline
+const TIMELINE_LENGTH = 50;
+
 export default function LoginActivity({ users, isLoading }: LoginActivityProps) {
-  // Sort users by lastLogin (most recent first)
-  const sortedUsers = [...users].sort((a, b) => {
-    if (!a.lastLogin) return 1;
-    if (!b.lastLogin) return -1;
-    return new Date(b.lastLogin).getTime() - new Date(a.lastLogin).getTime();
+  const [eventType, setEventType] = useState("all");
+  const [role, setRole] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+
+  // Build the audit log URL from the selected filters
+  const params = new URLSearchParams();
+  if (eventType !== "all") params.set("type", eventType);
+  if (role !== "all") params.set("role", role);
+  if (fromDate) params.set("from", new Date(fromDate).toISOString());
+  const eventsUrl = `/api/audit/logins${params.toString() ? `?${params}` : ''}`;
+
+  const { data: events = [], isLoading: isLoadingEvents } = useQuery<LoginEvent[]>({
+    queryKey: [eventsUrl],
+    refetchInterval: 10000,
   });
-  
-  // Get users who have logged in
-  const loggedInUsers = sortedUsers.filter(user => user.lastLogin);
-  
+
   // Format date for display
-  const formatDate = (date: Date | string | undefined) => {
+  const formatDate = (date: Date | string | null | undefined) => {
     if (!date) return 'Never';
-    
+
     const d = new Date(date);
     const today = new Date();
-    const isToday = 
+    const isToday =
       d.getDate() === today.getDate() &&
       d.getMonth() === today.getMonth() &&
       d.getFullYear() === today.getFullYear();
-    
+
     const timeFormat = d.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
-    
+
     if (isToday) {
       return `Today, ${timeFormat}`;
     } else {
       return d.toLocaleDateString() + ', ' + timeFormat;
     }
   };
-  
-  // Generate login data for the chart
-  const generateLoginData = () => {
-    const roleCounts = {
-      student: { active: 0, inactive: 0 },
-      admin: { active: 0, inactive: 0 },
-      superadmin: { active: 0, inactive: 0 }
-    };
-    
-    users.forEach(user => {
-      if (roleCounts[user.role as keyof typeof roleCounts]) {
-        roleCounts[user.role as keyof typeof roleCounts][user.status === 'active' ? 'active' : 'inactive']++;
-      }
+
+  // Count logins and failed attempts per school for the chart
+  const generateSchoolData = () => {
+    const counts = new Map<string, { name: string; logins: number; failures: number }>();
+
+    events.forEach(event => {
+      if (!event.school || event.type === 'logout') return;
+
+      const entry = counts.get(event.school) ?? { name: event.school, logins: 0, failures: 0 };
+      entry[event.type === 'login' ? 'logins' : 'failures']++;
+      counts.set(event.school, entry);
     });
-    
-    return [
-      { name: 'Students', active: roleCounts.student.active, inactive: roleCounts.student.inactive },
-      { name: 'Admins', active: roleCounts.admin.active, inactive: roleCounts.admin.inactive },
-      { name: 'Super Admins', active: roleCounts.superadmin.active, inactive: roleCounts.superadmin.inactive }
-    ];
+
+    return Array.from(counts.values()).sort((a, b) => b.logins + b.failures - (a.logins + a.failures));
   };
-  
-  if (isLoading) {
+
+  const logins = events.filter(event => event.type === 'login');
+  const failures = events.filter(event => event.type === 'failure');
+  const distinctUsers = new Set(logins.map(event => event.userId)).size;
+  const schoolData = generateSchoolData();
+
+  if (isLoading || isLoadingEvents) {
     return (
       <div className="text-center py-8">
         <div className="w-12 h-12 mx-auto border-4 border-primary-200 border-t-primary-600 rounded-full animate-spin"></div>
@@ -85,72 +98,125 @@ export default function LoginActivity({ users, isLoading }: LoginActivityProps)
       </div>
     );
   }
-  
+
   return (
     <div className="space-y-6">
       <h2 className="text-lg font-semibold text-gray-800">Login Activity</h2>
-      
+
+      <Card className="p-4 bg-white rounded-xl shadow-lg">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="login-event-type">Event</Label>
+            <Select value={eventType} onValueChange={setEventType}>
+              <SelectTrigger id="login-event-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                <SelectItem value="login">Logins</SelectItem>
+                <SelectItem value="logout">Logouts</SelectItem>
+                <SelectItem value="failure">Failed logins</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="login-event-role">Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger id="login-event-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                <SelectItem value="student">Students</SelectItem>
+                <SelectItem value="admin">Admins</SelectItem>
+                <SelectItem value="superadmin">Super Admins</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="login-event-from">Since</Label>
+            <Input
+              id="login-event-from"
+              type="datetime-local"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card className="p-6 bg-white rounded-xl shadow-lg">
-          <h3 className="text-lg font-semibold text-gray-800 mb-4">User Status</h3>
-          
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Logins by School</h3>
+
           <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart
-                data={generateLoginData()}
-                margin={{ top: 10, right: 30, left: 0, bottom: 20 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="active" name="Active" fill="#10B981" />
-                <Bar dataKey="inactive" name="Inactive" fill="#D1D5DB" />
-              </BarChart>
-            </ResponsiveContainer>
+            {schoolData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={schoolData}
+                  layout="vertical"
+                  margin={{ top: 10, right: 30, left: 0, bottom: 20 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" width={160} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Bar dataKey="logins" name="Logins" stackId="school" fill="#10B981" />
+                  <Bar dataKey="failures" name="Failed logins" stackId="school" fill="#EF4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-gray-500">
+                No school logins recorded for these filters.
+              </div>
+            )}
           </div>
-          
+
           <div className="flex justify-center space-x-8 mt-4">
             <div className="flex items-center">
               <div className="w-3 h-3 rounded-full bg-green-500 mr-2"></div>
-              <span className="text-sm text-gray-600">Active</span>
+              <span className="text-sm text-gray-600">Logins</span>
             </div>
             <div className="flex items-center">
-              <div className="w-3 h-3 rounded-full bg-gray-300 mr-2"></div>
-              <span className="text-sm text-gray-600">Inactive</span>
+              <div className="w-3 h-3 rounded-full bg-red-500 mr-2"></div>
+              <span className="text-sm text-gray-600">Failed logins</span>
             </div>
           </div>
         </Card>
-        
+
         <Card className="p-6 bg-white rounded-xl shadow-lg">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">Login Summary</h3>
-          
+
           <ul className="space-y-4">
             <li className="flex justify-between border-b pb-2">
               <span className="text-gray-600">Total Users:</span>
               <span className="font-medium">{users.length}</span>
             </li>
             <li className="flex justify-between border-b pb-2">
-              <span className="text-gray-600">Active Users:</span>
-              <span className="font-medium">{users.filter(u => u.status === 'active').length}</span>
+              <span className="text-gray-600">Logins:</span>
+              <span className="font-medium">{logins.length}</span>
             </li>
             <li className="flex justify-between border-b pb-2">
-              <span className="text-gray-600">Users with Login Activity:</span>
-              <span className="font-medium">{loggedInUsers.length}</span>
+              <span className="text-gray-600">Users Who Logged In:</span>
+              <span className="font-medium">{distinctUsers}</span>
+            </li>
+            <li className="flex justify-between border-b pb-2">
+              <span className="text-gray-600">Failed Attempts:</span>
+              <span className="font-medium">{failures.length}</span>
             </li>
             <li className="flex justify-between">
               <span className="text-gray-600">Login Rate:</span>
               <span className="font-medium">
-                {users.length > 0 ? Math.round((loggedInUsers.length / users.length) * 100) : 0}%
+                {users.length > 0 ? Math.round((distinctUsers / users.length) * 100) : 0}%
               </span>
             </li>
           </ul>
-          
+
           <div className="mt-6 p-4 bg-gray-50 rounded-lg">
             <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Activity</h4>
-            {loggedInUsers.length > 0 ? (
+            {logins.length > 0 ? (
               <p className="text-sm text-gray-600">
-                Last login: <span className="font-medium">{loggedInUsers[0].username}</span> at <span className="font-medium">{formatDate(loggedInUsers[0].lastLogin)}</span>
+                Last login: <span className="font-medium">{logins[0].username}</span> at <span className="font-medium">{formatDate(logins[0].createdAt)}</span>
               </p>
             ) : (
               <p className="text-sm text-gray-600">No recent login activity</p>
@@ -158,84 +224,53 @@ export default function LoginActivity({ users, isLoading }: LoginActivityProps)
           </div>
         </Card>
       </div>
-      
+
       <Card className="bg-white rounded-xl shadow-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-800">Recent Login Activity</h3>
+          <h3 className="text-lg font-semibold text-gray-800">Timeline</h3>
         </div>
-        
-        <div className="overflow-x-auto">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>User</TableHead>
-                <TableHead>Role</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Last Login</TableHead>
-                <TableHead>School</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {loggedInUsers.slice(0, 10).map((user) => (
-                <TableRow key={user.id} className="hover:bg-gray-50">
-                  <TableCell>
-                    <div className="flex items-center">
-                      <div className="h-10 w-10 flex-shrink-0 rounded-full bg-primary-100 flex items-center justify-center">
-                        <span className="text-primary-800 font-medium">
-                          {user.username.substring(0, 2).toUpperCase()}
-                        </span>
-                      </div>
-                      <div className="ml-4">
-                        <div className="text-sm font-medium text-gray-900">{user.username}</div>
-                        <div className="text-sm text-gray-500">{user.email || 'No email'}</div>
-                      </div>
+
+        {events.length > 0 ? (
+          <ol className="px-6 py-4 space-y-4">
+            {events.slice(0, TIMELINE_LENGTH).map((event) => {
+              const style = EVENT_STYLES[event.type];
+              const Icon = style.icon;
+
+              return (
+                <li key={event.id} className="flex items-start">
+                  <div className={`h-9 w-9 flex-shrink-0 rounded-full flex items-center justify-center ${style.className}`}>
+                    <Icon className="h-4 w-4" />
+                  </div>
+                  <div className="ml-4 flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{event.username}</span>
+                      <span className="text-sm text-gray-600">{style.label}</span>
+                      {event.role && (
+                        <Badge variant="outline" className="text-xs">
+                          {event.role.charAt(0).toUpperCase() + event.role.slice(1)}
+                        </Badge>
+                      )}
+                      {event.reason && (
+                        <Badge variant="outline" className="bg-red-50 text-red-700 text-xs">{event.reason}</Badge>
+                      )}
                     </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge 
-                      className={
-                        user.role === 'superadmin' 
-                          ? 'bg-purple-100 text-purple-800' 
-                          : user.role === 'admin' 
-                            ? 'bg-blue-100 text-blue-800' 
-                            : 'bg-green-100 text-green-800'
-                      }
-                      variant="outline"
-                    >
-                      {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>
-                    <Badge 
-                      className={user.status === 'active' 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-gray-100 text-gray-800'
-                      }
-                      variant="outline"
-                    >
-                      {user.status === 'active' ? 'Active' : 'Inactive'}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-sm text-gray-500">
-                    {formatDate(user.lastLogin)}
-                  </TableCell>
-                  <TableCell className="text-sm text-gray-500">
-                    {user.school || (user.role !== 'student' ? 'N/A' : 'Not specified')}
-                  </TableCell>
-                </TableRow>
-              ))}
-              
-              {loggedInUsers.length === 0 && (
-                <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
-                    No login activity recorded yet.
-                  </TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </div>
+                    <div className="text-xs text-gray-500 mt-1 truncate">
+                      {formatDate(event.createdAt)}
+                      {event.school && ` · ${event.school}`}
+                      {event.ipAddress && ` · ${event.ipAddress}`}
+                      {event.userAgent && ` · ${event.userAgent}`}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-center py-8 text-gray-500">No login activity recorded yet.</p>
+        )}
       </Card>
+
+      <LoginLockouts />
     </div>
   );
 }
@@ -0,0 +1,117 @@
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell
+} from "@/components/ui/table";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldAlert, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LoginThrottle } from "@shared/schema";
+
+type Lockout = LoginThrottle & { lockedOut: boolean };
+
+const LOCKOUTS_KEY = '/api/security/lockouts';
+
+export default function LoginLockouts() {
+  const { toast } = useToast();
+
+  // Poll so new lockouts show up while the competition is running
+  const { data: lockouts = [], isLoading } = useQuery<Lockout[]>({
+    queryKey: [LOCKOUTS_KEY],
+    refetchInterval: 10000,
+  });
+
+  const clearLockoutMutation = useMutation({
+    mutationFn: async (lockout: Lockout) =>
+      apiRequest('DELETE', `${LOCKOUTS_KEY}/${lockout.scope}/${encodeURIComponent(lockout.key)}`),
+    onSuccess: (_data, lockout) => {
+      queryClient.invalidateQueries({ queryKey: [LOCKOUTS_KEY] });
+      toast({
+        title: "Lockout cleared",
+        description: `${lockout.key} can log in again.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to clear lockout",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatTime = (date: Date | string | null) =>
+    date ? new Date(date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' }) : '-';
+
+  return (
+    <Card className="bg-white rounded-xl shadow-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <ShieldAlert className="h-5 w-5 text-red-500 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-800">Login Lockouts</h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username / IP</TableHead>
+              <TableHead>Failures</TableHead>
+              <TableHead>Last Failure</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lockouts.map((lockout) => (
+              <TableRow key={`${lockout.scope}:${lockout.key}`} className="hover:bg-gray-50">
+                <TableCell>
+                  <div className="text-sm font-medium text-gray-900">{lockout.key}</div>
+                  <div className="text-xs text-gray-500">{lockout.scope === 'ip' ? 'IP address' : 'Username'}</div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-700">{lockout.failureCount}</TableCell>
+                <TableCell className="text-sm text-gray-500">{formatTime(lockout.lastFailureAt)}</TableCell>
+                <TableCell>
+                  {lockout.lockedOut ? (
+                    <Badge className="bg-red-100 text-red-800" variant="outline">
+                      Locked until {formatTime(lockout.blockedUntil)}
+                    </Badge>
+                  ) : lockout.blockedUntil && new Date(lockout.blockedUntil) > new Date() ? (
+                    <Badge className="bg-yellow-100 text-yellow-800" variant="outline">Delayed</Badge>
+                  ) : (
+                    <Badge className="bg-gray-100 text-gray-800" variant="outline">Watching</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => clearLockoutMutation.mutate(lockout)}
+                    disabled={clearLockoutMutation.isPending}
+                  >
+                    <Unlock className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+
+            {lockouts.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  {isLoading ? 'Loading lockouts...' : 'No recent failed logins.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell
+} from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Eye } from "lucide-react";
+import { RoundArchive } from "@shared/schema";
+
+interface ArchiveSummary {
+  id: number;
+  competitionId: number;
+  competitionName: string;
+  name: string;
+  startTime: string | null;
+  endTime: string | null;
+  participantCount: number;
+  answerCount: number;
+  createdAt: string;
+}
+
+const formatDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toLocaleString() : '—';
+
+export default function RoundArchives() {
+  const [competitionFilter, setCompetitionFilter] = useState("all");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: archives = [], isLoading } = useQuery<ArchiveSummary[]>({
+    queryKey: ['/api/archives'],
+  });
+
+  const { data: selected, isLoading: isLoadingSelected } = useQuery<RoundArchive>({
+    queryKey: [`/api/archives/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  // Competitions that have archived rounds, for the filter
+  const competitionNames = new Map<number, string>();
+  archives.forEach(archive => competitionNames.set(archive.competitionId, archive.competitionName));
+
+  const shownArchives = competitionFilter === "all"
+    ? archives
+    : archives.filter(archive => archive.competitionId.toString() === competitionFilter);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-12 h-12 mx-auto border-4 border-primary-200 border-t-primary-600 rounded-full animate-spin"></div>
+        <p className="mt-4 text-gray-600">Loading archived rounds...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-semibold text-gray-800">Archived Rounds</h2>
+
+      <Card className="p-4 bg-white rounded-xl shadow-lg">
+        <div className="max-w-xs mb-4">
+          <Label htmlFor="archive-competition">Competition</Label>
+          <Select value={competitionFilter} onValueChange={setCompetitionFilter}>
+            <SelectTrigger id="archive-competition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All competitions</SelectItem>
+              {Array.from(competitionNames).map(([id, name]) => (
+                <SelectItem key={id} value={id.toString()}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Round</TableHead>
+                <TableHead>Competition</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Students</TableHead>
+                <TableHead>Archived</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shownArchives.map((archive) => (
+                <TableRow key={archive.id} className={archive.id === selectedId ? "bg-primary-50" : undefined}>
+                  <TableCell className="font-medium">{archive.name}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{archive.competitionName}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDate(archive.startTime)}</TableCell>
+                  <TableCell className="text-sm">{archive.participantCount}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDate(archive.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedId(archive.id)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+
+              {shownArchives.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                    No rounds have been archived yet. A round is archived when its quiz is reset.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+
+      {selectedId !== null && (
+        <Card className="p-4 bg-white rounded-xl shadow-lg">
+          {isLoadingSelected || !selected ? (
+            <p className="text-center py-6 text-gray-500">Loading round...</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-800">{selected.name}</h3>
+                  <p className="text-sm text-gray-500">
+                    {selected.competitionName} · {formatDate(selected.settings.startTime)} to {formatDate(selected.settings.endTime)}
+                    {' '}· {Math.round(selected.settings.durationSeconds / 60)} minutes · {selected.answers.length} answers
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/archives/${selected.id}/export`} download>
+                      <Download className="h-4 w-4 mr-1" />
+                      Results CSV
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/archives/${selected.id}/export?format=json`} download>
+                      <Download className="h-4 w-4 mr-1" />
+                      Full JSON
+                    </a>
+                  </Button>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rank</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead>School</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Correct</TableHead>
+                      <TableHead>Incorrect</TableHead>
+                      <TableHead>Skipped</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.results.map((result) => (
+                      <TableRow key={result.id}>
+                        <TableCell className="font-medium">{result.rank ?? '—'}</TableCell>
+                        <TableCell>{result.username ?? 'Deleted user'}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{result.school ?? '—'}</TableCell>
+                        <TableCell className="font-medium">{result.score}</TableCell>
+                        <TableCell className="text-green-600">{result.correctAnswers}</TableCell>
+                        <TableCell className="text-red-600">{result.incorrectAnswers}</TableCell>
+                        <TableCell className="text-gray-500">{result.skippedAnswers}</TableCell>
+                      </TableRow>
+                    ))}
+
+                    {selected.results.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                          No results were recorded in this round.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
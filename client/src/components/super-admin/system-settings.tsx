@@ -15,6 +15,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Save } from "lucide-react";
+import BackupRestore from "@/components/super-admin/backup-restore";
 
 export default function SystemSettings() {
   const { toast } = useToast();
@@ -248,20 +249,7 @@ export default function SystemSettings() {
         <TabsContent value="backup">
           <Card className="p-6 bg-white rounded-xl shadow-lg">
             <div className="space-y-6">
-              <div>
-                <h3 className="text-lg font-medium text-gray-800 mb-2">Backup Data</h3>
-                <p className="text-gray-600 mb-4">Create a backup of all competition data including users, questions, and results.</p>
-                <Button>Create Backup</Button>
-              </div>
-              
-              <div className="border-t pt-6">
-                <h3 className="text-lg font-medium text-gray-800 mb-2">Restore Data</h3>
-                <p className="text-gray-600 mb-4">Restore from a previous backup file.</p>
-                <div className="flex items-center space-x-2">
-                  <Input id="backup-file" type="file" />
-                  <Button variant="outline">Restore</Button>
-                </div>
-              </div>
+              <BackupRestore />
               
               <div className="border-t pt-6">
                 <h3 className="text-lg font-medium text-text-gray-800 mb-2">Export Results</h3>
@@ -3,13 +3,14 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
-import { User, LoginCredentials } from "@shared/schema";
+import { User, LoginCredentials, ChangePasswordData } from "@shared/schema";
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   login: (credentials: LoginCredentials) => Promise<User | null>;
   logout: () => Promise<void>;
+  changePassword: (data: ChangePasswordData) => Promise<User | null>;
   error: string | null;
   checkAuth: () => Promise<User | null>;
 }
@@ -28,6 +29,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const { data, isLoading, isError, refetch } = useQuery<{user: User}>({
     queryKey: ['/api/auth/me'],
     staleTime: 5 * 60 * 1000, // 5 minutes before refetching
+    refetchInterval: user ? 30000 : false, // Notice sessions ended by another login or an admin
     refetchOnWindowFocus: true, // Refetch when window is focused
     refetchOnReconnect: true, // Refetch when browser reconnects
     retry: 1, // Only retry once to avoid unnecessary requests
@@ -35,12 +37,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   // Handle authentication state changes
   useEffect(() => {
-    if (data && data.user) {
-      console.log("AuthContext: User authenticated:", data.user.username);
-      setUser(data.user);
-    } else if (isError) {
+    // A failed refetch keeps the previous data, so check for the error first
+    if (isError) {
       console.log("AuthContext: Authentication error, clearing user state");
+      if (user) {
+        queryClient.clear();
+        navigate('/');
+        toast({
+          title: "Session ended",
+          description: "You were logged out because your account was used on another device or an administrator ended your session.",
+          variant: "destructive",
+        });
+      }
       setUser(null);
+    } else if (data && data.user) {
+      console.log("AuthContext: User authenticated:", data.user.username);
+      setUser(data.user);
     }
 
     if (!initialCheckDone && (data || isError)) {
@@ -62,6 +74,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       console.log("AuthContext: Navigation check - location:", location, "user:", !!user);
       const handleNavigation = (location: string, user: User | null) => {
+        // Accounts with a temporary password must change it before anything else
+        if (user?.mustChangePassword) {
+          if (location !== '/change-password') navigate('/change-password');
+          return;
+        }
+
+        // Leave the password page once the password has been changed
+        if (location === '/change-password' && user) {
+          navigate('/');
+          return;
+        }
+
         // If on login page and authenticated, redirect based on role
         if (location === '/' && user) {
           console.log('AuthContext: Redirecting authenticated user from login page based on role');
@@ -91,27 +115,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuthAndNavigate();
   }, [initialCheckDone, user, location, navigate, refetch]);
 
-  // Explicitly prefetch quiz settings when authenticated to avoid race conditions
+  // Explicitly prefetch the current competition when authenticated to avoid race conditions
   useEffect(() => {
     if (user) {
-      console.log("AuthContext: Prefetching quiz settings for authenticated user");
-      // Prefetch quiz settings for faster page transitions
+      console.log("AuthContext: Prefetching current competition for authenticated user");
+      // Prefetch the competition for faster page transitions; the quiz context
+      // loads its settings and questions once the competition is known
       queryClient.prefetchQuery({
-        queryKey: ['/api/quiz/settings'],
+        queryKey: ['/api/competitions/current'],
         staleTime: 2000 // 2 seconds before refetching
       });
-
-      // For students, also prefetch questions if quiz has started
-      if (user.role === 'student') {
-        const quizSettings = queryClient.getQueryData(['/api/quiz/settings']) as {state: string} | undefined;
-        if (quizSettings?.state === 'started') {
-          console.log("AuthContext: Prefetching questions for student");
-          queryClient.prefetchQuery({
-            queryKey: ['/api/questions'],
-            staleTime: 5000 // 5 seconds
-          });
-        }
-      }
     }
   }, [user, queryClient]);
 
@@ -137,6 +150,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       // Redirect based on user role
       const handleNavigation = (location: string, user: User | null) => {
+          if (user?.mustChangePassword) {
+            navigate('/change-password');
+            return;
+          }
+
           // If on login page and authenticated, redirect based on role
           if (location === '/' && user) {
             console.log('AuthContext: Redirecting authenticated user from login page based on role');
@@ -199,6 +217,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     },
   });
 
+  // Change password mutation
+  const changePasswordMutation = useMutation({
+    mutationFn: async (passwords: ChangePasswordData) => {
+      const res = await apiRequest('POST', '/api/auth/change-password', passwords);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setUser(data.user);
+      queryClient.setQueryData(['/api/auth/me'], data);
+
+      toast({
+        title: "Password updated",
+        description: "Your new password is now active.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Password change failed",
+        description: error.message || "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
   const login = async (credentials: LoginCredentials) => {
     try {
       const result = await loginMutation.mutateAsync(credentials);
@@ -212,6 +254,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await logoutMutation.mutateAsync();
   };
 
+  const changePassword = async (passwords: ChangePasswordData) => {
+    try {
+      const result = await changePasswordMutation.mutateAsync(passwords);
+      return result.user;
+    } catch (error) {
+      return null;
+    }
+  };
+
   const checkAuth = async (): Promise<User | null> => {
     try {
       const result = await refetch();
@@ -224,9 +275,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Provide authentication context
   const value = {
     user,
-    loading: isLoading || loginMutation.isPending || logoutMutation.isPending,
+    loading: isLoading || loginMutation.isPending || logoutMutation.isPending || changePasswordMutation.isPending,
     login,
     logout,
+    changePassword,
     error,
     checkAuth,
   };
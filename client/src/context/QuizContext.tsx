@@ -3,19 +3,65 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useLocation } from 'wouter';
-import { Question, QuizSetting, QuizAnswer, Result } from '@shared/schema';
+import { Competition, Question, QuizSetting, QuizAnswer, Result, PaperDisplay, PaperStructure, NavigationPolicy, DEFAULT_NAVIGATION_POLICY } from '@shared/schema';
+import { competitionUrl } from '@/lib/quiz';
 import { useAuth } from './AuthContext';
+import PausedOverlay from '@/components/quiz/paused-overlay';
+
+type QuizState = 'waiting' | 'started' | 'paused' | 'completed';
+
+// A section of the paper, with its questions in the order they are served
+export interface QuizSection {
+  name: string | null;
+  // Position of the section's first question in the whole paper
+  start: number;
+  questions: Question[];
+  // Seconds the student gets for the whole section, or null for no limit
+  timeLimitSeconds: number | null;
+}
+
+// One page of the paper, as the quiz page shows it
+export interface QuizPage {
+  section: number;
+  // Position of the page's first question in the whole paper
+  start: number;
+  questions: Question[];
+}
 
 interface QuizContextType {
-  quizState: 'waiting' | 'started' | 'completed';
+  competitionId: number | null;
+  competition: Competition | null;
+  competitions: Competition[];
+  selectCompetition: (competitionId: number) => void;
+  quizState: QuizState;
   questions: Question[];
-  currentQuestionIndex: number;
+  paperDisplay: PaperDisplay;
+  sections: QuizSection[];
+  pages: QuizPage[];
+  currentPageIndex: number;
+  navigationPolicy: NavigationPolicy;
+  // Seconds left before the current page closes, and the time it was given, or null when
+  // the page has no time limit
+  pageTimeRemaining: number | null;
+  pageTimeLimit: number | null;
+  flaggedQuestions: Set<number>;
   userAnswers: Map<number, string | null>;
   timeRemaining: number;
-  startQuiz: () => Promise<void>;
-  resetQuiz: () => Promise<void>;
+  durationSeconds: number;
+  scheduledStartTime: Date | null;
+  secondsUntilStart: number | null;
+  startQuiz: (durationSeconds?: number) => Promise<void>;
+  pauseQuiz: () => Promise<void>;
+  resumeQuiz: (extraMinutes?: number) => Promise<void>;
+  scheduleQuiz: (startTime: Date) => Promise<void>;
+  cancelScheduledStart: () => Promise<void>;
+  endQuiz: () => Promise<void>;
+  resetQuiz: (archiveName?: string) => Promise<void>;
   submitAnswer: (questionId: number, answer: string | null) => Promise<void>;
-  nextQuestion: () => void;
+  nextPage: () => void;
+  // Only available with free navigation
+  goToPage: (pageIndex: number) => void;
+  toggleFlag: (questionId: number) => void;
   submitQuiz: () => Promise<void>;
   loading: boolean;
   error: string | null;
@@ -24,6 +70,10 @@ interface QuizContextType {
   completed: boolean;
 }
 
+// Quiz settings as served by the API, stamped with the server's clock and
+// including the signed-in student's personal time extension
+type QuizSettingsResponse = QuizSetting & { serverTime: string; timeExtensionSeconds?: number };
+
 const QuizContext = createContext<QuizContextType | undefined>(undefined);
 
 export function QuizProvider({ children }: { children: React.ReactNode }) {
@@ -31,81 +81,81 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
   const { toast } = useToast();
   const [location, navigate] = useLocation();
   const webSocketRef = useRef<WebSocket | null>(null);
+  // Difference between the server clock and this device's clock in milliseconds
+  const clockOffsetRef = useRef(0);
+  const submitQuizRef = useRef<() => Promise<void>>(async () => {});
+  const pageTimeUpRef = useRef<() => void>(() => {});
+  // Competition whose free-navigation paper was last resumed, so it is only resumed on load
+  const resumedCompetitionRef = useRef<number | null>(null);
+
+  // Admins can switch between competitions; students follow the one the server assigns them
+  const [selectedCompetitionId, setSelectedCompetitionId] = useState<number | null>(() => {
+    const savedId = localStorage.getItem('selectedCompetitionId');
+    return savedId ? parseInt(savedId, 10) : null;
+  });
 
-  const [quizState, setQuizState] = useState<'waiting' | 'started' | 'completed'>('waiting');
+  const [quizState, setQuizState] = useState<QuizState>('waiting');
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
+  const [flaggedQuestions, setFlaggedQuestions] = useState<Set<number>>(new Set());
   const [userAnswers, setUserAnswers] = useState<Map<number, string | null>>(new Map());
-  const [timeRemaining, setTimeRemaining] = useState(() => {
-    // Try to get saved time from localStorage
-    const savedTime = localStorage.getItem('quizTimeRemaining');
-    return savedTime ? parseInt(savedTime, 10) : 3600;
-  });
+  const [timeRemaining, setTimeRemaining] = useState(3600);
+  const [pageTimeRemaining, setPageTimeRemaining] = useState<number | null>(null);
+  const [secondsUntilStart, setSecondsUntilStart] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [score, setScore] = useState<number | null>(null);
   const [quizResult, setQuizResult] = useState<Result | null>(null);
   const [completed, setCompleted] = useState<boolean>(false);
 
-  // Save time to localStorage whenever it changes
-  useEffect(() => {
-    if (quizState === 'started') {
-      localStorage.setItem('quizTimeRemaining', timeRemaining.toString());
-    }
-  }, [timeRemaining, quizState]);
+  const isAdmin = user?.role === 'admin' || user?.role === 'superadmin';
 
-  // Clear timer when quiz state changes or component unmounts
-  useEffect(() => {
-    if (quizState !== 'started') {
-      localStorage.removeItem('quizTimeRemaining');
-    }
-    return () => {
-      if (quizState !== 'started') {
-        localStorage.removeItem('quizTimeRemaining');
-      }
-    };
-  }, [quizState]);
-
-  // Timer effect for the entire quiz
-  useEffect(() => {
-    let timer: NodeJS.Timeout | null = null;
+  // Fetch the competition the server considers current for this user
+  const { data: currentCompetition, isLoading: loadingCompetition } = useQuery<Competition>({
+    queryKey: ['/api/competitions/current'],
+    enabled: !!user,
+  });
 
-    if (quizState === 'started' && questions.length > 0) {
-      // Check if there's a saved time, otherwise start with 3600 seconds
-      if (!localStorage.getItem('quizTimeRemaining')) {
-        setTimeRemaining(3600);
-        localStorage.setItem('quizTimeRemaining', '3600');
-      }
+  // Admins get the full list so they can switch competitions
+  const { data: competitionsData } = useQuery<Competition[]>({
+    queryKey: ['/api/competitions'],
+    enabled: !!user && isAdmin,
+  });
 
-      timer = setInterval(() => {
-        setTimeRemaining(prev => {
-          const newTime = prev - 1;
-          if (newTime <= 0) {
-            if (timer) clearInterval(timer);
-            setTimeout(() => submitQuiz(), 0);
-            return 0;
-          }
-          localStorage.setItem('quizTimeRemaining', newTime.toString());
-          return newTime;
-        });
-      }, 1000);
-    }
+  const competitions = competitionsData ?? (currentCompetition ? [currentCompetition] : []);
+  const selectedCompetition = isAdmin
+    ? competitions.find(c => c.id === selectedCompetitionId)
+    : undefined;
+  const competition = selectedCompetition ?? currentCompetition ?? null;
+  const competitionId = competition?.id ?? null;
+  const navigationPolicy = competition?.navigationPolicy ?? DEFAULT_NAVIGATION_POLICY;
+
+  // Flags are only a reminder for the student, so they are kept on this device
+  const flagsKey = user && competitionId ? `flaggedQuestions:${competitionId}:${user.id}` : null;
+
+  const selectCompetition = (id: number) => {
+    localStorage.setItem('selectedCompetitionId', id.toString());
+    setSelectedCompetitionId(id);
+    // Per-competition state is reloaded from the server
+    setQuestions([]);
+    setUserAnswers(new Map());
+    setCurrentPageIndex(0);
+    setQuizResult(null);
+    setScore(null);
+  };
 
-    return () => {
-      if (timer) {
-        clearInterval(timer);
-      }
-    };
-  }, [quizState, questions.length]);
+  // Load the student's flags for the competition
+  useEffect(() => {
+    const saved = flagsKey ? localStorage.getItem(flagsKey) : null;
+    setFlaggedQuestions(new Set<number>(saved ? JSON.parse(saved) : []));
+  }, [flagsKey]);
 
   // Cleanup localStorage when quiz ends or unmounts
   useEffect(() => {
     if (quizState !== 'started' || completed) {
-      localStorage.removeItem('quizTimeRemaining');
       localStorage.removeItem('currentBatch');
     }
     return () => {
       if (quizState !== 'started' || completed) {
-        localStorage.removeItem('quizTimeRemaining');
         localStorage.removeItem('currentBatch');
       }
     };
@@ -196,6 +246,11 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
             }
 
             if (data.type === 'QUIZ_STATE_UPDATE' && data.payload) {
+              // Ignore updates for other competitions
+              if (data.payload.competitionId !== competitionId) {
+                return;
+              }
+
               console.log('Quiz state update:', data.payload);
 
               // Update state based on server message
@@ -207,8 +262,9 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
               }
 
               // Refresh questions if needed
-              if (data.payload.state === 'started') {
-                queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+              if (data.payload.state === 'started' && competitionId) {
+                queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/questions')] });
+                queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/paper')] });
               }
             }
           } catch (error) {
@@ -292,26 +348,101 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
         }
       }
     };
-  }, [location, navigate, toast]);
+  }, [location, navigate, toast, competitionId]);
 
   // Fetch quiz settings using regular polling since WebSockets are disabled 
-  const { data: quizSettings, isLoading: loadingSettings, refetch: refetchSettings } = useQuery({
-    queryKey: ['/api/quiz/settings'],
+  const { data: quizSettings, isLoading: loadingSettings, refetch: refetchSettings } = useQuery<QuizSettingsResponse>({
+    queryKey: [competitionUrl(competitionId, '/quiz/settings')],
+    enabled: !!competitionId,
     refetchInterval: 3000, // Higher frequency polling (3 seconds) since WebSockets are disabled
   });
 
+  const timeExtensionSeconds = quizSettings?.timeExtensionSeconds ?? 0;
+  const durationSeconds = (quizSettings?.durationSeconds ?? 3600) + timeExtensionSeconds;
+  const endTime = quizSettings?.endTime
+    ? new Date(quizSettings.endTime).getTime() + timeExtensionSeconds * 1000
+    : null;
+  const scheduledStartTime = quizSettings?.scheduledStartTime ? new Date(quizSettings.scheduledStartTime) : null;
+  const scheduledStart = scheduledStartTime?.getTime() ?? null;
+  const pausedAt = quizSettings?.pausedAt ? new Date(quizSettings.pausedAt).getTime() : null;
+  // Questions stay on screen, behind the paused overlay, while the quiz is paused
+  const quizInProgress = quizState === 'started' || quizState === 'paused';
+
+  // Track how far this device's clock is from the server's
+  useEffect(() => {
+    if (quizSettings?.serverTime) {
+      clockOffsetRef.current = new Date(quizSettings.serverTime).getTime() - Date.now();
+    }
+  }, [quizSettings]);
+
+  // Timer effect for the entire quiz, counting down to the deadline set by the server
+  useEffect(() => {
+    // While paused the clock stands still at the time left when the pause began
+    if (quizState === 'paused' && endTime && pausedAt) {
+      setTimeRemaining(Math.max(0, Math.ceil((endTime - pausedAt) / 1000)));
+      return;
+    }
+
+    if (quizState !== 'started' || !endTime || questions.length === 0) {
+      return;
+    }
+
+    let submitted = false;
+    const tick = () => {
+      const serverNow = Date.now() + clockOffsetRef.current;
+      const remaining = Math.max(0, Math.ceil((endTime - serverNow) / 1000));
+      setTimeRemaining(remaining);
+
+      if (remaining === 0 && !submitted) {
+        submitted = true;
+        clearInterval(timer);
+        submitQuizRef.current();
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [quizState, endTime, pausedAt, questions.length]);
+
+  // Countdown to a scheduled start, on the server clock
+  useEffect(() => {
+    if (quizState !== 'waiting' || !scheduledStart) {
+      setSecondsUntilStart(null);
+      return;
+    }
+
+    const tick = () => {
+      const serverNow = Date.now() + clockOffsetRef.current;
+      const remaining = Math.max(0, Math.ceil((scheduledStart - serverNow) / 1000));
+      setSecondsUntilStart(remaining);
+
+      // The server flips the state at the scheduled time; check for it straight away
+      if (remaining === 0) {
+        queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [quizState, scheduledStart, competitionId]);
+
   // Use an effect to update state when quizSettings changes
   useEffect(() => {
     if (quizSettings && typeof quizSettings === 'object' && 'state' in quizSettings) {
       const state = quizSettings.state as string;
-      if (state === 'waiting' || state === 'started' || state === 'completed') {
+      if (state === 'waiting' || state === 'started' || state === 'paused' || state === 'completed') {
         console.log(`QuizContext: State changed to ${state}`);
-        setQuizState(state as 'waiting' | 'started' | 'completed');
+        setQuizState(state);
 
         // If quiz is started, make sure we redirect to quiz page and fetch questions
         if (state === 'started') {
           // Force invalidate questions cache when quiz starts
-          queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+          queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/questions')] });
+          queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/paper')] });
 
           // Redirect to quiz if user is in waiting room
           if (location === '/waiting-room') {
@@ -322,17 +453,17 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
           // If we're already on quiz page, ensure questions are fetched
           if (location === '/quiz' && questions.length === 0) {
             console.log('QuizContext: On quiz page without questions, fetching questions');
-            queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/questions')] });
           }
         }
       }
     }
-  }, [quizSettings, location, navigate, queryClient, questions.length]);
+  }, [quizSettings, location, navigate, queryClient, questions.length, competitionId]);
 
   // Fetch questions - improved error handling and retry logic
   const { data: questionsData, isLoading: loadingQuestions, error: questionsError } = useQuery({
-    queryKey: ['/api/questions'],
-    enabled: quizState === 'started' && !!user,
+    queryKey: [competitionUrl(competitionId, '/quiz/questions')],
+    enabled: quizInProgress && !!user && !!competitionId,
     retry: 3, // Retry up to 3 times if fetch fails
   });
 
@@ -372,11 +503,11 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
 
   // Add a safety check to force fetch questions if quiz is started but we have no questions
   useEffect(() => {
-    if (quizState === 'started' && questions.length === 0 && !loadingQuestions && !questionsError) {
+    if (quizInProgress && questions.length === 0 && !loadingQuestions && !questionsError) {
       console.log("QuizContext: Quiz started but no questions loaded, forcing refetch");
-      queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/questions')] });
     }
-  }, [quizState, questions.length, loadingQuestions, questionsError, queryClient]);
+  }, [quizInProgress, questions.length, loadingQuestions, questionsError, queryClient, competitionId]);
 
   // Handle question fetch errors
   useEffect(() => {
@@ -391,10 +522,101 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     }
   }, [questionsError, toast]);
 
+  // Fetch how the paper is split into sections and pages
+  const { data: paperData, dataUpdatedAt: paperUpdatedAt, isLoading: loadingPaper } = useQuery<PaperStructure>({
+    queryKey: [competitionUrl(competitionId, '/quiz/paper')],
+    enabled: quizInProgress && !!user && !!competitionId,
+  });
+
+  // Sections and pages of the questions, following the structure the server describes.
+  // Questions the structure does not know about yet are left out until it is refetched.
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const positions = new Map(questions.map((question, index) => [question.id, index]));
+  const sections: QuizSection[] = [];
+  const pages: QuizPage[] = [];
+  (paperData?.sections ?? []).forEach(section => {
+    const sectionPages = section.pages
+      .map(page => page
+        .map(questionId => questionsById.get(questionId))
+        .filter((question): question is Question => question !== undefined))
+      .filter(page => page.length > 0);
+    if (sectionPages.length === 0) return;
+
+    sectionPages.forEach(page => {
+      pages.push({ section: sections.length, start: positions.get(page[0].id)!, questions: page });
+    });
+    sections.push({
+      name: section.name,
+      start: positions.get(sectionPages[0][0].id)!,
+      questions: sectionPages.flat(),
+      timeLimitSeconds: section.timeLimitSeconds,
+    });
+  });
+  const paperDisplay = paperData?.display ?? 'grid';
+
+  // The time the current page was given: the time for its questions, or its section's
+  // time if that is shorter
+  const pageLimits: number[] = [];
+  const openedPage = pages[currentPageIndex];
+  if (openedPage && paperData?.questionTimeLimitSeconds) {
+    pageLimits.push(paperData.questionTimeLimitSeconds * openedPage.questions.length);
+  }
+  if (openedPage && sections[openedPage.section].timeLimitSeconds) {
+    pageLimits.push(sections[openedPage.section].timeLimitSeconds!);
+  }
+  const pageTimeLimit = pageLimits.length > 0 ? Math.min(...pageLimits) : null;
+
+  // On a forward-only paper the student carries on from the page the server has them on
+  useEffect(() => {
+    if (paperData && navigationPolicy.mode === 'forward') {
+      setCurrentPageIndex(paperData.currentPage);
+    }
+  }, [paperData, navigationPolicy.mode]);
+
+  // Countdown for a page with a time limit, from the time left when the server described
+  // the page. The server closes the page when it runs out and moves the student on.
+  useEffect(() => {
+    const secondsLeft = paperData?.secondsLeftOnPage ?? null;
+    if (secondsLeft === null || completed) {
+      setPageTimeRemaining(null);
+      return;
+    }
+
+    const closesAt = paperUpdatedAt + secondsLeft * 1000;
+
+    // While paused the clock stands still at the time left when the pause began
+    if (quizState === 'paused' && pausedAt) {
+      const pausedLocally = Math.max(paperUpdatedAt, pausedAt - clockOffsetRef.current);
+      setPageTimeRemaining(Math.max(0, Math.ceil((closesAt - pausedLocally) / 1000)));
+      return;
+    }
+
+    if (quizState !== 'started') {
+      return;
+    }
+
+    let expired = false;
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((closesAt - Date.now()) / 1000));
+      setPageTimeRemaining(remaining);
+
+      if (remaining === 0 && !expired) {
+        expired = true;
+        clearInterval(timer);
+        pageTimeUpRef.current();
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [paperData, paperUpdatedAt, quizState, pausedAt, completed]);
+
   // Fetch user quiz answers (for resuming a quiz)
   const { data: userAnswersData, isLoading: loadingAnswers } = useQuery({
-    queryKey: ['/api/quiz/answers'],
-    enabled: quizState === 'started' && !!user,
+    queryKey: [competitionUrl(competitionId, '/quiz/answers')],
+    enabled: quizInProgress && !!user && !!competitionId,
   });
 
   // Process user answers when data changes
@@ -408,17 +630,22 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
       });
       setUserAnswers(answersMap);
 
-      // Set current question index based on answered questions
-      if (userAnswersData.length > 0 && userAnswersData.length < questions.length) {
-        setCurrentQuestionIndex(userAnswersData.length);
+      // With free navigation, resume on the first page with a question still to answer. This
+      // happens once, when the paper loads; later refetches leave the student where they are.
+      if (navigationPolicy.mode === 'free' && pages.length > 0 && resumedCompetitionRef.current !== competitionId) {
+        resumedCompetitionRef.current = competitionId;
+        const resumePage = pages.findIndex(page => page.questions.some(question => !answersMap.has(question.id)));
+        if (resumePage !== -1) {
+          setCurrentPageIndex(resumePage);
+        }
       }
     }
-  }, [userAnswersData, questions.length]);
+  }, [userAnswersData, pages.length, navigationPolicy.mode, competitionId]);
 
   // Fetch user results
   const { data: resultData, isLoading: loadingResult } = useQuery({
-    queryKey: ['/api/results/me'],
-    enabled: !!user,
+    queryKey: [competitionUrl(competitionId, '/results/me')],
+    enabled: !!user && !!competitionId,
   });
 
   // Process result data when it changes
@@ -430,14 +657,16 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
         const typedResult = resultData as Result;
         setQuizResult(typedResult);
         setScore(typedResult.score);
+        // A result means the quiz was submitted and the answers are locked
+        setCompleted(true);
       }
     }
   }, [resultData]);
 
   // Start quiz mutation (admin only)
   const startQuizMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/quiz/start', {});
+    mutationFn: async (durationSeconds?: number) => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/start'), { durationSeconds });
       return res.json();
     },
     onSuccess: () => {
@@ -445,7 +674,7 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
         title: "Quiz started",
         description: "The quiz has been started for all students.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/quiz/settings'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
     },
     onError: (error: any) => {
       toast({
@@ -456,19 +685,116 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     }
   });
 
+  // Pause and resume quiz mutations (admin only)
+  const pauseQuizMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/pause'), {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Quiz paused",
+        description: "The timer is stopped and answers are blocked until the quiz resumes.",
+      });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to pause quiz",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const resumeQuizMutation = useMutation({
+    mutationFn: async (extraMinutes: number) => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/resume'), { extraMinutes });
+      return res.json();
+    },
+    onSuccess: (_data, extraMinutes) => {
+      toast({
+        title: "Quiz resumed",
+        description: extraMinutes > 0
+          ? `Students were given ${extraMinutes} extra minute${extraMinutes === 1 ? '' : 's'}.`
+          : "The timer is running again.",
+      });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resume quiz",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Schedule quiz mutation (admin only)
+  const scheduleQuizMutation = useMutation({
+    mutationFn: async (startTime: Date | null) => {
+      const res = startTime
+        ? await apiRequest('POST', competitionUrl(competitionId, '/quiz/schedule'), { scheduledStartTime: startTime.toISOString() })
+        : await apiRequest('DELETE', competitionUrl(competitionId, '/quiz/schedule'));
+      return res.json();
+    },
+    onSuccess: (_data, startTime) => {
+      toast({
+        title: startTime ? "Quiz scheduled" : "Scheduled start cancelled",
+        description: startTime
+          ? `The quiz will start automatically at ${startTime.toLocaleString()}.`
+          : "The quiz will wait for an admin to start it.",
+      });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update the scheduled start",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // End quiz mutation (admin only)
+  const endQuizMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/end'), {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Quiz ended",
+        description: "The quiz has been completed and results have been finalized.",
+      });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/leaderboard/schools')] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to end quiz",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Reset quiz mutation (superadmin only)
   const resetQuizMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/quiz/reset', {});
+    mutationFn: async (archiveName?: string) => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/reset'), { archiveName });
       return res.json();
     },
     onSuccess: () => {
       toast({
         title: "Quiz reset",
-        description: "The quiz and leaderboard have been reset.",
+        description: "The quiz and leaderboard have been reset. The finished round was archived.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/quiz/settings'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/archives'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/leaderboard/schools')] });
     },
     onError: (error: any) => {
       toast({
@@ -484,16 +810,15 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     mutationFn: async ({ questionId, answer }: { questionId: number, answer: string | null }) => {
       if (!user) throw new Error("User not authenticated");
 
-      const res = await apiRequest('POST', '/api/quiz/answers', {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/answers'), {
         userId: user.id,
         questionId,
         userAnswer: answer,
-        responseTimeSeconds: 3600 - timeRemaining
       });
       return res.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/quiz/answers'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/answers')] });
     },
     onError: (error: any) => {
       toast({
@@ -504,22 +829,31 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     }
   });
 
-  // Submit quiz results mutation
-  const submitResultsMutation = useMutation({
-    mutationFn: async (resultData: {
-      score: number;
-      correctAnswers: number;
-      incorrectAnswers: number;
-      skippedAnswers: number;
-      averageResponseTime: number;
-      completionTime: number;
-    }) => {
+  // Open a page of the paper, starting its clock; the server answers with the page it has
+  // recorded, which on a forward-only paper is never an earlier one
+  const openPageMutation = useMutation({
+    mutationFn: async (page: number) => {
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/paper/page'), { page });
+      return res.json();
+    },
+    onSuccess: (data: PaperStructure) => {
+      queryClient.setQueryData([competitionUrl(competitionId, '/quiz/paper')], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to move to the next page",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Submit quiz mutation; the server scores the saved answers and locks them
+  const submitQuizMutation = useMutation({
+    mutationFn: async () => {
       if (!user) throw new Error("User not authenticated");
 
-      const res = await apiRequest('POST', '/api/results', {
-        userId: user.id,
-        ...resultData
-      });
+      const res = await apiRequest('POST', competitionUrl(competitionId, '/quiz/submit'));
       return res.json();
     },
     onSuccess: (data) => {
@@ -527,10 +861,24 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
       setQuizResult(typedData);
       setScore(typedData.score);
       navigate('/studentleaderboard'); // Updated redirection
-      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
       setCompleted(true);
+      if (flagsKey) {
+        localStorage.removeItem(flagsKey);
+      }
     },
     onError: (error: any) => {
+      // Submitted already, e.g. from another tab
+      if (error.message?.startsWith('409')) {
+        setCompleted(true);
+        navigate('/studentleaderboard');
+        return;
+      }
+      toast({
+        title: "Failed to submit quiz",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
     }
   });
 
@@ -569,13 +917,14 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  // Next question function
-  const nextQuestion = () => {
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(prev => Math.min(prev + 1, questions.length - 1));
-      // Only reset timer when moving to a new batch of questions
-      if ((currentQuestionIndex + 1) % 4 === 0) {
-        setTimeRemaining(3600);
+  // Move on to the next page, or submit the quiz from the last one. On a forward-only
+  // paper the server closes the pages left behind.
+  const nextPage = () => {
+    if (currentPageIndex < pages.length - 1) {
+      const page = currentPageIndex + 1;
+      setCurrentPageIndex(page);
+      if (navigationPolicy.mode === 'forward') {
+        openPageMutation.mutate(page);
       }
     } else {
       // End of quiz
@@ -583,20 +932,107 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // With free navigation the student moves between pages freely, and the server is told
+  // which one is open so the time spent on each question can be recorded
+  const paperLoaded = !!paperData;
+  useEffect(() => {
+    if (paperLoaded && user?.role === 'student' && quizState === 'started' && navigationPolicy.mode === 'free') {
+      openPageMutation.mutate(currentPageIndex);
+    }
+  }, [paperLoaded, currentPageIndex, quizState, navigationPolicy.mode, user?.role]);
+
+  // When a page's time runs out, the server has moved the student on; the last page
+  // submits the quiz
+  const pageTimeUp = () => {
+    if (completed) return;
+    if (currentPageIndex >= pages.length - 1) {
+      toast({
+        title: "Time is up",
+        description: "Your answers are being submitted.",
+      });
+      submitQuiz();
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/paper')] });
+  };
+
+  const goToPage = (pageIndex: number) => {
+    if (navigationPolicy.mode !== 'free') return;
+    setCurrentPageIndex(Math.max(0, Math.min(pageIndex, pages.length - 1)));
+  };
+
+  const toggleFlag = (questionId: number) => {
+    const flags = new Set(flaggedQuestions);
+    if (flags.has(questionId)) {
+      flags.delete(questionId);
+    } else {
+      flags.add(questionId);
+    }
+    setFlaggedQuestions(flags);
+    if (flagsKey) {
+      localStorage.setItem(flagsKey, JSON.stringify(Array.from(flags)));
+    }
+  };
+
   // Start quiz function (admin only)
-  const startQuiz = async () => {
+  const startQuiz = async (durationSeconds?: number) => {
     try {
-      await startQuizMutation.mutateAsync();
+      await startQuizMutation.mutateAsync(durationSeconds);
       // Return void to match the interface
     } catch (error) {
       console.error('Failed to start quiz:', error);
     }
   };
 
+  // Pause and resume quiz functions (admin only)
+  const pauseQuiz = async () => {
+    try {
+      await pauseQuizMutation.mutateAsync();
+    } catch (error) {
+      console.error('Failed to pause quiz:', error);
+    }
+  };
+
+  const resumeQuiz = async (extraMinutes: number = 0) => {
+    try {
+      await resumeQuizMutation.mutateAsync(extraMinutes);
+    } catch (error) {
+      console.error('Failed to resume quiz:', error);
+    }
+  };
+
+  // Schedule quiz functions (admin only)
+  const scheduleQuiz = async (startTime: Date) => {
+    try {
+      await scheduleQuizMutation.mutateAsync(startTime);
+    } catch (error) {
+      console.error('Failed to schedule quiz:', error);
+    }
+  };
+
+  const cancelScheduledStart = async () => {
+    try {
+      await scheduleQuizMutation.mutateAsync(null);
+    } catch (error) {
+      console.error('Failed to cancel scheduled start:', error);
+    }
+  };
+
+  // End quiz function (admin only)
+  const endQuiz = async () => {
+    try {
+      await endQuizMutation.mutateAsync();
+      // Return void to match the interface
+    } catch (error) {
+      console.error('Failed to end quiz:', error);
+    }
+  };
+
   // Reset quiz function (superadmin only)
-  const resetQuiz = async () => {
+  const resetQuiz = async (archiveName?: string) => {
     try {
-      await resetQuizMutation.mutateAsync();
+      await resetQuizMutation.mutateAsync(archiveName);
       // Return void to match the interface
     } catch (error) {
       console.error('Failed to reset quiz:', error);
@@ -615,64 +1051,64 @@ export function QuizProvider({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // Count the number of skipped questions
-    let skippedCount = 0;
-    let totalResponseTime = 0; 
-
-    // Prepare an array of all answered questions
-    const answeredQuestions = Array.from(userAnswers.entries()).map(([questionId, answer]) => {
-      return { questionId, answer };
-    });
-
-    // Calculate skipped count
-    skippedCount = questions.length - answeredQuestions.length;
-
-    // Calculate total batches and remaining questions
-    const fullBatches = Math.floor((currentQuestionIndex) / 4);
-    const remainingQuestions = currentQuestionIndex % 4;
-
-    // Calculate completion time as time spent (initial time - remaining time)
-    const completionTime = 3600 - timeRemaining;
-
-
-    // Calculate average response time for answered questions
-    const averageTime = answeredQuestions.length > 0 
-      ? Math.round(completionTime / answeredQuestions.length)
-      : 0;
-
-    // Let the server determine correct/incorrect counts and score
-    await submitResultsMutation.mutateAsync({
-      score: 0, // Server will recalculate this
-      correctAnswers: 0, // Server will recalculate this
-      incorrectAnswers: 0, // Server will recalculate this
-      skippedAnswers: skippedCount,
-      averageResponseTime: averageTime,
-      completionTime: completionTime
-    });
+    // The server determines the score, answer counts and timings from the saved answers
+    await submitQuizMutation.mutateAsync();
   };
 
+  // The countdowns always call the latest submitQuiz and pageTimeUp
+  submitQuizRef.current = submitQuiz;
+  pageTimeUpRef.current = pageTimeUp;
+
     // Provide quiz context
   const value = {
+    competitionId,
+    competition,
+    competitions,
+    selectCompetition,
     quizState,
     questions,
-    currentQuestionIndex,
+    paperDisplay,
+    sections,
+    pages,
+    currentPageIndex,
+    navigationPolicy,
+    pageTimeRemaining,
+    pageTimeLimit,
+    flaggedQuestions,
     userAnswers,
     timeRemaining,
+    durationSeconds,
+    scheduledStartTime,
+    secondsUntilStart,
     startQuiz,
+    pauseQuiz,
+    resumeQuiz,
+    scheduleQuiz,
+    cancelScheduledStart,
+    endQuiz,
     resetQuiz,
     submitAnswer,
-    nextQuestion,
+    nextPage,
+    goToPage,
+    toggleFlag,
     submitQuiz,
-    loading: loadingSettings || loadingQuestions || loadingAnswers || loadingResult || 
-             startQuizMutation.isPending || resetQuizMutation.isPending || 
-             submitAnswerMutation.isPending || submitResultsMutation.isPending,
+    loading: loadingCompetition || loadingSettings || loadingQuestions || loadingPaper || loadingAnswers || loadingResult || 
+             startQuizMutation.isPending || pauseQuizMutation.isPending || resumeQuizMutation.isPending || scheduleQuizMutation.isPending || endQuizMutation.isPending || resetQuizMutation.isPending || 
+             submitAnswerMutation.isPending || submitQuizMutation.isPending,
     error,
     score,
     quizResult,
     completed
   };
 
-  return <QuizContext.Provider value={value}>{children}</QuizContext.Provider>;
+  return (
+    <QuizContext.Provider value={value}>
+      {children}
+      {quizState === 'paused' && user?.role === 'student' && (
+        <PausedOverlay timeRemaining={timeRemaining} />
+      )}
+    </QuizContext.Provider>
+  );
 }
 
 // Hook for using quiz context
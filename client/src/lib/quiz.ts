@@ -1,12 +1,39 @@
 import { apiRequest } from "./queryClient";
-import { Question, QuizSetting, QuizAnswer, Result } from "@shared/schema";
+import { Competition, Question, QuizSetting, StudentAnswer, Result, TimeExtension } from "@shared/schema";
 
 /**
- * Fetch the current quiz settings
+ * Build the URL of a competition-scoped API route
+ * @param competitionId Competition ID, or null for the caller's current competition
+ * @param path Route path below the competition, e.g. "/quiz/settings"
+ * @returns API URL
+ */
+export function competitionUrl(competitionId: number | null, path: string): string {
+  return competitionId ? `/api/competitions/${competitionId}${path}` : `/api${path}`;
+}
+
+/**
+ * Fetch the competition the current user should see
+ * @returns Competition object
+ */
+export async function fetchCurrentCompetition(): Promise<Competition> {
+  const response = await fetch('/api/competitions/current', {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch competition: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Fetch the quiz settings of a competition
+ * @param competitionId Competition ID
  * @returns Quiz settings object
  */
-export async function fetchQuizSettings(): Promise<QuizSetting> {
-  const response = await fetch('/api/quiz/settings', {
+export async function fetchQuizSettings(competitionId: number): Promise<QuizSetting> {
+  const response = await fetch(competitionUrl(competitionId, '/quiz/settings'), {
     credentials: 'include',
   });
   
@@ -17,30 +44,126 @@ export async function fetchQuizSettings(): Promise<QuizSetting> {
   return await response.json();
 }
 
+/**
+ * Update the quiz duration (admin only, not while the quiz is running)
+ * @param competitionId Competition ID
+ * @param durationSeconds Quiz length in seconds
+ * @returns Updated quiz settings
+ */
+export async function updateQuizDuration(competitionId: number, durationSeconds: number): Promise<QuizSetting> {
+  const response = await apiRequest('PUT', competitionUrl(competitionId, '/quiz/settings'), { durationSeconds });
+  return await response.json();
+}
+
 /**
  * Start the quiz (admin only)
+ * @param competitionId Competition ID
+ * @param durationSeconds Optional quiz length, otherwise the configured duration is used
+ * @returns Updated quiz settings including the deadline
+ */
+export async function startQuiz(competitionId: number, durationSeconds?: number): Promise<QuizSetting> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/start'), { durationSeconds });
+  return await response.json();
+}
+
+/**
+ * Schedule the quiz to start automatically, replacing any earlier schedule (admin only)
+ * @param competitionId Competition ID
+ * @param startTime Time at which the server starts the quiz
  * @returns Updated quiz settings
  */
-export async function startQuiz(): Promise<QuizSetting> {
-  const response = await apiRequest('POST', '/api/quiz/start', {});
+export async function scheduleQuiz(competitionId: number, startTime: Date): Promise<QuizSetting> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/schedule'), {
+    scheduledStartTime: startTime.toISOString(),
+  });
   return await response.json();
 }
 
 /**
- * Reset the quiz and leaderboard (super admin only)
+ * Cancel a scheduled quiz start (admin only)
+ * @param competitionId Competition ID
  * @returns Updated quiz settings
  */
-export async function resetQuiz(): Promise<QuizSetting> {
-  const response = await apiRequest('POST', '/api/quiz/reset', {});
+export async function cancelScheduledStart(competitionId: number): Promise<QuizSetting> {
+  const response = await apiRequest('DELETE', competitionUrl(competitionId, '/quiz/schedule'));
   return await response.json();
 }
 
 /**
- * Fetch all quiz questions
+ * End the quiz early and finalize all results (admin only)
+ * @param competitionId Competition ID
+ * @returns Updated quiz settings
+ */
+export async function endQuiz(competitionId: number): Promise<QuizSetting> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/end'), {});
+  return await response.json();
+}
+
+/**
+ * Reset the quiz and leaderboard, archiving the finished round (super admin only)
+ * @param competitionId Competition ID
+ * @param archiveName Name for the archived round; defaults to the competition and date
+ * @returns Updated quiz settings
+ */
+export async function resetQuiz(competitionId: number, archiveName?: string): Promise<QuizSetting> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/reset'), { archiveName });
+  return await response.json();
+}
+
+/**
+ * Fetch the time extensions granted in a competition (admin only)
+ * @param competitionId Competition ID
+ * @returns Array of time extensions
+ */
+export async function fetchTimeExtensions(competitionId: number): Promise<TimeExtension[]> {
+  const response = await fetch(competitionUrl(competitionId, '/quiz/extensions'), {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch time extensions: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Grant a student extra time, replacing any earlier extension (admin only)
+ * @param competitionId Competition ID
+ * @param userId Student's user ID
+ * @param extraSeconds Extra time in seconds
+ * @param reason Optional reason for the extension
+ * @returns Saved time extension
+ */
+export async function grantTimeExtension(
+  competitionId: number,
+  userId: number,
+  extraSeconds: number,
+  reason?: string
+): Promise<TimeExtension> {
+  const response = await apiRequest('PUT', competitionUrl(competitionId, `/quiz/extensions/${userId}`), {
+    extraSeconds,
+    reason,
+  });
+  return await response.json();
+}
+
+/**
+ * Remove a student's time extension (admin only)
+ * @param competitionId Competition ID
+ * @param userId Student's user ID
+ */
+export async function removeTimeExtension(competitionId: number, userId: number): Promise<void> {
+  await apiRequest('DELETE', competitionUrl(competitionId, `/quiz/extensions/${userId}`));
+}
+
+/**
+ * Fetch the questions of a competition
+ * @param competitionId Competition ID
  * @returns Array of questions
  */
-export async function fetchQuestions(): Promise<Question[]> {
-  const response = await fetch('/api/questions', {
+export async function fetchQuestions(competitionId: number): Promise<Question[]> {
+  const response = await fetch(competitionUrl(competitionId, '/quiz/questions'), {
     credentials: 'include',
   });
   
@@ -53,23 +176,22 @@ export async function fetchQuestions(): Promise<Question[]> {
 
 /**
  * Submit an answer for a question
+ * @param competitionId Competition ID
  * @param userId User ID
  * @param questionId Question ID
  * @param answer Selected answer (A, B, C, D, or null if skipped)
- * @param responseTimeSeconds Time taken to answer the question in seconds
- * @returns Saved answer object
+ * @returns Saved answer object, with the response time measured by the server
  */
 export async function submitAnswer(
+  competitionId: number,
   userId: number,
   questionId: number,
-  answer: string | null,
-  responseTimeSeconds: number
-): Promise<QuizAnswer> {
-  const response = await apiRequest('POST', '/api/quiz/answers', {
+  answer: string | null
+): Promise<StudentAnswer> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/answers'), {
     userId,
     questionId,
     userAnswer: answer,
-    responseTimeSeconds,
   });
   
   return await response.json();
@@ -77,10 +199,11 @@ export async function submitAnswer(
 
 /**
  * Fetch all answers for the current user
+ * @param competitionId Competition ID
  * @returns Array of user's answers
  */
-export async function fetchUserAnswers(): Promise<QuizAnswer[]> {
-  const response = await fetch('/api/quiz/answers', {
+export async function fetchUserAnswers(competitionId: number): Promise<StudentAnswer[]> {
+  const response = await fetch(competitionUrl(competitionId, '/quiz/answers'), {
     credentials: 'include',
   });
   
@@ -92,29 +215,22 @@ export async function fetchUserAnswers(): Promise<QuizAnswer[]> {
 }
 
 /**
- * Submit final quiz results
- * @param result Result data
- * @returns Saved result object with ranking
+ * Submit the quiz, locking the current user's answers
+ * @param competitionId Competition ID
+ * @returns Result scored by the server, with ranking
  */
-export async function submitResults(result: {
-  userId: number;
-  score: number;
-  correctAnswers: number;
-  incorrectAnswers: number;
-  skippedAnswers: number;
-  averageResponseTime: number;
-  completionTime: number;
-}): Promise<Result> {
-  const response = await apiRequest('POST', '/api/results', result);
+export async function submitQuiz(competitionId: number): Promise<Result> {
+  const response = await apiRequest('POST', competitionUrl(competitionId, '/quiz/submit'));
   return await response.json();
 }
 
 /**
  * Fetch leaderboard data
+ * @param competitionId Competition ID
  * @returns Array of results for the leaderboard
  */
-export async function fetchLeaderboard(): Promise<Result[]> {
-  const response = await fetch('/api/results', {
+export async function fetchLeaderboard(competitionId: number): Promise<Result[]> {
+  const response = await fetch(competitionUrl(competitionId, '/results'), {
     credentials: 'include',
   });
   
@@ -127,11 +243,12 @@ export async function fetchLeaderboard(): Promise<Result[]> {
 
 /**
  * Fetch current user's result
+ * @param competitionId Competition ID
  * @returns User's result or null if not available
  */
-export async function fetchUserResult(): Promise<Result | null> {
+export async function fetchUserResult(competitionId: number): Promise<Result | null> {
   try {
-    const response = await fetch('/api/results/me', {
+    const response = await fetch(competitionUrl(competitionId, '/results/me'), {
       credentials: 'include',
     });
     
@@ -30,6 +30,7 @@ const formSchema = z.object({
     required_error: "Please select the correct answer",
   }),
   difficulty: z.enum(["easy", "medium", "hard"]).default("medium"),
+  topic: z.string().default(""),
 });
 
 export default function AddQuestion() {
@@ -55,7 +56,8 @@ export default function AddQuestion() {
       optionC: editQuestion.optionC,
       optionD: editQuestion.optionD,
       correctAnswer: editQuestion.correctAnswer,
-      difficulty: editQuestion.difficulty || "medium"
+      difficulty: editQuestion.difficulty || "medium",
+      topic: editQuestion.topic || ""
     } : {
       questionImage: null,
       optionA: "A",
@@ -63,7 +65,8 @@ export default function AddQuestion() {
       optionC: "C",
       optionD: "D",
       correctAnswer: undefined,
-      difficulty: "medium"
+      difficulty: "medium",
+      topic: ""
     },
   });
 
@@ -102,6 +105,7 @@ export default function AddQuestion() {
     formData.append("optionD", data.optionD);
     formData.append("correctAnswer", data.correctAnswer);
     formData.append("difficulty", data.difficulty);
+    formData.append("topic", data.topic);
 
     addQuestionMutation.mutate(formData);
   };
@@ -278,6 +282,20 @@ export default function AddQuestion() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="topic"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Topic</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g. Algebra" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-end">
                   <Button 
                     type="submit"
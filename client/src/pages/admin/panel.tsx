@@ -1,18 +1,24 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/context/AuthContext";
 import { useQuiz } from "@/context/QuizContext";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Users, Database, Play } from "lucide-react";
+import { ArrowLeft, Users, Database, Play, Square } from "lucide-react";
 import { motion } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
+import CompetitionSwitcher from "@/components/admin/competition-switcher";
+import QuizScheduleControl from "@/components/admin/quiz-schedule-control";
+import QuizPauseControl from "@/components/admin/quiz-pause-control";
 
 export default function AdminPanel() {
   const { user, logout } = useAuth();
-  const { quizState, startQuiz, loading } = useQuiz();
+  const { quizState, startQuiz, endQuiz, durationSeconds, loading } = useQuiz();
   const [location, navigate] = useLocation();
+  const [durationMinutes, setDurationMinutes] = useState("");
 
   // Redirect to login if not authenticated or not an admin
   useEffect(() => {
@@ -40,7 +46,12 @@ export default function AdminPanel() {
   };
 
   const handleStartQuiz = async () => {
-    await startQuiz();
+    const minutes = parseInt(durationMinutes, 10);
+    await startQuiz(minutes > 0 ? minutes * 60 : undefined);
+  };
+
+  const handleEndQuiz = async () => {
+    await endQuiz();
   };
 
   const handleAddQuestion = () => {
@@ -91,18 +102,37 @@ export default function AdminPanel() {
       </div> */}
       
       <div className="max-w-6xl mx-auto w-full">
-        <h1 className="text-2xl font-bold text-green-600 mb-6 text-center">Admin Panel</h1><br/>
+        <h1 className="text-2xl font-bold text-green-600 mb-6 text-center">Admin Panel</h1>
+        <div className="flex justify-center mb-6">
+          <CompetitionSwitcher />
+        </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <Card>
           <CardContent className="p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-gray-800">Quiz Status</h2>
-            <Badge variant={quizState === 'waiting' ? 'outline' : 'default'}>
-            {quizState === 'waiting' ? 'Not Started' : 'In Progress'}
+            <Badge variant={quizState === 'waiting' ? 'outline' : quizState === 'completed' || quizState === 'paused' ? 'secondary' : 'default'}>
+            {quizState === 'waiting' ? 'Not Started' : quizState === 'completed' ? 'Completed' : quizState === 'paused' ? 'Paused' : 'In Progress'}
             </Badge>
           </div>
           <p className="text-gray-600 mb-4">Students in waiting room: <span className="font-semibold">{studentCount}</span></p>
+          <div className="mb-4">
+            <Label htmlFor="quiz-duration">Duration (minutes)</Label>
+            <Input
+            id="quiz-duration"
+            type="number"
+            min={1}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            placeholder={Math.round(durationSeconds / 60).toString()}
+            disabled={quizState !== 'waiting'}
+            className="mt-1"
+            />
+          </div>
+          <div className="mb-4">
+            <QuizScheduleControl />
+          </div>
           <Button 
             className="w-full"
             onClick={handleStartQuiz}
@@ -111,6 +141,20 @@ export default function AdminPanel() {
             <Play className="h-4 w-4 mr-2" />
             Start Quiz
           </Button>
+          <div className="mt-3">
+            <QuizPauseControl />
+          </div>
+          {(quizState === 'started' || quizState === 'paused') && (
+            <Button 
+            variant="outline"
+            className="w-full mt-3 border-red-500 text-red-500 hover:bg-red-50"
+            onClick={handleEndQuiz}
+            disabled={loading}
+            >
+            <Square className="h-4 w-4 mr-2" />
+            End Quiz
+            </Button>
+          )}
           </CardContent>
         </Card>
         
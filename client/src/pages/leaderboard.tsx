@@ -2,6 +2,8 @@ import { useEffect } from "react";
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import SchoolLeaderboard from '@/components/leaderboard/school-leaderboard';
 import { useAuth } from '@/context/AuthContext';
 import { useQuiz } from '@/context/QuizContext';
 import { useQuery } from '@tanstack/react-query';
@@ -10,10 +12,11 @@ import { motion } from "framer-motion";
 import { ArrowLeft, FileDown, Share2, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
 
 export default function Leaderboard() {
   const { user } = useAuth();
-  const { quizResult, questions } = useQuiz();
+  const { competitionId, quizResult, questions } = useQuiz();
   const { toast } = useToast();
   const [location, navigate] = useLocation();
 
@@ -28,9 +31,9 @@ export default function Leaderboard() {
   useEffect(() => {
     if (quizResult && location === '/leaderboard') {
       console.log('Invalidating results query due to new quizResult');
-      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
     }
-  }, [quizResult, location]);
+  }, [quizResult, location, competitionId]);
 
   // Handle back button
   useEffect(() => {
@@ -44,8 +47,8 @@ export default function Leaderboard() {
 
   // Fetch leaderboard data
   const { data: leaderboardData, isLoading } = useQuery<Result[]>({
-    queryKey: ['/api/results'],
-    enabled: !!user,
+    queryKey: [competitionUrl(competitionId, '/results')],
+    enabled: !!user && !!competitionId,
   });
 
   // Fetch user data (for all users now, not just admins)
@@ -84,7 +87,8 @@ export default function Leaderboard() {
         </div>
         <Button
           onClick={() => {
-            queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/leaderboard/schools')] });
             queryClient.invalidateQueries({ queryKey: ['/api/users'] });
             toast({ title: "Refreshing leaderboard", description: "Attempting to reload data..." });
           }}
@@ -105,7 +109,8 @@ export default function Leaderboard() {
         <div className="text-gray-600 max-w-md text-center mb-4">We're gathering the results for the leaderboard.</div>
         <Button
           onClick={() => {
-            queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/leaderboard/schools')] });
             queryClient.invalidateQueries({ queryKey: ['/api/users'] });
             toast({ title: "Refreshing leaderboard", description: "Getting latest results..." });
           }}
@@ -121,36 +126,15 @@ export default function Leaderboard() {
 
   const userResult = quizResult || leaderboardData.find((r: Result) => r.userId === user.id);
 
-  const sortedResults = leaderboardData
-    .reduce((acc: Result[], current: Result) => {
-      const existingIndex = acc.findIndex(item => item.userId === current.userId);
-      if (existingIndex === -1) {
-        acc.push(current);
-      } else if (current.score > acc[existingIndex].score) {
-        console.log(`Replacing score for user ${current.userId}: ${acc[existingIndex].score} -> ${current.score}`);
-        acc[existingIndex] = current;
-      }
-      return acc;
-    }, [])
-    .sort((a: Result, b: Result) => b.score - a.score);
-
-  const calculateRank = (results: Result[], userId: number): number => {
-    const userIndex = results.findIndex(r => r.userId === userId);
-    if (userIndex === -1) return 0;
-    let rank = 1;
-    const userScore = results[userIndex].score;
-    const higherScores = new Set<number>();
-    for (let i = 0; i < results.length; i++) {
-      if (results[i].score > userScore) higherScores.add(results[i].score);
-    }
-    return rank + higherScores.size;
-  };
+  // Ranks come from the server, which applies the competition's tie-breakers
+  const sortedResults = [...leaderboardData]
+    .sort((a: Result, b: Result) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
 
-  const userRank = userResult?.rank || calculateRank(sortedResults, user.id);
+  const userRank = userResult?.rank ?? 0;
 
   console.log('Leaderboard Data:', leaderboardData);
   console.log('User Result:', userResult);
-  console.log('Calculated Rank:', userRank);
+  console.log('Rank:', userRank);
 
   const getUsernameById = (userId: number) => {
     if (!usersData || !Array.isArray(usersData)) return "Student";
@@ -332,6 +316,12 @@ export default function Leaderboard() {
         <Card className="overflow-hidden">
         <CardContent className="p-6">
           <h2 className="text-xl font-bold text-gray-800 mb-6 text-center">Leaderboard</h2>
+          <Tabs defaultValue="students">
+          <TabsList className="mb-4">
+            <TabsTrigger value="students">Students</TabsTrigger>
+            <TabsTrigger value="schools">Schools</TabsTrigger>
+          </TabsList>
+          <TabsContent value="students">
           <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
@@ -348,12 +338,7 @@ export default function Leaderboard() {
             {sortedResults.slice(0, 100).map((result: Result, index: number) => {
               let rowClass = index === 0 ? "bg-yellow-50" : index === 1 ? "bg-gray-50" : index === 2 ? "bg-primary-50" : "";
               if (result.userId === user.id) rowClass = "bg-primary-50";
-              let actualRank = 1; // Start from rank 1
-              for (let i = 1; i <= index; i++) {
-                  if (sortedResults[i].score !== sortedResults[i - 1].score) {
-                      actualRank++;
-                  }
-              }
+              const actualRank = result.rank ?? index + 1;
 
               return (
               <tr key={result.id} className={rowClass}>
@@ -387,6 +372,11 @@ export default function Leaderboard() {
             </tbody>
           </table>
           </div>
+          </TabsContent>
+          <TabsContent value="schools">
+            <SchoolLeaderboard />
+          </TabsContent>
+          </Tabs>
         </CardContent>
         </Card>
       </div>
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,28 +7,44 @@ import { useQuiz } from "@/context/QuizContext";
 import { motion } from "framer-motion";
 import { Progress } from "@/components/ui/progress";
 import { queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
 import { useToast } from "@/hooks/use-toast";
 import QuestionDisplay from "@/components/quiz/question-display";
+import ReviewScreen from "@/components/quiz/review-screen";
+import QuizTimer from "@/components/QuizTimer";
 
 export default function Quiz() {
   const { user } = useAuth();
   const {
+    competitionId,
     quizState,
     questions,
-    currentQuestionIndex,
+    paperDisplay,
+    sections,
+    pages,
+    currentPageIndex,
+    navigationPolicy,
+    pageTimeRemaining,
+    pageTimeLimit,
+    flaggedQuestions,
     userAnswers,
     timeRemaining,
+    durationSeconds,
     submitAnswer,
-    nextQuestion,
+    nextPage,
+    goToPage,
+    toggleFlag,
+    submitQuiz,
     loading,
     completed,
   } = useQuiz();
   const [location, navigate] = useLocation();
   const { toast } = useToast();
 
-  // Calculate current batch of questions
-  const currentBatchStart = Math.floor(currentQuestionIndex / 4) * 4;
-  const currentBatchQuestions = questions.slice(currentBatchStart, currentBatchStart + 4);
+  const [reviewing, setReviewing] = useState(false);
+
+  const currentPage = pages[currentPageIndex];
+  const freeNavigation = navigationPolicy.mode === 'free';
 
   useEffect(() => {
     if (loading) {return;}
@@ -50,7 +66,7 @@ export default function Quiz() {
     );
   }
 
-  if (questions.length === 0) {
+  if (questions.length === 0 || !currentPage) {
     return (
       <div className="min-h-screen flex items-center justify-center p-6 flex-col">
         <div className="text-primary-600 font-semibold text-xl mb-4">
@@ -58,8 +74,9 @@ export default function Quiz() {
         </div>
         <Button 
           onClick={() => {
-            queryClient.invalidateQueries({ queryKey: ['/api/quiz/settings'] });
-            queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/questions')] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/paper')] });
             toast({
               title: "Refreshing data",
               description: "Attempting to reload quiz data...",
@@ -74,8 +91,19 @@ export default function Quiz() {
     );
   }
 
-  const timerPercentage = (timeRemaining / 3600) * 100;
-  const isLastBatch = currentBatchStart + 4 >= questions.length;
+  const timerPercentage = (timeRemaining / durationSeconds) * 100;
+  const isLastPage = currentPageIndex === pages.length - 1;
+  const startsNewSection = !isLastPage && pages[currentPageIndex + 1].section !== currentPage.section;
+  const currentSection = sections[currentPage.section];
+  const pageEnd = currentPage.start + currentPage.questions.length;
+
+  const pageOfQuestion = new Map<number, number>();
+  pages.forEach((page, pageIndex) => page.questions.forEach(question => pageOfQuestion.set(question.id, pageIndex)));
+
+  const showPage = (pageIndex: number) => {
+    setReviewing(false);
+    goToPage(pageIndex);
+  };
 
   return (
     <div className="relative min-h-screen flex items-center justify-center px-4 py-12 overflow-hidden">
@@ -103,9 +131,14 @@ export default function Quiz() {
                 {completed && <span className="ml-2 text-sm text-gray-500">(Completed)</span>}
               </h1>
               <div className="flex items-center gap-4">
+                {currentSection?.name && (
+                  <span className="font-semibold text-gray-700">{currentSection.name}</span>
+                )}
                 <div className="flex items-center">
                   <span className="font-bold text-primary-700">
-                    Questions {currentBatchStart + 1}-{Math.min(currentBatchStart + 4, questions.length)}
+                    {currentPage.questions.length === 1
+                      ? `Question ${currentPage.start + 1}`
+                      : `Questions ${currentPage.start + 1}-${pageEnd}`}
                   </span>
                   <span className="text-gray-500">/</span>
                   <span className="text-gray-500">
@@ -122,54 +155,67 @@ export default function Quiz() {
               </div>
             </div>
 
-            <div className="space-y-8">
-              {/* Top Section - 2 Questions */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {currentBatchQuestions.slice(0, 2).map((question, idx) => (
-                  <QuestionDisplay
-                    key={question.id}
-                    question={question}
-                    onSubmit={(answer) => submitAnswer(question.id, answer)}
-                    currentIndex={currentBatchStart + idx}
-                    totalQuestions={questions.length}
-                    disabled={completed}
-                  />
-                ))}
-              </div>
-
-              {/* Bottom Section - 2 Questions */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {currentBatchQuestions.slice(2, 4).map((question, idx) => (
-                  <QuestionDisplay
-                    key={question.id}
-                    question={question}
-                    onSubmit={(answer) => submitAnswer(question.id, answer)}
-                    currentIndex={currentBatchStart + idx + 2}
-                    totalQuestions={questions.length}
-                    disabled={completed}
-                  />
-                ))}
+            {pageTimeRemaining !== null && pageTimeLimit !== null && !completed && (
+              <div className="mb-6">
+                <QuizTimer
+                  label={currentPage.questions.length === 1 ? "Time left for this question" : "Time left for these questions"}
+                  seconds={pageTimeRemaining}
+                  totalSeconds={pageTimeLimit}
+                />
               </div>
+            )}
 
-
-            </div>
-
-            <div className="flex justify-end mt-8">
-              <Button
-                onClick={() => {
-                  for (let i = 0; i < 4; i++) {
-                    nextQuestion();
-                  }
-                }}
+            {reviewing ? (
+              <ReviewScreen
+                onBack={() => setReviewing(false)}
+                onSubmit={submitQuiz}
+                onGoToPage={freeNavigation ? showPage : undefined}
                 disabled={loading || completed}
-              >
-                {completed
-                  ? "Already Submitted"
-                  : isLastBatch
-                  ? "Finish Quiz"
-                  : "Next Set"}
-              </Button>
-            </div>
+              />
+            ) : (
+              <>
+                <div className={paperDisplay === 'single' ? "max-w-3xl mx-auto" : "grid grid-cols-1 md:grid-cols-2 gap-6"}>
+                  {currentPage.questions.map((question, idx) => (
+                    <QuestionDisplay
+                      key={question.id}
+                      question={question}
+                      onSubmit={(answer) => submitAnswer(question.id, answer)}
+                      currentIndex={currentPage.start + idx}
+                      totalQuestions={questions.length}
+                      disabled={completed}
+                      flagged={flaggedQuestions.has(question.id)}
+                      onToggleFlag={() => toggleFlag(question.id)}
+                    />
+                  ))}
+                </div>
+
+                <div className={`flex mt-8 ${freeNavigation ? "justify-between" : "justify-end"}`}>
+                  {freeNavigation && (
+                    <Button
+                      variant="outline"
+                      onClick={() => goToPage(currentPageIndex - 1)}
+                      disabled={loading || completed || currentPageIndex === 0}
+                    >
+                      Previous
+                    </Button>
+                  )}
+                  <Button
+                    onClick={isLastPage && navigationPolicy.reviewScreen ? () => setReviewing(true) : nextPage}
+                    disabled={loading || completed}
+                  >
+                    {completed
+                      ? "Already Submitted"
+                      : isLastPage
+                      ? navigationPolicy.reviewScreen ? "Review Answers" : "Finish Quiz"
+                      : startsNewSection
+                      ? "Next Section"
+                      : paperDisplay === 'single'
+                      ? "Next Question"
+                      : "Next Set"}
+                  </Button>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -177,29 +223,52 @@ export default function Quiz() {
         <Card>
           <CardContent className="p-6">
             <h3 className="text-md font-semibold text-gray-800 mb-4">Progress</h3>
-            <div className="grid grid-cols-10 gap-2">
-              {questions.map((question, index) => {
-                const answer = userAnswers.get(question.id);
-                let bgColor = "bg-gray-300 text-white-500";
+            <div className="space-y-4">
+              {sections.map((section, sectionIndex) => (
+                <div key={sectionIndex}>
+                  {sections.length > 1 && (
+                    <h4 className={`text-sm font-medium mb-2 ${sectionIndex === currentPage.section ? "text-primary-700" : "text-gray-600"}`}>
+                      {section.name ?? "Other questions"}
+                    </h4>
+                  )}
+                  <div className="grid grid-cols-10 gap-2">
+                    {section.questions.map((question, idx) => {
+                      const index = section.start + idx;
+                      let bgColor = "bg-gray-300 text-white-500";
 
+                      // The current page, then the questions answered with free navigation,
+                      // or the pages already behind the student on a forward-only paper
+                      if (!reviewing && index >= currentPage.start && index < pageEnd) {
+                        bgColor = "bg-blue-300 text-white-500";
+                      }
+                      else if (freeNavigation ? !!userAnswers.get(question.id) : index < currentPage.start) {
+                        bgColor = "bg-green-300 text-white-500";
+                      }
+                      const flagRing = flaggedQuestions.has(question.id) ? "ring-2 ring-amber-400" : "";
 
-
-                if (index >= currentBatchStart && index < currentBatchStart + 4) {
-                  bgColor = "bg-blue-300 text-white-500";
-                }
-                else if (index <= currentBatchStart && index > currentBatchStart - 5) {
-                  bgColor = "bg-green-300 text-white-500";
-                }
-
-                return (
-                  <div 
-                    key={question.id}
-                    className={`h-8 w-full flex items-center justify-center rounded-md text-xs font-medium ${bgColor}`}
-                  >
-                    {index + 1}
+                      // With free navigation the tracker doubles as a palette for jumping between pages
+                      return freeNavigation ? (
+                        <button
+                          key={question.id}
+                          type="button"
+                          onClick={() => showPage(pageOfQuestion.get(question.id) ?? currentPageIndex)}
+                          disabled={completed}
+                          className={`h-8 w-full flex items-center justify-center rounded-md text-xs font-medium hover:opacity-80 ${bgColor} ${flagRing}`}
+                        >
+                          {index + 1}
+                        </button>
+                      ) : (
+                        <div
+                          key={question.id}
+                          className={`h-8 w-full flex items-center justify-center rounded-md text-xs font-medium ${bgColor} ${flagRing}`}
+                        >
+                          {index + 1}
+                        </div>
+                      );
+                    })}
                   </div>
-                );
-              })}
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -2,10 +2,19 @@ import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/AuthContext";
+import { useQuiz } from "@/context/QuizContext";
+import ScoringRules from "@/components/quiz/scoring-rules";
 import { motion } from "framer-motion";
 
+// Time limits in minutes where they come to whole minutes, otherwise in seconds
+const describeSeconds = (seconds: number) =>
+  seconds % 60 === 0
+    ? `${seconds / 60} ${seconds === 60 ? "minute" : "minutes"}`
+    : `${seconds} seconds`;
+
 export default function Rules() {
   const { user } = useAuth();
+  const { competition } = useQuiz();
   const [location, navigate] = useLocation();
 
   // Redirect to login if not authenticated
@@ -22,6 +31,13 @@ export default function Rules() {
     }
   }, [user, navigate]);
 
+  // Time limits only apply when students cannot go back
+  const forwardOnly = competition?.navigationPolicy.mode !== "free";
+  const questionTimeLimit = forwardOnly ? competition?.paperLayout.questionTimeLimitSeconds ?? null : null;
+  const timedSections = forwardOnly
+    ? (competition?.paperLayout.sections ?? []).filter(section => section.timeLimitSeconds !== null)
+    : [];
+
   const handleAcceptRules = () => {
     navigate("/waiting-room");
   };
@@ -67,19 +83,35 @@ export default function Rules() {
             <h2 className="text-xl font-semibold text-primary-700 mb-2">Competition Format</h2>
             <ul className="list-disc pl-5 text-gray-700 space-y-2">
             <li>The competition consists of 80 multiple-choice mathematics questions.</li>
-            <li>Each question must be answered within 5 minutes. The timer starts when the question appears.</li>
-            <li>Questions will automatically advance when the timer expires.</li>
-            <li>Once a question is answered or skipped, you cannot go back.</li>
+            {questionTimeLimit !== null && (
+              <li>
+                Each question must be answered within {describeSeconds(questionTimeLimit)}. The timer starts when the
+                question appears, and questions shown together share their time.
+              </li>
+            )}
+            {timedSections.map(section => (
+              <li key={section.name}>
+                {section.name} must be completed within {describeSeconds(section.timeLimitSeconds!)}.
+              </li>
+            ))}
+            {(questionTimeLimit !== null || timedSections.length > 0) && (
+              <li>Questions will automatically advance when the timer expires.</li>
+            )}
+            {competition?.navigationPolicy.mode === "free" ? (
+              <li>You can move back and forth between questions and change your answers until you submit.</li>
+            ) : (
+              <li>Once you move on from a set of questions, you cannot go back to it.</li>
+            )}
+            {competition?.navigationPolicy.reviewScreen && (
+              <li>Before you submit, a review screen lists the questions you left unanswered or flagged.</li>
+            )}
             </ul>
           </div>
           
           <div>
             <h2 className="text-xl font-semibold text-primary-700 mb-2">Scoring System</h2>
             <ul className="list-disc pl-5 text-gray-700 space-y-2">
-            <li>Correct answer: +2 points</li>
-            <li>Incorrect answer: -1 point</li>
-            <li>Unanswered question: 0 points</li>
-            <li>Final leaderboard placement is based on total points earned.</li>
+            <ScoringRules profile={competition?.scoringProfile} ranking={competition?.rankingPolicy} />
             </ul>
           </div>
           
@@ -10,10 +10,11 @@ import { motion } from "framer-motion";
 import { ArrowLeft, FileDown, Share2, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
 
 export default function Leaderboard() {
   const { user } = useAuth();
-  const { quizResult, questions } = useQuiz();
+  const { competitionId, quizResult, questions } = useQuiz();
   const { toast } = useToast();
   const [location, navigate] = useLocation();
 
@@ -28,9 +29,9 @@ export default function Leaderboard() {
   useEffect(() => {
     if (quizResult && location === '/leaderboard') {
       console.log('Invalidating results query due to new quizResult');
-      queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+      queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
     }
-  }, [quizResult, location]);
+  }, [quizResult, location, competitionId]);
 
   // Handle back button
   useEffect(() => {
@@ -44,8 +45,8 @@ export default function Leaderboard() {
 
   // Fetch leaderboard data
   const { data: leaderboardData, isLoading } = useQuery<Result[]>({
-    queryKey: ['/api/results'],
-    enabled: !!user,
+    queryKey: [competitionUrl(competitionId, '/results')],
+    enabled: !!user && !!competitionId,
   });
 
   // Fetch user data (for all users now, not just admins)
@@ -76,7 +77,7 @@ export default function Leaderboard() {
         <div className="text-gray-600 max-w-md text-center mb-4">We're gathering the results for the leaderboard.</div>
         <Button
           onClick={() => {
-            queryClient.invalidateQueries({ queryKey: ['/api/results'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/results')] });
             queryClient.invalidateQueries({ queryKey: ['/api/users'] });
             toast({ title: "Refreshing leaderboard", description: "Getting latest results..." });
           }}
@@ -92,36 +93,15 @@ export default function Leaderboard() {
 
   const userResult = quizResult || leaderboardData.find((r: Result) => r.userId === user.id);
 
-  const sortedResults = leaderboardData
-    .reduce((acc: Result[], current: Result) => {
-      const existingIndex = acc.findIndex(item => item.userId === current.userId);
-      if (existingIndex === -1) {
-        acc.push(current);
-      } else if (current.score > acc[existingIndex].score) {
-        console.log(`Replacing score for user ${current.userId}: ${acc[existingIndex].score} -> ${current.score}`);
-        acc[existingIndex] = current;
-      }
-      return acc;
-    }, [])
-    .sort((a: Result, b: Result) => b.score - a.score);
-
-  const calculateRank = (results: Result[], userId: number): number => {
-    const userIndex = results.findIndex(r => r.userId === userId);
-    if (userIndex === -1) return 0;
-    let rank = 1;
-    const userScore = results[userIndex].score;
-    const higherScores = new Set<number>();
-    for (let i = 0; i < results.length; i++) {
-      if (results[i].score > userScore) higherScores.add(results[i].score);
-    }
-    return rank + higherScores.size;
-  };
+  // Ranks come from the server, which applies the competition's tie-breakers
+  const sortedResults = [...leaderboardData]
+    .sort((a: Result, b: Result) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
 
-  const userRank = userResult?.rank || calculateRank(sortedResults, user.id);
+  const userRank = userResult?.rank ?? 0;
 
   console.log('Leaderboard Data:', leaderboardData);
   console.log('User Result:', userResult);
-  console.log('Calculated Rank:', userRank);
+  console.log('Rank:', userRank);
 
   const getUsernameById = (userId: number) => {
     if (!usersData || !Array.isArray(usersData)) return "Student";
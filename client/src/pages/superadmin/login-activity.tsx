@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { motion } from "framer-motion";
+import LoginActivity from "@/components/super-admin/login-activity";
+import { User } from "@shared/schema";
+
+export default function LoginActivityPage() {
+  const { user } = useAuth();
+  const [location, navigate] = useLocation();
+
+  // Redirect to login if not authenticated or not a super admin
+  useEffect(() => {
+    if (!user) {
+      navigate("/");
+    } else if (user.role !== "superadmin") {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  const { data: users = [], isLoading } = useQuery<Omit<User, 'password'>[]>({
+    queryKey: ['/api/users'],
+    enabled: !!user && user.role === 'superadmin',
+  });
+
+  if (!user) return null;
+
+  return (
+    <motion.div
+      className="min-h-screen flex flex-col p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center text-primary-600 hover:text-primary-800"
+          onClick={() => navigate("/superadmin")}
+        >
+          <ArrowLeft className="h-5 w-5 mr-1" />
+          Back
+        </Button>
+      </div>
+
+      <div className="max-w-6xl mx-auto w-full">
+        <LoginActivity users={users} isLoading={isLoading} />
+      </div>
+    </motion.div>
+  );
+}
@@ -1,11 +1,13 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/context/AuthContext";
 import { useQuiz } from "@/context/QuizContext";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Play, RefreshCw, Users, Settings, ClipboardList } from "lucide-react";
+import { ArrowLeft, Play, Square, RefreshCw, Users, Settings, ClipboardList, Archive } from "lucide-react";
 import { motion } from "framer-motion";
 import { 
   AlertDialog,
@@ -19,11 +21,18 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import CompetitionSwitcher from "@/components/admin/competition-switcher";
+import QuizScheduleControl from "@/components/admin/quiz-schedule-control";
+import QuizPauseControl from "@/components/admin/quiz-pause-control";
+import LoginLockouts from "@/components/super-admin/login-lockouts";
+import LiveSessions from "@/components/super-admin/live-sessions";
 
 export default function SuperAdminPanel() {
   const { user, logout } = useAuth();
-  const { quizState, startQuiz, resetQuiz, loading } = useQuiz();
+  const { quizState, startQuiz, endQuiz, resetQuiz, durationSeconds, loading } = useQuiz();
   const [location, navigate] = useLocation();
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [archiveName, setArchiveName] = useState("");
   const { toast } = useToast();
 
   // Redirect to login if not authenticated or not a super admin
@@ -41,20 +50,31 @@ export default function SuperAdminPanel() {
     enabled: !!user && user.role === 'superadmin',
   });
 
+  const { data: backups } = useQuery<{ snapshots: { createdAt: string }[] }>({
+    queryKey: ['/api/admin/backups'],
+    enabled: !!user && user.role === 'superadmin',
+  });
+
   // const handleBack = () => {
   //   logout();
   // };
 
   const handleStartQuiz = async () => {
-    await startQuiz();
+    const minutes = parseInt(durationMinutes, 10);
+    await startQuiz(minutes > 0 ? minutes * 60 : undefined);
     toast({
       title: "Quiz started",
       description: "The quiz has been started for all students.",
     });
   };
 
+  const handleEndQuiz = async () => {
+    await endQuiz();
+  };
+
   const handleResetQuiz = async () => {
-    await resetQuiz();
+    await resetQuiz(archiveName.trim() || undefined);
+    setArchiveName("");
     toast({
       title: "Quiz reset",
       description: "The quiz and leaderboard have been reset successfully.",
@@ -66,24 +86,23 @@ export default function SuperAdminPanel() {
   };
 
   const handleSystemSettings = () => {
-    toast({
-      title: "System Settings",
-      description: "This feature will be implemented in a future update.",
-    });
+    navigate("/superadmin/settings");
   };
 
   const handleViewLoginActivity = () => {
-    toast({
-      title: "Login Activity",
-      description: "This feature will be implemented in a future update.",
-    });
+    navigate("/superadmin/activity");
+  };
+
+  const handleViewArchives = () => {
+    navigate("/superadmin/archives");
   };
 
   // Calculate stats
   const activeStudents = users ? users.filter(u => u.role === 'student').length : 0;
   const activeAdmins = users ? users.filter(u => u.role === 'admin').length : 0;
   const serverStatus = "Online"; // In a real app, this would be determined dynamically
-  const lastBackup = new Date().toLocaleString(); // In a real app, this would be fetched from the server
+  const lastSnapshot = backups?.snapshots[0];
+  const lastBackup = lastSnapshot ? new Date(lastSnapshot.createdAt).toLocaleString() : "None yet";
 
   if (!user) return null;
 
@@ -107,13 +126,30 @@ export default function SuperAdminPanel() {
       
       
       <div className="max-w-6xl mx-auto w-full">
-        <h1 className="text-2xl font-bold text-green-600 mb-6 text-center">Super Admin Panel</h1><br/>
+        <h1 className="text-2xl font-bold text-green-600 mb-6 text-center">Super Admin Panel</h1>
+        <div className="flex justify-center mb-6">
+          <CompetitionSwitcher />
+        </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <Card>
           <CardContent className="p-6 bg-white bg-opacity-90 rounded-lg">
           <h2 className="text-lg font-semibold text-gray-800 mb-4">Quiz Control</h2>
           <div className="space-y-3">
+            <div>
+            <Label htmlFor="quiz-duration">Duration (minutes)</Label>
+            <Input
+              id="quiz-duration"
+              type="number"
+              min={1}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              placeholder={Math.round(durationSeconds / 60).toString()}
+              disabled={quizState !== 'waiting'}
+              className="mt-1"
+            />
+            </div>
+            <QuizScheduleControl />
             <Button 
             className="w-full"
             onClick={handleStartQuiz}
@@ -122,6 +158,20 @@ export default function SuperAdminPanel() {
             <Play className="h-4 w-4 mr-2" />
             Start Quiz
             </Button>
+
+            <QuizPauseControl />
+
+            {(quizState === 'started' || quizState === 'paused') && (
+            <Button 
+              variant="outline"
+              className="w-full"
+              onClick={handleEndQuiz}
+              disabled={loading}
+            >
+              <Square className="h-4 w-4 mr-2" />
+              End Quiz
+            </Button>
+            )}
             
             <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -138,9 +188,20 @@ export default function SuperAdminPanel() {
               <AlertDialogTitle>Reset Quiz and Leaderboard</AlertDialogTitle>
               <AlertDialogDescription>
                 This action will reset the quiz state, clear all students' answers, and reset the leaderboard. 
-                This operation cannot be undone.
+                The finished round is kept under Archived Rounds.
               </AlertDialogDescription>
               </AlertDialogHeader>
+              <div>
+              <Label htmlFor="archive-name">Archive name (optional)</Label>
+              <Input
+                id="archive-name"
+                value={archiveName}
+                onChange={(e) => setArchiveName(e.target.value)}
+                placeholder="Competition name and date"
+                maxLength={200}
+                className="mt-1"
+              />
+              </div>
               <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
               <AlertDialogAction 
@@ -192,26 +253,38 @@ export default function SuperAdminPanel() {
             <Users className="h-4 w-4 mr-2" />
             User Management
             </Button>
-            {/* <Button 
+            <Button 
             variant="outline" 
             className="w-full"
-            onClick={handleSystemSettings}
+            onClick={handleViewLoginActivity}
             >
-            <Settings className="h-4 w-4 mr-2" />
-            System Settings
+            <ClipboardList className="h-4 w-4 mr-2" />
+            View Login Activity
             </Button>
             <Button 
             variant="outline" 
             className="w-full"
-            onClick={handleViewLoginActivity}
+            onClick={handleViewArchives}
             >
-            <ClipboardList className="h-4 w-4 mr-2" />
-            View Login Activity
-            </Button> */}
+            <Archive className="h-4 w-4 mr-2" />
+            Archived Rounds
+            </Button>
+            <Button 
+            variant="outline" 
+            className="w-full"
+            onClick={handleSystemSettings}
+            >
+            <Settings className="h-4 w-4 mr-2" />
+            System Settings
+            </Button>
           </div>
           </CardContent>
         </Card>
         </div>
+
+        <LoginLockouts />
+
+        <LiveSessions />
         
         <div className="flex justify-end mt-4 space-x-4">
         <Button 
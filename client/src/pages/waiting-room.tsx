@@ -7,13 +7,14 @@ import { useQuiz } from "@/context/QuizContext";
 import { motion } from "framer-motion";
 import { ArrowLeft, Clock, RefreshCw } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
+import { competitionUrl } from "@/lib/quiz";
 import { useToast } from "@/hooks/use-toast";
 
 
 
 export default function WaitingRoom() {
   const { user } = useAuth();
-  const { quizState } = useQuiz();
+  const { competitionId, quizState, scheduledStartTime, secondsUntilStart } = useQuiz();
   const [location, navigate] = useLocation();
   const { toast } = useToast();
 
@@ -44,6 +45,14 @@ export default function WaitingRoom() {
     navigate("/rules");
   };
 
+  // Format the countdown to a scheduled start as HH:MM:SS
+  const formatCountdown = (secs: number) => {
+    const hours = Math.floor(secs / 3600);
+    const minutes = Math.floor((secs % 3600) / 60);
+    const seconds = secs % 60;
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  };
+
   if (!user) return null;
 
   return (
@@ -93,10 +102,24 @@ export default function WaitingRoom() {
             </div>
           </div>
           
-          <h2 className="text-2xl font-bold text-gray-800 mb-3">Waiting for Admin</h2>
-          <p className="text-gray-600 mb-6">
-            Please wait while the administrator starts the quiz. The quiz will begin automatically once it's initiated.
-          </p>
+          {scheduledStartTime && secondsUntilStart !== null ? (
+            <>
+            <h2 className="text-2xl font-bold text-gray-800 mb-3">Quiz Starts In</h2>
+            <p className="text-4xl font-mono font-bold text-primary-600 mb-3">
+              {formatCountdown(secondsUntilStart)}
+            </p>
+            <p className="text-gray-600 mb-6">
+              The quiz will begin automatically at {scheduledStartTime.toLocaleTimeString()}.
+            </p>
+            </>
+          ) : (
+            <>
+            <h2 className="text-2xl font-bold text-gray-800 mb-3">Waiting for Admin</h2>
+            <p className="text-gray-600 mb-6">
+              Please wait while the administrator starts the quiz. The quiz will begin automatically once it's initiated.
+            </p>
+            </>
+          )}
           
           <div className="p-4 bg-primary-50 rounded-lg mb-4">
             <p className="text-primary-700 font-medium">
@@ -113,7 +136,7 @@ export default function WaitingRoom() {
           <Button
             onClick={() => {
             // Force refetch quiz settings without page reload
-            queryClient.invalidateQueries({ queryKey: ['/api/quiz/settings'] });
+            queryClient.invalidateQueries({ queryKey: [competitionUrl(competitionId, '/quiz/settings')] });
             toast({
               title: "Refreshing status",
               description: "Checking for quiz start...",
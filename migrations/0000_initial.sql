@@ -0,0 +1,131 @@
+CREATE TYPE "public"."competition_type" AS ENUM('preliminary', 'final', 'practice');--> statement-breakpoint
+CREATE TYPE "public"."login_event_type" AS ENUM('login', 'logout', 'failure');--> statement-breakpoint
+CREATE TYPE "public"."login_throttle_scope" AS ENUM('username', 'ip');--> statement-breakpoint
+CREATE TYPE "public"."quiz_state" AS ENUM('waiting', 'started', 'paused', 'completed');--> statement-breakpoint
+CREATE TYPE "public"."school" AS ENUM('Ananda Balika Vidyalaya - Colombo', 'Ananda College - Colombo', 'Asoka College - Colombo', 'Devi Balika Vidyalaya - Colombo', 'D.S. Senanayake College - Colombo', 'Gothami Balika Vidyalaya - Colombo', 'Hindu College - Colombo', 'Isipathana College - Colombo', 'Mahanama College - Colombo', 'Muslim Ladies College - Colombo', 'Nalanda College - Colombo', 'Ramanathan Hindu Ladies College - Colombo', 'Rathnawali Balika Maha Vidyalaya - Colombo', 'Royal College - Colombo', 'Sirimavo Bandaranaike Balika Vidyalaya - Colombo', 'St Paul’s Girls School - Colombo', 'Thurston College - Colombo', 'Visakha Vidyalaya - Colombo', 'Lumbini College - Colombo', 'Mahinda Rajapaksha Vidyalaya - Homagama', 'Rathnavali Balika MV - Gampaha', 'Bandaranayaka Vidyalaya - Gampaha', 'Vihara Maha Devi Balika Vidyalaya - Kiribathgoda', 'Anula Vidyalaya - Nugegoda', 'Dharmapala Vidyalaya - Pannipitiya', 'Bandaranayake Central College - Veyangoda', 'Prince of Wales’ College - Moratuwa', 'Sri Dharmaloka Collage', 'Yashodara Devi Balika Maha Vidyalaya - Gampaha', 'Kotahena Central College', 'Sri Sangabodhi National College', 'Thakshila College Gampaha', 'President''s College', 'Andiambalama Maha Vidyalaya', 'SRI Subhuthi National school', 'Harischandra College', 'Boys'' Model College - Malabe', 'Hameed Al Husseinie College', 'Kelani Maha Vidyalaya', 'Ananda Sastralaya - Kotte', 'Siyane National School', 'St. Paul''s Balika Maha Vidyalaya - Kelaniya', 'Galahitiyawa Central College - Ganemulla', 'Newstead Girls College - Negombo', 'Gurukula College - Kelaniya', 'Nalanda (Boys'') Central College - Minuwangoda', 'D.S. Senanayake Central College - Mirigama', 'Henegama Central College - National School - Henegama', 'St. Anthony''s College - Wattala', 'Nalanda (Girls'') Central College - Minuwangoda', 'President''s College - Minuwangoda', 'Bomiriya Central College - Bomiriya - Kaduwela.', 'SRI RAJASINGHE CENTRAL - MULLERIYAWA', 'Kolonnawa Girl''s College', 'Hanwella Rajasinghe Central College', 'Seethawaka National School', 'Piliyandala Central College', 'Presbyterian Girls'' School Dehiwala', 'Central College Homagama', 'Princess of Wales'' College', 'Science College - Mount Lavinia', 'Lalith Athulathmudali College - Mount Lavinia', 'Sri Pangnananda Vidyalaya - Kotugoda', 'Christ King College - Tudella', 'Al-Mubarak Central College - Malwana', 'Senarath Paranawithana Maha Vidyalaya - Udugampola', 'Sri Chandrajothi Maha Vidyalaya - Yakkala', 'Anura Madhya Maha Vidyalaya - Yakkala', 'Madduma Bandara Maha Vidyalaya - Weliweriya', 'Rajasinghe Maha Vidyala - Imbulgoda', 'Al Ashar Muslim Maha Vidyalaya - Thihariya', 'President''s College - Veyangoda', 'Urapola Madhya Maha Vidyalaya - Urapola', 'Kirindiwela Madhya Maha Vidyalaya - Kirindiwela', 'Padmawathie Madhya Maha Vidyalaya - Dekatan', 'St Peter’s College - Negombo', 'Al Hilal Muslim Central College - Negombo', 'Wijayaratnam Hindu Central College - Negombo', 'St. Mary’s College - Negombo', 'Kochchikade Maha Vidyalaya - Kochchikade', 'Nirmala Mariya Balika Maha Vidyalaya - Ja Ela', 'St. Sebastian''s Balika Maha Vidyalaya - Kandana', 'St. Sebastian’s College - Kandana', 'Basilica College - Ragama', 'Batuwatta Maha Vidyalaya - Ragama', 'Jinaraja Maha Vidyalaya - Ja Ela', 'Dutugamunu Maha Vidyalaya - Thimbirigaskotuwa', 'Davi Samara Maha Vidyalaya - Seeduwa', 'Deshamanya H.K Dharamadasa Maha Vidyalaya - Peliyagoda', 'Good Sheperd Balika Maha Vidyalaya - Wattala', 'St. Anne''s Balika Maha Vidyalaya - Wattala', 'Heenkenda Maha Vidyalaya - Ragama', 'Vishaka Balika Maha Vidyalaya - Makola', 'Sapugaskanda Maha Vidyalaya - Makola', 'Mahamaya Balika Maha Vidyalaya - Kadawatha', 'Biyagama Madhya Maha Vidyalaya - Biyagama', 'Daranagama Maha Vidyalaya - Siyambalape', 'Kadawatha Madhya Maha Vidyalaya - Kadawatha', 'S.K.K Sooriyaarachchi Maha Vidyalaya - Kadawatha', 'Kirillawala Madhya Maha vidyalaya - Kadawatha', 'Burullapitiya Maha Vidyalaya - Minuwangoda', 'Dewalapola Ananda Maha Vidyalaya - Dewalapola', 'Pallewela Maha Vidyalaya - Pallewela', 'Pasyala Maha Vidyalya - Pasyala', 'C.W.W Kannangara Maha Vidyalaya - Hunumulla', 'Sri Gnanodaya Madhya Maha Vidyalaya - Divulapitiya', 'Kalutara Vidyalaya', 'Kalutara Balika Vidyalaya - Kalutara', 'Tissa Central College - Kalutara', 'Zahira College - Dharga Town', 'Saddhathissa College - Bandaragama', 'D.S Senanayake Central College - Beruwala', 'Al-Humaisara National School - Beruwala', 'Sri Sumangala College - Panadura', 'St. John''s College - Panadura', 'Sri Sumangala Girls College - Pandura', 'Miriswatta National School - Dodangoda', 'Horana Royal College - Horana', 'Taxila Central College - Horana', 'Sri Palee College - Horana', 'Bandaragama National School - Bandaragama', 'Bulathsinhala Central College - Bulathsinhala', 'Ananda Sastralaya - Matugama', 'C. W. W. Kannangara Madya Maha Vidyalaya - Mathugama', 'Panadura Royal College', 'Agamathi Balika Vidyalaya Panadura', 'Gnanodaya Maha Vidyalaya - Kalutara South', 'Gurulugomi Maha Vidyalaya - Kalutara North', 'Muslim Central College - Kalutara South', 'Katukurunda Dharmapala Maha Vidyalaya - Katukurunda', 'Al Faharia Muslim Central College - Pandura', 'Jeelan Central College - Pandura', 'Mahanama College - Pandura', 'Pandura Balika Maha Vidyalaya - Pandura', 'Wadduwa Madhya Maha Vidyalaya - Wadduwa', 'Sri Gnanissara Maha Vidyalaya - Dharga Town', 'Naleem Hajiar Muslim Balika Vidyalaya - Beruwala', 'Zam Refai Hajiar Maha Vidyalaya - Beruwala', 'Pothuwila Maha Vidyalaya - Payagala', 'Zahira Muslim Maha Vidyalaya - Dharga Town', 'Bombuwala Sri Dharmaloka Maha Vidyalaya - Bombuwala', 'Don Pedrick Maha Vidyalaya - Horana', 'Prajapathi Balia Maha Vidyalaya - Horana', 'Sri Medhankara Maha Vidyalaya - Horana', 'Gamini Madhya Maha Vidyalaya - Ingiriya', 'Palannoruwa Central College - Gonapola Junction', 'Sri Saddhatissa Maha Vidyalaya - Bandaragama', 'Wewita Maithree Maha Vidyalaya - Bandaragama', 'Warakagoda Maha Vidyalaya - Neboda', 'St. Mary''s College - Matugama', 'Walagedara Maha Vidyalaya - Walagedara', 'Mihindu Madhya Maha Vidyalaya - Agalawatta', 'Kamburawala Maha Vidyalaya - Baduraliya', 'Colvin R. De Silva maha Vidyalaya - Ittapana', 'Meril Kariyawasam Madhya Maha Vidyalaya - Meeghatenna', 'Bishop''s College - Colombo', 'Burhani Serandib School - Colombo', 'Buddhist Ladies'' College - Colombo', 'Carey College - Colombo', 'Ladies'' College - Colombo', 'Convent of Our lady of Victories - Moratuwa', 'Elizabeth Moir School - Colombo', 'Good Shepherd Convent - Colombo', 'Gateway College Dehiwala', 'Gateway College Colombo', 'Hindu Ladies College - Colombo', 'Holy Family Convent - Bambalapitiya', 'Holy Family Convent - Dehiwela', 'Kanza College - Colombo', 'Kebel College - Nugegoda', 'Logos College - Colombo', 'Louvre College - Pannipitiya', 'Louvre College - Nugegoda', 'Methodist College - Colombo', 'Musaeus College - Colombo', 'NCEF Buddhist College - Mulleriyawa', 'Spectrum College - Mount Lavinia', 'St. Lawrence''s Convent - Colombo', 'St. Benedict''s College - Colombo', 'Minasro College - Pelawatta - Mathugama', 'St. Peter''s College - Colombo', 'St. Sebastian''s College - Moratuwa', 'St. Bridget''s Convent - Colombo', 'St. Thomas'' College - Mount Lavinia', 'Sujatha Vidyalaya - Nugegoda', 'St. Joseph''s Boys’ College - Nugegoda', 'Sussex College - Nugegoda', 'Springfield College - Colombo', 'Highlands College - Maharagama', 'Vidura College - Nawala', 'Wesley College - Colombo', 'Al Manar International School - Colombo', 'Alexor International School - Colombo', 'Amal International School - Colombo', 'Apple International School - Colombo', 'Asian International School - Colombo', 'ACE Institute International School - Colombo', 'Belvoir College International - Colombo', 'Bond International School - Colombo', 'Brightens International School - Colombo', 'Buckingham International School - Colombo', 'Brisbane International School - Nugegoda', 'British School in Colombo', 'Cambridge International School - Colombo', 'Campbell International School - Colombo', 'Campbell International School - Kotikawatta', 'Colombo International School - Colombo', 'Crescent Schools International - Colombo', 'Crescent Schools International - Wellampitiya', 'Colombo South International College - Nugegoda', 'Dhilshaath International College - Dematagoda', 'East Asian International College - Nugegoda', 'Eskola International School - Colombo', 'Global International School - Colombo', 'Green Bridge International College - Kolonnawa', 'Guidance International School - Piliyandala', 'Harcourts International School - Dehiwala', 'Hejaaz International School - Mount Lavinia', 'Horizon College International - Malabe', 'Horizon College International - Nugegoda', 'Hilburn International School - Avissawella', 'Ikra International School - Colombo', 'Ikra International School - Kolonnawa', 'Ilma International Girls'' School - Colombo', 'J.M.C. International School - Colombo', 'J.M.C. International School - Kaduwela', 'J.M.C. International School - Maharagama', 'J.M.C. International School - Mulleriyawa', 'Kingston College International - Wellawatta', 'Kingston College International - Colombo', 'Kingston College International - Mount Lavinia', 'Lakeland International American School - Ratmalana', 'Lead the Way Girls'' International - Dehiwala', 'Leeds International School - Piliyandala', 'Liberty International School - Colombo', 'Liberty International School - Ethul Kotte', 'Lyceum International School - Nugegoda', 'Linfield International School - Mortuwa', 'Linfield International School - Piliyandala', 'Linfield International School - Pannipitiya', 'Linfield International School - Godagama', 'M.D Gunasena International School - Colombo', 'Mysticle Rose Institute International School - Ethulotte', 'Readway International College of Education - Dematagoda', 'Royal Institute International School - Nugegoda', 'Royal Institute International School - Colombo', 'Royal Institute International School - Maharagama', 'School of Arts and Science - Colombo', 'Stafford International School - Colombo', 'Wycherley International School - Colombo', 'Other');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('student', 'admin', 'superadmin');--> statement-breakpoint
+CREATE TABLE "competitions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" "competition_type" DEFAULT 'preliminary' NOT NULL,
+	"description" text,
+	"question_ids" integer[] DEFAULT '{}' NOT NULL,
+	"participant_ids" integer[] DEFAULT '{}' NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "login_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" "login_event_type" NOT NULL,
+	"user_id" integer,
+	"username" text NOT NULL,
+	"role" "user_role",
+	"school" text,
+	"ip_address" text,
+	"user_agent" text,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "login_throttles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scope" "login_throttle_scope" NOT NULL,
+	"key" text NOT NULL,
+	"failure_count" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp,
+	"blocked_until" timestamp,
+	CONSTRAINT "login_throttles_scope_key_unique" UNIQUE("scope","key")
+);
+--> statement-breakpoint
+CREATE TABLE "questions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"question_text" text,
+	"question_image" text,
+	"option_a" text NOT NULL,
+	"option_b" text NOT NULL,
+	"option_c" text NOT NULL,
+	"option_d" text NOT NULL,
+	"correct_answer" text NOT NULL,
+	"difficulty" text DEFAULT 'medium',
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"is_image" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "quiz_answers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"question_id" integer NOT NULL,
+	"user_answer" text,
+	"is_correct" boolean,
+	"response_time_seconds" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "quiz_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"state" "quiz_state" DEFAULT 'waiting' NOT NULL,
+	"duration_seconds" integer DEFAULT 3600 NOT NULL,
+	"scheduled_start_time" timestamp,
+	"start_time" timestamp,
+	"end_time" timestamp,
+	"paused_at" timestamp,
+	"paused_seconds" integer DEFAULT 0 NOT NULL,
+	"last_reset" timestamp,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "quiz_settings_competition_id_unique" UNIQUE("competition_id")
+);
+--> statement-breakpoint
+CREATE TABLE "results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"score" integer NOT NULL,
+	"correct_answers" integer NOT NULL,
+	"incorrect_answers" integer NOT NULL,
+	"skipped_answers" integer NOT NULL,
+	"average_response_time" integer,
+	"completion_time" integer,
+	"rank" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "time_extensions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"extra_seconds" integer NOT NULL,
+	"reason" text,
+	"granted_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "time_extensions_competition_id_user_id_unique" UNIQUE("competition_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"role" "user_role" DEFAULT 'student' NOT NULL,
+	"school" "school",
+	"must_change_password" boolean DEFAULT false NOT NULL,
+	"last_login" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "competitions" ADD CONSTRAINT "competitions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "login_events" ADD CONSTRAINT "login_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "questions" ADD CONSTRAINT "questions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_settings" ADD CONSTRAINT "quiz_settings_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "results" ADD CONSTRAINT "results_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "results" ADD CONSTRAINT "results_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_extensions" ADD CONSTRAINT "time_extensions_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_extensions" ADD CONSTRAINT "time_extensions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "time_extensions" ADD CONSTRAINT "time_extensions_granted_by_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
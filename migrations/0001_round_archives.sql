@@ -0,0 +1,10 @@
+CREATE TABLE "round_archives" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"competition_name" text NOT NULL,
+	"name" text NOT NULL,
+	"settings" jsonb NOT NULL,
+	"answers" jsonb NOT NULL,
+	"results" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
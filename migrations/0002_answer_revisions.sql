@@ -0,0 +1,33 @@
+CREATE TABLE "answer_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"question_id" integer NOT NULL,
+	"user_answer" text,
+	"is_correct" boolean,
+	"response_time_seconds" integer,
+	"answered_at" timestamp,
+	"replaced_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+UPDATE "quiz_answers" SET "updated_at" = "created_at";--> statement-breakpoint
+-- Earlier versions saved every answer a student chose: the latest one counts, and the earlier ones become revisions
+INSERT INTO "answer_revisions" ("competition_id", "user_id", "question_id", "user_answer", "is_correct", "response_time_seconds", "answered_at", "replaced_at")
+SELECT "competition_id", "user_id", "question_id", "user_answer", "is_correct", "response_time_seconds", "created_at", "replaced_at"
+FROM (
+	SELECT *, lead("id") OVER w AS "next_id", lead("created_at") OVER w AS "replaced_at"
+	FROM "quiz_answers"
+	WINDOW w AS (PARTITION BY "competition_id", "user_id", "question_id" ORDER BY "id")
+) AS "answers"
+WHERE "next_id" IS NOT NULL
+ORDER BY "id";--> statement-breakpoint
+DELETE FROM "quiz_answers" AS "earlier" USING "quiz_answers" AS "later"
+WHERE "later"."competition_id" = "earlier"."competition_id"
+	AND "later"."user_id" = "earlier"."user_id"
+	AND "later"."question_id" = "earlier"."question_id"
+	AND "later"."id" > "earlier"."id";--> statement-breakpoint
+ALTER TABLE "answer_revisions" ADD CONSTRAINT "answer_revisions_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "answer_revisions" ADD CONSTRAINT "answer_revisions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "answer_revisions" ADD CONSTRAINT "answer_revisions_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_competition_id_user_id_question_id_unique" UNIQUE("competition_id","user_id","question_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- A resubmission used to race the first one and could add a second result: keep the first
+DELETE FROM "results" AS "later" USING "results" AS "earlier"
+WHERE "earlier"."competition_id" = "later"."competition_id"
+	AND "earlier"."user_id" = "later"."user_id"
+	AND "earlier"."id" < "later"."id";--> statement-breakpoint
+ALTER TABLE "results" ADD CONSTRAINT "results_competition_id_user_id_unique" UNIQUE("competition_id","user_id");
@@ -0,0 +1 @@
+ALTER TABLE "competitions" ADD COLUMN "scoring_profile" jsonb DEFAULT '{"correct":2,"incorrect":-1,"skipped":0,"difficultyWeights":{"easy":1,"medium":1,"hard":1},"speedBonus":{"maxPoints":0,"withinSeconds":60}}'::jsonb NOT NULL;
\ No newline at end of file
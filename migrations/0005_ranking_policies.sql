@@ -0,0 +1 @@
+ALTER TABLE "competitions" ADD COLUMN "ranking_policy" jsonb DEFAULT '{"tieBreakers":["completionTime"],"method":"standard"}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "competitions" ADD COLUMN "school_ranking" jsonb DEFAULT '{"topStudents":3,"aggregate":"sum"}'::jsonb NOT NULL;
\ No newline at end of file
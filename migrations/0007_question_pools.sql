@@ -0,0 +1,13 @@
+CREATE TABLE "question_draws" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"question_ids" integer[] NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "question_draws_competition_id_user_id_unique" UNIQUE("competition_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "question_blueprint" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "topic" text;--> statement-breakpoint
+ALTER TABLE "question_draws" ADD CONSTRAINT "question_draws_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_draws" ADD CONSTRAINT "question_draws_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "competitions" ADD COLUMN "paper_layout" jsonb DEFAULT '{"display":"grid","questionsPerPage":4,"sections":[]}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "paper_positions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"competition_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"page" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "paper_positions_competition_id_user_id_unique" UNIQUE("competition_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "navigation_policy" jsonb DEFAULT '{"mode":"forward","reviewScreen":false}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "paper_positions" ADD CONSTRAINT "paper_positions_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "paper_positions" ADD CONSTRAINT "paper_positions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE "competitions" ALTER COLUMN "paper_layout" SET DEFAULT '{"display":"grid","questionsPerPage":4,"sections":[],"questionTimeLimitSeconds":null}'::jsonb;--> statement-breakpoint
+ALTER TABLE "paper_positions" ADD COLUMN "page_start_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "paper_positions" ADD COLUMN "section_start_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "paper_positions" ADD COLUMN "last_answer_seconds" integer;--> statement-breakpoint
+ALTER TABLE "quiz_answers" ADD COLUMN "time_spent_seconds" integer;--> statement-breakpoint
+-- Layouts saved before time limits have none
+UPDATE "competitions" SET "paper_layout" = jsonb_set(
+	'{"questionTimeLimitSeconds":null}'::jsonb || "paper_layout",
+	'{sections}',
+	(SELECT coalesce(jsonb_agg('{"timeLimitSeconds":null}'::jsonb || "section"), '[]'::jsonb) FROM jsonb_array_elements("paper_layout"->'sections') AS "section")
+);
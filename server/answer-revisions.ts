@@ -0,0 +1,43 @@
+import type { AnswerRevision, QuizAnswer } from "@shared/schema";
+
+export type NewAnswerRevision = Omit<AnswerRevision, 'id'>;
+
+// A student has one answer to each question of a competition
+export function answerKey(answer: Pick<QuizAnswer, 'competitionId' | 'userId' | 'questionId'>): string {
+  return `${answer.competitionId}:${answer.userId}:${answer.questionId}`;
+}
+
+// The revision log entry for an answer the student has just replaced
+export function revisionOf(answer: QuizAnswer, replacedAt: Date): NewAnswerRevision {
+  return {
+    competitionId: answer.competitionId,
+    userId: answer.userId,
+    questionId: answer.questionId,
+    userAnswer: answer.userAnswer,
+    isCorrect: answer.isCorrect,
+    responseTimeSeconds: answer.responseTimeSeconds,
+    // Answers saved before they could be changed have no updatedAt
+    answeredAt: answer.updatedAt ?? answer.createdAt,
+    replacedAt,
+  };
+}
+
+// Earlier versions saved every answer a student chose. Keep the latest answer to each
+// question and turn the earlier ones into revisions, oldest first.
+export function foldRepeatedAnswers(answers: QuizAnswer[]): { latest: QuizAnswer[]; replaced: NewAnswerRevision[] } {
+  const latest = new Map<string, QuizAnswer>();
+  const replaced: NewAnswerRevision[] = [];
+
+  [...answers]
+    .sort((a, b) => a.id - b.id)
+    .forEach(answer => {
+      const key = answerKey(answer);
+      const previous = latest.get(key);
+      if (previous) {
+        replaced.push(revisionOf(previous, answer.createdAt ?? new Date()));
+      }
+      latest.set(key, answer);
+    });
+
+  return { latest: Array.from(latest.values()), replaced };
+}
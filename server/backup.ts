@@ -0,0 +1,413 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { z } from 'zod';
+import { createSelectSchema } from 'drizzle-zod';
+import { storage, type StorageData } from "./storage";
+import { reviveDates } from "./json-dates";
+import { foldRepeatedAnswers } from "./answer-revisions";
+import { users, questions, competitions, quizSettings, quizAnswers, answerRevisions, results, timeExtensions, questionDraws, paperPositions, roundArchives, scoringProfileSchema, rankingPolicySchema, schoolRankingSchema, questionBlueprintSchema, paperLayoutSchema, navigationPolicySchema, DEFAULT_SCORING_PROFILE, DEFAULT_RANKING_POLICY, DEFAULT_SCHOOL_RANKING, DEFAULT_PAPER_LAYOUT, DEFAULT_NAVIGATION_POLICY } from "@shared/schema";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+const SNAPSHOTS_DIR = path.join(process.cwd(), 'backups');
+
+const BACKUP_FORMAT = 'nsbm-mathmaster-backup';
+const BACKUP_VERSION = 1;
+
+// Snapshot files are named after the time they were taken, so they sort oldest first
+const SNAPSHOT_PATTERN = /^snapshot-[0-9TZ-]+(-pre-restore)?\.json\.gz$/;
+
+function readCount(value: string | undefined, fallback: number): number {
+  const count = parseInt(value ?? '', 10);
+  return Number.isNaN(count) || count < 0 ? fallback : count;
+}
+
+// Automatic snapshots are taken every BACKUP_INTERVAL_MINUTES (0 turns them off),
+// keeping the newest BACKUP_RETENTION of them
+export const snapshotSchedule = {
+  intervalMinutes: readCount(process.env.BACKUP_INTERVAL_MINUTES, 30),
+  retention: readCount(process.env.BACKUP_RETENTION, 48),
+};
+
+// Questions from backups made before questions had topics have none
+const questionSchema = createSelectSchema(questions).extend({
+  topic: z.string().nullable().default(null),
+});
+
+// Competitions from backups made before scoring and ranking were configurable get the
+// defaults, those from before question blueprints serve every question, and those from
+// before paper layouts and navigation policies keep the forward-only batches of four
+const competitionSchema = createSelectSchema(competitions).extend({
+  questionBlueprint: questionBlueprintSchema.default([]),
+  paperLayout: paperLayoutSchema.default(DEFAULT_PAPER_LAYOUT),
+  navigationPolicy: navigationPolicySchema.default(DEFAULT_NAVIGATION_POLICY),
+  scoringProfile: scoringProfileSchema.default(DEFAULT_SCORING_PROFILE),
+  rankingPolicy: rankingPolicySchema.default(DEFAULT_RANKING_POLICY),
+  schoolRanking: schoolRankingSchema.default(DEFAULT_SCHOOL_RANKING),
+});
+
+// Answers from backups made before answers could be changed have no updatedAt
+const quizAnswerSchema = createSelectSchema(quizAnswers).extend({
+  updatedAt: z.date().nullable().default(null),
+  // Answers saved before time spent was recorded have none
+  timeSpentSeconds: z.number().int().nullable().default(null),
+});
+
+const archivedResultSchema = createSelectSchema(results).extend({
+  username: z.string().nullable(),
+  school: z.string().nullable(),
+});
+
+const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.date(),
+  data: z.object({
+    users: z.array(createSelectSchema(users)),
+    questions: z.array(questionSchema),
+    competitions: z.array(competitionSchema),
+    quizSettings: z.array(createSelectSchema(quizSettings)),
+    quizAnswers: z.array(quizAnswerSchema),
+    // Backups made before answers had revisions have none
+    answerRevisions: z.array(createSelectSchema(answerRevisions)).default([]),
+    results: z.array(createSelectSchema(results)),
+    timeExtensions: z.array(createSelectSchema(timeExtensions)),
+    // Backups made before papers were drawn from blueprints have none
+    questionDraws: z.array(createSelectSchema(questionDraws)).default([]),
+    // Backups made before forward-only papers were enforced have no positions
+    paperPositions: z.array(createSelectSchema(paperPositions)).default([]),
+    // Backups made before rounds were archived have none
+    roundArchives: z.array(createSelectSchema(roundArchives, {
+      settings: createSelectSchema(quizSettings),
+      answers: z.array(quizAnswerSchema),
+      results: z.array(archivedResultSchema),
+    })).default([]),
+    counters: z.record(z.number().int()),
+  }),
+  // Question images from uploads/, base64 encoded and keyed by file name
+  uploads: z.record(z.string()),
+});
+
+type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+// What a restore would do, and whether it can go ahead
+export interface RestoreReport {
+  valid: boolean;
+  createdAt: Date | null;
+  counts: {
+    users: number;
+    questions: number;
+    competitions: number;
+    quizAnswers: number;
+    answerRevisions: number;
+    results: number;
+    timeExtensions: number;
+    questionDraws: number;
+    paperPositions: number;
+    roundArchives: number;
+    images: number;
+  };
+  errors: string[];
+  warnings: string[];
+}
+
+function timestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// Image names come from the archive, so only plain file names are accepted
+function isSafeFileName(name: string): boolean {
+  return name === path.basename(name) && !name.startsWith('.');
+}
+
+export function backupFileName(date: Date = new Date()): string {
+  return `mathmaster-backup-${timestamp(date)}.json.gz`;
+}
+
+// Build a gzipped archive of all competition data and the question images it refers to
+export async function createBackup(): Promise<Buffer> {
+  const data = await storage.exportData();
+
+  const uploads: Record<string, string> = {};
+  for (const question of data.questions) {
+    if (!question.questionImage || !isSafeFileName(question.questionImage)) continue;
+
+    const imagePath = path.join(UPLOADS_DIR, question.questionImage);
+    if (fs.existsSync(imagePath)) {
+      uploads[question.questionImage] = fs.readFileSync(imagePath).toString('base64');
+    }
+  }
+
+  const archive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date(),
+    data,
+    uploads,
+  };
+
+  return gzipAsync(JSON.stringify(archive));
+}
+
+// Drop records that point at users, questions or competitions missing from the backup,
+// as the JSON storage can leave them behind when a user or question is deleted
+function withoutOrphans(data: StorageData, warnings: string[]): StorageData {
+  const userIds = new Set(data.users.map(user => user.id));
+  const questionIds = new Set(data.questions.map(question => question.id));
+  const competitionIds = new Set(data.competitions.map(competition => competition.id));
+  const knownUser = (id: number | null) => (id !== null && userIds.has(id) ? id : null);
+
+  const keep = <T>(kind: string, items: T[], isValid: (item: T) => boolean): T[] => {
+    const kept = items.filter(isValid);
+    if (kept.length < items.length) {
+      warnings.push(`${items.length - kept.length} ${kind} refer to deleted records and will be skipped`);
+    }
+    return kept;
+  };
+
+  return {
+    ...data,
+    questions: data.questions.map(question => ({ ...question, createdBy: knownUser(question.createdBy) })),
+    competitions: data.competitions.map(competition => ({ ...competition, createdBy: knownUser(competition.createdBy) })),
+    quizSettings: keep('quiz settings', data.quizSettings, settings => competitionIds.has(settings.competitionId)),
+    quizAnswers: keep('answers', data.quizAnswers, answer =>
+      competitionIds.has(answer.competitionId) && userIds.has(answer.userId) && questionIds.has(answer.questionId)),
+    answerRevisions: keep('answer revisions', data.answerRevisions, revision =>
+      competitionIds.has(revision.competitionId) && userIds.has(revision.userId) && questionIds.has(revision.questionId)),
+    results: keep('results', data.results, result =>
+      competitionIds.has(result.competitionId) && userIds.has(result.userId)),
+    timeExtensions: keep('time extensions', data.timeExtensions, extension =>
+      competitionIds.has(extension.competitionId) && userIds.has(extension.userId))
+      .map(extension => ({ ...extension, grantedBy: knownUser(extension.grantedBy) })),
+    questionDraws: keep('question draws', data.questionDraws, draw =>
+      competitionIds.has(draw.competitionId) && userIds.has(draw.userId)),
+    paperPositions: keep('paper positions', data.paperPositions, position =>
+      competitionIds.has(position.competitionId) && userIds.has(position.userId)),
+  };
+}
+
+// Backups made before answers were kept once per question can hold several answers to
+// the same question. The latest counts, and the earlier ones become revisions.
+function withLatestAnswers(data: StorageData, warnings: string[]): StorageData {
+  const { latest, replaced } = foldRepeatedAnswers(data.quizAnswers);
+  if (replaced.length === 0) return data;
+
+  warnings.push(`${replaced.length} replaced answers will be kept as answer revisions`);
+  let nextRevisionId = Math.max(0, ...data.answerRevisions.map(revision => revision.id)) + 1;
+  return {
+    ...data,
+    quizAnswers: latest,
+    answerRevisions: [
+      ...data.answerRevisions,
+      ...replaced.map(revision => ({ ...revision, id: nextRevisionId++ })),
+    ],
+  };
+}
+
+function findDuplicates<T>(items: T[], key: (item: T) => string | number): (string | number)[] {
+  const seen = new Set<string | number>();
+  const duplicates = new Set<string | number>();
+  items.forEach(item => {
+    const value = key(item);
+    if (seen.has(value)) duplicates.add(value);
+    seen.add(value);
+  });
+  return Array.from(duplicates);
+}
+
+// Check an uploaded backup without changing anything. The archive is returned only
+// when the backup can be restored.
+export async function validateBackup(file: Buffer): Promise<{ report: RestoreReport; archive?: BackupArchive }> {
+  const report: RestoreReport = {
+    valid: false,
+    createdAt: null,
+    counts: { users: 0, questions: 0, competitions: 0, quizAnswers: 0, answerRevisions: 0, results: 0, timeExtensions: 0, questionDraws: 0, paperPositions: 0, roundArchives: 0, images: 0 },
+    errors: [],
+    warnings: [],
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse((await gunzipAsync(file)).toString('utf8'), reviveDates);
+  } catch {
+    report.errors.push("The file is not a backup archive");
+    return { report };
+  }
+
+  if ((parsed as { format?: unknown })?.format !== BACKUP_FORMAT) {
+    report.errors.push("The file is not a MathMaster backup");
+    return { report };
+  }
+
+  const result = backupArchiveSchema.safeParse(parsed);
+  if (!result.success) {
+    report.errors.push(...result.error.errors.slice(0, 10).map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    return { report };
+  }
+
+  const archive = result.data;
+  const data = withLatestAnswers(withoutOrphans(archive.data, report.warnings), report.warnings);
+  report.createdAt = archive.createdAt;
+  report.counts = {
+    users: data.users.length,
+    questions: data.questions.length,
+    competitions: data.competitions.length,
+    quizAnswers: data.quizAnswers.length,
+    answerRevisions: data.answerRevisions.length,
+    results: data.results.length,
+    timeExtensions: data.timeExtensions.length,
+    questionDraws: data.questionDraws.length,
+    paperPositions: data.paperPositions.length,
+    roundArchives: data.roundArchives.length,
+    images: Object.keys(archive.uploads).length,
+  };
+
+  const collections: [string, { id: number }[]][] = [
+    ['users', data.users],
+    ['questions', data.questions],
+    ['competitions', data.competitions],
+    ['quiz settings', data.quizSettings],
+    ['answers', data.quizAnswers],
+    ['answer revisions', data.answerRevisions],
+    ['results', data.results],
+    ['time extensions', data.timeExtensions],
+    ['question draws', data.questionDraws],
+    ['paper positions', data.paperPositions],
+    ['round archives', data.roundArchives],
+  ];
+  collections.forEach(([kind, items]) => {
+    const duplicates = findDuplicates(items, item => item.id);
+    if (duplicates.length > 0) report.errors.push(`Duplicate ${kind} ids: ${duplicates.join(', ')}`);
+  });
+
+  const duplicateUsernames = findDuplicates(data.users, user => user.username.toLowerCase());
+  if (duplicateUsernames.length > 0) {
+    report.errors.push(`Duplicate usernames: ${duplicateUsernames.join(', ')}`);
+  }
+
+  const duplicateResults = findDuplicates(data.results, result => `${result.competitionId}:${result.userId}`);
+  if (duplicateResults.length > 0) {
+    report.errors.push(`More than one result for a student (competition:user): ${duplicateResults.join(', ')}`);
+  }
+
+  const duplicateDraws = findDuplicates(data.questionDraws, draw => `${draw.competitionId}:${draw.userId}`);
+  if (duplicateDraws.length > 0) {
+    report.errors.push(`More than one question paper for a student (competition:user): ${duplicateDraws.join(', ')}`);
+  }
+
+  const duplicatePositions = findDuplicates(data.paperPositions, position => `${position.competitionId}:${position.userId}`);
+  if (duplicatePositions.length > 0) {
+    report.errors.push(`More than one paper position for a student (competition:user): ${duplicatePositions.join(', ')}`);
+  }
+
+  // Restoring would otherwise lock everyone out of the super admin panel
+  if (!data.users.some(user => user.role === 'superadmin')) {
+    report.errors.push("The backup has no super admin account");
+  }
+
+  const unsafeNames = Object.keys(archive.uploads).filter(name => !isSafeFileName(name));
+  if (unsafeNames.length > 0) {
+    report.errors.push(`Invalid image file names: ${unsafeNames.join(', ')}`);
+  }
+
+  const missingImages = data.questions.filter(question =>
+    question.questionImage && !(question.questionImage in archive.uploads));
+  if (missingImages.length > 0) {
+    report.warnings.push(`${missingImages.length} question images are not in the backup`);
+  }
+
+  report.valid = report.errors.length === 0;
+  return report.valid ? { report, archive: { ...archive, data } } : { report };
+}
+
+// Replace all competition data with a validated backup. A snapshot of the current
+// data is taken first so the restore can be undone.
+export async function restoreBackup(archive: BackupArchive): Promise<void> {
+  await writeSnapshot('pre-restore');
+
+  if (!fs.existsSync(UPLOADS_DIR)) {
+    fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  }
+  for (const [name, content] of Object.entries(archive.uploads)) {
+    fs.writeFileSync(path.join(UPLOADS_DIR, name), Buffer.from(content, 'base64'));
+  }
+
+  await storage.importData(archive.data);
+}
+
+export interface Snapshot {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+// Snapshots on disk, newest first
+export function listSnapshots(): Snapshot[] {
+  if (!fs.existsSync(SNAPSHOTS_DIR)) return [];
+
+  return fs.readdirSync(SNAPSHOTS_DIR)
+    .filter(name => SNAPSHOT_PATTERN.test(name))
+    .sort()
+    .reverse()
+    .map(name => {
+      const stats = fs.statSync(path.join(SNAPSHOTS_DIR, name));
+      return { name, size: stats.size, createdAt: stats.mtime };
+    });
+}
+
+export function snapshotPath(name: string): string | undefined {
+  if (!SNAPSHOT_PATTERN.test(name)) return undefined;
+
+  const snapshotFile = path.join(SNAPSHOTS_DIR, name);
+  return fs.existsSync(snapshotFile) ? snapshotFile : undefined;
+}
+
+async function writeSnapshot(label?: string): Promise<string> {
+  if (!fs.existsSync(SNAPSHOTS_DIR)) {
+    fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+  }
+
+  const name = `snapshot-${timestamp(new Date())}${label ? `-${label}` : ''}.json.gz`;
+  const snapshotFile = path.join(SNAPSHOTS_DIR, name);
+  const tempFile = `${snapshotFile}.tmp`;
+
+  // Written under a temporary name so an interrupted snapshot is never listed
+  fs.writeFileSync(tempFile, await createBackup());
+  fs.renameSync(tempFile, snapshotFile);
+
+  pruneSnapshots();
+  return name;
+}
+
+function pruneSnapshots(): void {
+  listSnapshots()
+    .slice(snapshotSchedule.retention)
+    .forEach(snapshot => fs.unlinkSync(path.join(SNAPSHOTS_DIR, snapshot.name)));
+}
+
+// Start taking automatic snapshots, returning a function that stops them
+export function startSnapshotSchedule(): () => void {
+  if (snapshotSchedule.intervalMinutes === 0) return () => {};
+
+  let running = false;
+
+  const interval = setInterval(async () => {
+    // Skip a snapshot rather than overlap with a slow one
+    if (running) return;
+    running = true;
+
+    try {
+      await writeSnapshot();
+    } catch (error) {
+      console.error('Snapshot error:', error);
+    } finally {
+      running = false;
+    }
+  }, snapshotSchedule.intervalMinutes * 60 * 1000);
+
+  return () => clearInterval(interval);
+}
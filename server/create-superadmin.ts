@@ -0,0 +1,42 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+
+// Create a super admin account, or reset the password of an existing one.
+// Usage: npm run create-superadmin -- <username> [password]
+// Without a password a random one is generated and printed. Either way it must be
+// changed at the first login.
+async function main() {
+  const [username, givenPassword] = process.argv.slice(2);
+  if (!username) {
+    console.error('Usage: npm run create-superadmin -- <username> [password]');
+    process.exit(1);
+  }
+
+  const password = givenPassword || randomBytes(9).toString('base64url');
+  const existingUser = await storage.getUserByUsername(username);
+
+  if (existingUser && existingUser.role !== 'superadmin') {
+    console.error(`User "${username}" already exists and is not a super admin`);
+    process.exit(1);
+  }
+
+  if (existingUser) {
+    await storage.updateUser(existingUser.id, { password, mustChangePassword: true });
+    console.log(`Reset the password of super admin "${existingUser.username}"`);
+  } else {
+    await storage.createUser({ username, password, role: 'superadmin', mustChangePassword: true });
+    console.log(`Created super admin "${username}"`);
+  }
+
+  if (!givenPassword) {
+    console.log(`Temporary password: ${password}`);
+  }
+
+  // An open Postgres connection pool would otherwise keep the process running
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Failed to create super admin:', error);
+  process.exit(1);
+});
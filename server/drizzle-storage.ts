@@ -0,0 +1,1016 @@
+import path from 'path';
+import { and, asc, desc, eq, getTableName, gte, inArray, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT, PgTable } from "drizzle-orm/pg-core";
+import { getElapsedSeconds } from "./quiz-timer";
+import { startedSettings, pausedSettings, resumedSettings, completedSettings, resetSettings } from "./quiz-transitions";
+import { scoreAnswers, rankResults, hardQuestionAccuracy, type Score } from "./scoring";
+import { hashPassword, superAdminFromEnv } from "./passwords";
+import { reviveDates } from "./json-dates";
+import { buildRoundArchive } from "./round-archives";
+import { revisionOf } from "./answer-revisions";
+import { drawPaper, paperQuestions } from "./question-pools";
+import type { IStorage, StorageData } from "./storage";
+import * as schema from "@shared/schema";
+import { users, questions, competitions, quizSettings, quizAnswers, answerRevisions, results, timeExtensions, questionDraws, paperPositions, roundArchives, loginThrottles, loginEvents, DEFAULT_SCORING_PROFILE, DEFAULT_RANKING_POLICY, DEFAULT_SCHOOL_RANKING, DEFAULT_PAPER_LAYOUT, DEFAULT_NAVIGATION_POLICY, type User, type InsertUser, type Question, type InsertQuestion, type Competition, type InsertCompetition, type QuizSetting, type InsertQuizSetting, type QuizAnswer, type InsertQuizAnswer, type AnswerRevision, type Result, type InsertResult, type TimeExtension, type InsertTimeExtension, type QuestionDraw, type PaperPosition, type InsertPaperPosition, type LoginThrottle, type LoginEvent, type InsertLoginEvent, type LoginEventQuery, type RoundArchive } from "@shared/schema";
+
+// Either the node-postgres or the embedded PGlite database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// SQL migrations generated by drizzle-kit from shared/schema.ts
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+// Quiz length used when a competition has not configured one
+const DEFAULT_QUIZ_DURATION_SECONDS = 3600;
+
+// Older login events are dropped so the table stays small, as in the JSON storage
+const MAX_LOGIN_EVENTS = 20000;
+
+// Rows per INSERT when copying data in bulk, well below Postgres' limit on query parameters
+const BATCH_SIZE = 500;
+
+// Postgres aborts a serializable transaction with one of these when it conflicts with another
+// (serialization failure, deadlock); it is then run again, up to this many times in all
+const RETRIED_ERROR_CODES = ['40001', '40P01'];
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// Tables with the JSON id counter that matches their sequence
+const COUNTED_TABLES = [
+  { table: users, counter: 'userIdCounter' },
+  { table: questions, counter: 'questionIdCounter' },
+  { table: competitions, counter: 'competitionIdCounter' },
+  { table: quizSettings, counter: 'quizSettingIdCounter' },
+  { table: quizAnswers, counter: 'quizAnswerIdCounter' },
+  { table: answerRevisions, counter: 'answerRevisionIdCounter' },
+  { table: results, counter: 'resultIdCounter' },
+  { table: timeExtensions, counter: 'timeExtensionIdCounter' },
+  { table: questionDraws, counter: 'questionDrawIdCounter' },
+  { table: paperPositions, counter: 'paperPositionIdCounter' },
+  { table: roundArchives, counter: 'roundArchiveIdCounter' },
+  { table: loginThrottles, counter: 'loginThrottleIdCounter' },
+  { table: loginEvents, counter: 'loginEventIdCounter' },
+];
+
+function isRetriedError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && RETRIED_ERROR_CODES.includes(code);
+}
+
+function isServerUrl(url: string): boolean {
+  return url.startsWith('postgres://') || url.startsWith('postgresql://');
+}
+
+// Connect to a Postgres server for postgres:// URLs; anything else is a PGlite data
+// directory ("memory://" keeps the database in memory, which suits tests)
+export async function connectDatabase(url: string): Promise<Database> {
+  if (isServerUrl(url)) {
+    const { default: pg } = await import('pg');
+    const { drizzle } = await import('drizzle-orm/node-postgres');
+    const { migrate } = await import('drizzle-orm/node-postgres/migrator');
+
+    const db = drizzle(new pg.Pool({ connectionString: url }), { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+    return db;
+  }
+
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const { migrate } = await import('drizzle-orm/pglite/migrator');
+
+  const db = drizzle(new PGlite(url), { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+  return db;
+}
+
+// Insert rows that already have their ids
+export async function insertAll(db: Database, table: PgTable, rows: Record<string, unknown>[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await db.insert(table).values(rows.slice(i, i + BATCH_SIZE));
+  }
+}
+
+// Continue each id sequence from its JSON counter, or past the highest id in use
+export async function resetSequences(db: Database, counters: Record<string, number>): Promise<void> {
+  for (const { table, counter } of COUNTED_TABLES) {
+    const name = getTableName(table);
+    await db.execute(sql.raw(
+      `select setval(pg_get_serial_sequence('${name}', 'id'), ` +
+      `greatest(${counters[counter] ?? 1}, (select coalesce(max(id), 0) + 1 from ${name})), false)`
+    ));
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  // Resolves once the database is connected and migrated
+  private db: Promise<Database>;
+  // Whether this storage works inside an open transaction
+  private nested: boolean;
+
+  // Opens the database at the URL, or works inside an open transaction
+  constructor(source: string | Database) {
+    this.nested = typeof source !== 'string';
+    if (typeof source !== 'string') {
+      this.db = Promise.resolve(source);
+      return;
+    }
+
+    this.db = connectDatabase(source).then(async db => {
+      await this.bootstrapSuperAdmin(db);
+      return db;
+    });
+
+    // Fail fast rather than on the first request
+    this.db.catch(error => {
+      console.error('Failed to open the database:', error);
+      process.exit(1);
+    });
+  }
+
+  async transaction<T>(operation: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.inTransaction(operation);
+  }
+
+  // Transactions are serializable, so none interleaves with another, and run again when
+  // Postgres aborts one for conflicting. Transactions started inside another one become
+  // savepoints within it.
+  private async inTransaction<T>(operation: (storage: DrizzleStorage) => Promise<T>): Promise<T> {
+    const db = await this.db;
+    if (this.nested) {
+      return db.transaction(tx => operation(new DrizzleStorage(tx)));
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await db.transaction(tx => operation(new DrizzleStorage(tx)), { isolationLevel: 'serializable' });
+      } catch (error) {
+        if (attempt >= MAX_TRANSACTION_ATTEMPTS || !isRetriedError(error)) throw error;
+      }
+    }
+  }
+
+  private async bootstrapSuperAdmin(db: Database): Promise<void> {
+    const [superAdmin] = await db.select({ id: users.id }).from(users).where(eq(users.role, 'superadmin')).limit(1);
+    if (superAdmin) return;
+
+    const credentials = superAdminFromEnv();
+    if (!credentials) return;
+
+    const [taken] = await db.select({ id: users.id }).from(users).where(usernameMatches(credentials.username));
+    if (taken) {
+      console.warn(`Cannot create super admin "${credentials.username}": the username is already taken`);
+      return;
+    }
+
+    // The environment password is only for the first login
+    await db.insert(users).values({
+      username: credentials.username,
+      password: await hashPassword(credentials.password),
+      role: 'superadmin',
+      mustChangePassword: true,
+    });
+    console.log(`Created super admin account "${credentials.username}"`);
+  }
+
+  private defaultSettings(competitionId: number): Omit<QuizSetting, 'id'> {
+    return {
+      competitionId,
+      state: 'waiting',
+      durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS,
+      scheduledStartTime: null,
+      startTime: null,
+      endTime: null,
+      pausedAt: null,
+      pausedSeconds: 0,
+      lastReset: null,
+      updatedAt: new Date(),
+    };
+  }
+
+  // User management
+  async getUser(id: number): Promise<User | undefined> {
+    if (!isId(id)) return undefined;
+
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(usernameMatches(username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.db;
+    const [user] = await db.insert(users).values({
+      ...insertUser,
+      password: await hashPassword(insertUser.password),
+      role: insertUser.role || 'student',
+      school: insertUser.school || null,
+      mustChangePassword: insertUser.mustChangePassword ?? false,
+    }).returning();
+
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser> & { lastLogin?: Date }): Promise<User | undefined> {
+    if (userData.password !== undefined) {
+      userData = { ...userData, password: await hashPassword(userData.password) };
+    }
+    if (!isId(id) || Object.keys(userData).length === 0) return this.getUser(id);
+
+    const db = await this.db;
+    const [user] = await db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    if (!isId(id)) return false;
+
+    const db = await this.db;
+
+    return db.transaction(async tx => {
+      // The user's own quiz records go with the account; references elsewhere are cleared
+      await tx.delete(quizAnswers).where(eq(quizAnswers.userId, id));
+      await tx.delete(answerRevisions).where(eq(answerRevisions.userId, id));
+      await tx.delete(results).where(eq(results.userId, id));
+      await tx.delete(timeExtensions).where(eq(timeExtensions.userId, id));
+      await tx.delete(questionDraws).where(eq(questionDraws.userId, id));
+      await tx.delete(paperPositions).where(eq(paperPositions.userId, id));
+      await tx.update(timeExtensions).set({ grantedBy: null }).where(eq(timeExtensions.grantedBy, id));
+      await tx.update(questions).set({ createdBy: null }).where(eq(questions.createdBy, id));
+      await tx.update(competitions).set({ createdBy: null }).where(eq(competitions.createdBy, id));
+      await tx.update(loginEvents).set({ userId: null }).where(eq(loginEvents.userId, id));
+
+      const deleted = await tx.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async listUsers(): Promise<User[]> {
+    const db = await this.db;
+    return db.select().from(users).orderBy(asc(users.id));
+  }
+
+  // Question management
+  async getQuestion(id: number): Promise<Question | undefined> {
+    if (!isId(id)) return undefined;
+
+    const db = await this.db;
+    const [question] = await db.select().from(questions).where(eq(questions.id, id));
+    return question;
+  }
+
+  async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
+    const db = await this.db;
+    const [question] = await db.insert(questions).values({
+      questionText: insertQuestion.questionText || null,
+      questionImage: insertQuestion.questionImage || null,
+      optionA: insertQuestion.optionA,
+      optionB: insertQuestion.optionB,
+      optionC: insertQuestion.optionC,
+      optionD: insertQuestion.optionD,
+      correctAnswer: insertQuestion.correctAnswer,
+      difficulty: insertQuestion.difficulty || null,
+      topic: insertQuestion.topic || null,
+      createdBy: insertQuestion.createdBy || null,
+      isImage: insertQuestion.isImage || false,
+    }).returning();
+
+    return question;
+  }
+
+  async updateQuestion(id: number, questionData: Partial<InsertQuestion>): Promise<Question | undefined> {
+    if (!isId(id) || Object.keys(questionData).length === 0) return this.getQuestion(id);
+
+    const db = await this.db;
+    const [question] = await db.update(questions).set(questionData).where(eq(questions.id, id)).returning();
+    return question;
+  }
+
+  async deleteQuestion(id: number): Promise<boolean> {
+    if (!isId(id)) return false;
+
+    const db = await this.db;
+
+    return db.transaction(async tx => {
+      // Remove the question from any competition question sets, along with its answers
+      await tx.update(competitions)
+        .set({ questionIds: sql`array_remove(${competitions.questionIds}, ${id})` })
+        .where(sql`${id} = any(${competitions.questionIds})`);
+      await tx.delete(quizAnswers).where(eq(quizAnswers.questionId, id));
+      await tx.delete(answerRevisions).where(eq(answerRevisions.questionId, id));
+
+      const deleted = await tx.delete(questions).where(eq(questions.id, id)).returning({ id: questions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async listQuestions(): Promise<Question[]> {
+    const db = await this.db;
+    return db.select().from(questions).orderBy(asc(questions.id));
+  }
+
+  // Competition management
+  async getCompetition(id: number): Promise<Competition | undefined> {
+    if (!isId(id)) return undefined;
+
+    const db = await this.db;
+    const [competition] = await db.select().from(competitions).where(eq(competitions.id, id));
+    return competition;
+  }
+
+  async createCompetition(insertCompetition: InsertCompetition): Promise<Competition> {
+    const db = await this.db;
+
+    return db.transaction(async tx => {
+      const [competition] = await tx.insert(competitions).values({
+        name: insertCompetition.name,
+        type: insertCompetition.type || 'preliminary',
+        description: insertCompetition.description || null,
+        questionIds: insertCompetition.questionIds || [],
+        questionBlueprint: insertCompetition.questionBlueprint || [],
+        paperLayout: insertCompetition.paperLayout || DEFAULT_PAPER_LAYOUT,
+        navigationPolicy: insertCompetition.navigationPolicy || DEFAULT_NAVIGATION_POLICY,
+        participantIds: insertCompetition.participantIds || [],
+        scoringProfile: insertCompetition.scoringProfile || DEFAULT_SCORING_PROFILE,
+        rankingPolicy: insertCompetition.rankingPolicy || DEFAULT_RANKING_POLICY,
+        schoolRanking: insertCompetition.schoolRanking || DEFAULT_SCHOOL_RANKING,
+        createdBy: insertCompetition.createdBy || null,
+      }).returning();
+
+      await tx.insert(quizSettings).values(this.defaultSettings(competition.id));
+      return competition;
+    });
+  }
+
+  async updateCompetition(id: number, competitionData: Partial<InsertCompetition>): Promise<Competition | undefined> {
+    if (!isId(id) || Object.keys(competitionData).length === 0) return this.getCompetition(id);
+
+    return this.inTransaction(async storage => {
+      const db = await storage.db;
+      const [competition] = await db.update(competitions).set(competitionData).where(eq(competitions.id, id)).returning();
+
+      if (competition && competitionData.scoringProfile) {
+        await storage.rescoreResults(id);
+      } else if (competition && competitionData.rankingPolicy) {
+        await storage.calculateRankings(id);
+      }
+
+      return competition;
+    });
+  }
+
+  async deleteCompetition(id: number): Promise<boolean> {
+    if (!isId(id)) return false;
+
+    const db = await this.db;
+
+    return db.transaction(async tx => {
+      // A competition owns its settings, answers, results, time extensions and papers
+      await tx.delete(quizSettings).where(eq(quizSettings.competitionId, id));
+      await tx.delete(quizAnswers).where(eq(quizAnswers.competitionId, id));
+      await tx.delete(answerRevisions).where(eq(answerRevisions.competitionId, id));
+      await tx.delete(results).where(eq(results.competitionId, id));
+      await tx.delete(timeExtensions).where(eq(timeExtensions.competitionId, id));
+      await tx.delete(questionDraws).where(eq(questionDraws.competitionId, id));
+      await tx.delete(paperPositions).where(eq(paperPositions.competitionId, id));
+
+      const deleted = await tx.delete(competitions).where(eq(competitions.id, id)).returning({ id: competitions.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async listCompetitions(): Promise<Competition[]> {
+    const db = await this.db;
+    return db.select().from(competitions).orderBy(asc(competitions.id));
+  }
+
+  async listCompetitionQuestions(competitionId: number): Promise<Question[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    const allQuestions = await this.listQuestions();
+    if (competition.questionIds.length === 0) {
+      return allQuestions;
+    }
+
+    // Keep the order in which the questions were assigned to the competition
+    return competition.questionIds
+      .map(questionId => allQuestions.find(question => question.id === questionId))
+      .filter((question): question is Question => question !== undefined);
+  }
+
+  async listCompetitionParticipants(competitionId: number): Promise<User[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    const db = await this.db;
+    const students = await db.select().from(users).where(eq(users.role, 'student')).orderBy(asc(users.id));
+    if (competition.participantIds.length === 0) {
+      return students;
+    }
+
+    return students.filter(user => competition.participantIds.includes(user.id));
+  }
+
+  // Quiz settings
+  async getQuizSettings(competitionId: number): Promise<QuizSetting | undefined> {
+    const db = await this.db;
+    const [settings] = await db.select().from(quizSettings).where(eq(quizSettings.competitionId, competitionId));
+    return settings;
+  }
+
+  // Apply a change to the competition's settings, creating them with defaults if missing
+  private async changeQuizSettings(
+    competitionId: number,
+    change: (current: QuizSetting) => QuizSetting,
+  ): Promise<QuizSetting> {
+    const db = await this.db;
+    const current = (await this.getQuizSettings(competitionId))
+      ?? (await db.insert(quizSettings).values(this.defaultSettings(competitionId)).returning())[0];
+
+    const { id, ...changes } = change(current);
+    const [settings] = await db.update(quizSettings).set(changes).where(eq(quizSettings.id, id)).returning();
+    return settings;
+  }
+
+  async createOrUpdateQuizSettings(competitionId: number, settings: Partial<InsertQuizSetting>): Promise<QuizSetting> {
+    return this.changeQuizSettings(competitionId, current => ({
+      ...current,
+      ...settings,
+      updatedAt: new Date(),
+    }));
+  }
+
+  async startQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.changeQuizSettings(competitionId, current => startedSettings(current, new Date()));
+  }
+
+  async pauseQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.changeQuizSettings(competitionId, current => pausedSettings(current, new Date()));
+  }
+
+  async resumeQuiz(competitionId: number, extraSeconds: number = 0): Promise<QuizSetting> {
+    return this.changeQuizSettings(competitionId, current => resumedSettings(current, new Date(), extraSeconds));
+  }
+
+  async scheduleQuiz(competitionId: number, scheduledStartTime: Date | null): Promise<QuizSetting> {
+    return this.changeQuizSettings(competitionId, current => ({
+      ...current,
+      scheduledStartTime,
+      updatedAt: new Date(),
+    }));
+  }
+
+  async endQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.inTransaction(async storage => {
+      const settings = await storage.changeQuizSettings(competitionId, current => completedSettings(current, new Date()));
+      await storage.finalizeResults(competitionId);
+
+      return settings;
+    });
+  }
+
+  private async finalizeResults(competitionId: number): Promise<void> {
+    // Every student taking part, and anyone else who answered, such as a student since removed
+    // from the participant list. Students who answered nothing get a result with no answers.
+    const userIds = new Set([
+      ...(await this.listCompetitionParticipants(competitionId)).map(student => student.id),
+      ...(await this.listQuizAnswers(competitionId)).map(answer => answer.userId),
+    ]);
+
+    for (const userId of Array.from(userIds)) {
+      if (await this.getResult(competitionId, userId)) {
+        // Rescore submitted results against the final answer key
+        await this.updateResult(competitionId, userId, {});
+      } else {
+        // Students who never pressed "Finish Quiz" used all of the available time
+        await this.submitResult(competitionId, userId);
+      }
+    }
+
+    await this.calculateRankings(competitionId);
+  }
+
+  async resetQuiz(competitionId: number, archiveName?: string): Promise<QuizSetting> {
+    return this.inTransaction(async storage => {
+      let finished!: QuizSetting;
+      const settings = await storage.changeQuizSettings(competitionId, current => {
+        finished = current;
+        return resetSettings(current, new Date());
+      });
+
+      // Keep the finished round before its answers and results are cleared
+      const db = await storage.db;
+      const competition = await storage.getCompetition(competitionId);
+      const archive = competition && buildRoundArchive(
+        competition,
+        finished,
+        await storage.listQuizAnswers(competitionId),
+        await storage.listResults(competitionId),
+        await storage.listUsers(),
+        archiveName,
+      );
+      if (archive) {
+        await db.insert(roundArchives).values(archive);
+      }
+
+      // Clear the competition's results and answers, and draw new papers for the next round
+      // that students start from the first page of
+      await db.delete(quizAnswers).where(eq(quizAnswers.competitionId, competitionId));
+      await db.delete(answerRevisions).where(eq(answerRevisions.competitionId, competitionId));
+      await db.delete(results).where(eq(results.competitionId, competitionId));
+      await db.delete(questionDraws).where(eq(questionDraws.competitionId, competitionId));
+      await db.delete(paperPositions).where(eq(paperPositions.competitionId, competitionId));
+
+      return settings;
+    });
+  }
+
+  // Quiz answers
+  async saveQuizAnswer(insertAnswer: InsertQuizAnswer): Promise<QuizAnswer> {
+    // Find the question to check if the answer is correct
+    const question = await this.getQuestion(insertAnswer.questionId);
+    const isCorrect = question ? (question.correctAnswer === insertAnswer.userAnswer) : false;
+
+    const now = new Date();
+    const choice = {
+      userAnswer: insertAnswer.userAnswer || null,
+      isCorrect,
+      responseTimeSeconds: insertAnswer.responseTimeSeconds ?? null,
+      timeSpentSeconds: insertAnswer.timeSpentSeconds ?? null,
+      updatedAt: now,
+    };
+
+    return this.inTransaction(async storage => {
+      const db = await storage.db;
+      const [inserted] = await db.insert(quizAnswers)
+        .values({ ...insertAnswer, ...choice, createdAt: now })
+        .onConflictDoNothing()
+        .returning();
+      if (inserted) return inserted;
+
+      // The student answered this question before; the row is locked until the change commits
+      const [existing] = await db.select().from(quizAnswers)
+        .where(and(
+          eq(quizAnswers.competitionId, insertAnswer.competitionId),
+          eq(quizAnswers.userId, insertAnswer.userId),
+          eq(quizAnswers.questionId, insertAnswer.questionId),
+        ))
+        .for('update');
+      if (existing.userAnswer === choice.userAnswer) {
+        const timeSpentSeconds = choice.timeSpentSeconds ?? existing.timeSpentSeconds;
+        if (timeSpentSeconds === existing.timeSpentSeconds) return existing;
+
+        const [answer] = await db.update(quizAnswers).set({ timeSpentSeconds }).where(eq(quizAnswers.id, existing.id)).returning();
+        return answer;
+      }
+
+      await db.insert(answerRevisions).values(revisionOf(existing, now));
+
+      const [answer] = await db.update(quizAnswers).set(choice).where(eq(quizAnswers.id, existing.id)).returning();
+      return answer;
+    });
+  }
+
+  async getQuizAnswersForUser(competitionId: number, userId: number): Promise<QuizAnswer[]> {
+    const db = await this.db;
+    return db.select().from(quizAnswers)
+      .where(and(eq(quizAnswers.competitionId, competitionId), eq(quizAnswers.userId, userId)))
+      .orderBy(asc(quizAnswers.id));
+  }
+
+  async listQuizAnswers(competitionId: number): Promise<QuizAnswer[]> {
+    const db = await this.db;
+    return db.select().from(quizAnswers)
+      .where(eq(quizAnswers.competitionId, competitionId))
+      .orderBy(asc(quizAnswers.id));
+  }
+
+  async listAnswerRevisions(competitionId: number, userId?: number): Promise<AnswerRevision[]> {
+    const conditions: SQL[] = [eq(answerRevisions.competitionId, competitionId)];
+    if (userId !== undefined) conditions.push(eq(answerRevisions.userId, userId));
+
+    const db = await this.db;
+    return db.select().from(answerRevisions)
+      .where(and(...conditions))
+      .orderBy(asc(answerRevisions.id));
+  }
+
+  // Results
+  async getResult(competitionId: number, userId: number): Promise<Result | undefined> {
+    const db = await this.db;
+    const [result] = await db.select().from(results)
+      .where(and(eq(results.competitionId, competitionId), eq(results.userId, userId)));
+    return result;
+  }
+
+  async calculateScore(competitionId: number, userId: number): Promise<Score> {
+    const userAnswers = await this.getQuizAnswersForUser(competitionId, userId);
+    const competition = await this.getCompetition(competitionId);
+
+    // Graded against the questions the student was served
+    const questions = paperQuestions(
+      await this.listCompetitionQuestions(competitionId),
+      competition?.questionBlueprint ?? [],
+      await this.getQuestionDraw(competitionId, userId),
+    );
+
+    return scoreAnswers(userAnswers, questions, competition?.scoringProfile);
+  }
+
+  // The questions each student was served, by user id
+  private async servedPapers(competitionId: number, userIds: number[]): Promise<Map<number, Question[]>> {
+    const competition = await this.getCompetition(competitionId);
+    const questions = await this.listCompetitionQuestions(competitionId);
+
+    const papers = new Map<number, Question[]>();
+    for (const userId of userIds) {
+      papers.set(userId, paperQuestions(questions, competition?.questionBlueprint ?? [], await this.getQuestionDraw(competitionId, userId)));
+    }
+    return papers;
+  }
+
+  async saveResult(insertResult: InsertResult): Promise<Result> {
+    return this.inTransaction(async storage => {
+      // Recalculate the score server-side to ensure accuracy
+      const calculatedScore = await storage.calculateScore(insertResult.competitionId, insertResult.userId);
+
+      const db = await storage.db;
+      const [result] = await db.insert(results).values({
+        ...insertResult,
+        // Override submitted values with server-calculated values for security
+        ...calculatedScore,
+        completionTime: insertResult.completionTime ?? null,
+        rank: null,
+      }).returning();
+
+      // Calculate rankings
+      await storage.calculateRankings(insertResult.competitionId);
+
+      return (await storage.getResult(result.competitionId, result.userId)) as Result;
+    });
+  }
+
+  async submitResult(competitionId: number, userId: number): Promise<Result | undefined> {
+    return this.inTransaction(async storage => {
+      const settings = await storage.getQuizSettings(competitionId);
+      const extension = await storage.getTimeExtension(competitionId, userId);
+      const calculatedScore = await storage.calculateScore(competitionId, userId);
+
+      // A concurrent submission that got there first wins
+      const db = await storage.db;
+      const [result] = await db.insert(results).values({
+        competitionId,
+        userId,
+        ...calculatedScore,
+        completionTime: settings ? getElapsedSeconds(settings, new Date(), extension?.extraSeconds) : null,
+        rank: null,
+      }).onConflictDoNothing().returning();
+      if (!result) return undefined;
+
+      await storage.calculateRankings(competitionId);
+
+      return storage.getResult(competitionId, userId);
+    });
+  }
+
+  async updateResult(competitionId: number, userId: number, resultData: Partial<InsertResult>): Promise<Result | undefined> {
+    return this.inTransaction(async storage => {
+      const existing = await storage.getResult(competitionId, userId);
+      if (!existing) return undefined;
+
+      // Recalculate the score server-side, as in saveResult
+      const calculatedScore = await storage.calculateScore(competitionId, userId);
+
+      const db = await storage.db;
+      await db.update(results).set({
+        completionTime: resultData.completionTime ?? existing.completionTime,
+        ...calculatedScore,
+      }).where(eq(results.id, existing.id));
+
+      await storage.calculateRankings(competitionId);
+
+      return storage.getResult(competitionId, userId);
+    });
+  }
+
+  async listResults(competitionId: number): Promise<Result[]> {
+    const db = await this.db;
+    return db.select().from(results).where(eq(results.competitionId, competitionId)).orderBy(asc(results.id));
+  }
+
+  private async rescoreResults(competitionId: number): Promise<void> {
+    const db = await this.db;
+    for (const result of await this.listResults(competitionId)) {
+      await db.update(results)
+        .set(await this.calculateScore(competitionId, result.userId))
+        .where(eq(results.id, result.id));
+    }
+
+    await this.calculateRankings(competitionId);
+  }
+
+  async calculateRankings(competitionId: number): Promise<void> {
+    const competition = await this.getCompetition(competitionId);
+    const policy = competition?.rankingPolicy ?? DEFAULT_RANKING_POLICY;
+    const competitionResults = await this.listResults(competitionId);
+    const hardAccuracy = policy.tieBreakers.includes('hardAccuracy')
+      ? hardQuestionAccuracy(
+        await this.listQuizAnswers(competitionId),
+        await this.servedPapers(competitionId, competitionResults.map(result => result.userId)),
+      )
+      : undefined;
+    const ranks = rankResults(competitionResults, policy, hardAccuracy);
+
+    const db = await this.db;
+    await db.transaction(async tx => {
+      for (const [resultId, rank] of Array.from(ranks)) {
+        await tx.update(results).set({ rank }).where(eq(results.id, resultId));
+      }
+    });
+  }
+
+  // Time extensions
+  async getTimeExtension(competitionId: number, userId: number): Promise<TimeExtension | undefined> {
+    const db = await this.db;
+    const [extension] = await db.select().from(timeExtensions)
+      .where(and(eq(timeExtensions.competitionId, competitionId), eq(timeExtensions.userId, userId)));
+    return extension;
+  }
+
+  async setTimeExtension(insertExtension: InsertTimeExtension): Promise<TimeExtension> {
+    const now = new Date();
+    const changes = {
+      extraSeconds: insertExtension.extraSeconds,
+      reason: insertExtension.reason ?? null,
+      grantedBy: insertExtension.grantedBy ?? null,
+      updatedAt: now,
+    };
+
+    const db = await this.db;
+    const [extension] = await db.insert(timeExtensions)
+      .values({
+        competitionId: insertExtension.competitionId,
+        userId: insertExtension.userId,
+        ...changes,
+        createdAt: now,
+      })
+      .onConflictDoUpdate({ target: [timeExtensions.competitionId, timeExtensions.userId], set: changes })
+      .returning();
+
+    return extension;
+  }
+
+  async deleteTimeExtension(competitionId: number, userId: number): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(timeExtensions)
+      .where(and(eq(timeExtensions.competitionId, competitionId), eq(timeExtensions.userId, userId)))
+      .returning({ id: timeExtensions.id });
+
+    return deleted.length > 0;
+  }
+
+  async listTimeExtensions(competitionId: number): Promise<TimeExtension[]> {
+    const db = await this.db;
+    return db.select().from(timeExtensions)
+      .where(eq(timeExtensions.competitionId, competitionId))
+      .orderBy(asc(timeExtensions.id));
+  }
+
+  // Question papers
+  private async getQuestionDraw(competitionId: number, userId: number): Promise<QuestionDraw | undefined> {
+    const db = await this.db;
+    const [draw] = await db.select().from(questionDraws)
+      .where(and(eq(questionDraws.competitionId, competitionId), eq(questionDraws.userId, userId)));
+    return draw;
+  }
+
+  async getQuestionPaper(competitionId: number, userId: number): Promise<Question[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    const questions = await this.listCompetitionQuestions(competitionId);
+    const blueprint = competition.questionBlueprint;
+
+    let draw = await this.getQuestionDraw(competitionId, userId);
+    if (!draw && blueprint.length > 0) {
+      // When two requests draw at once, the first paper saved is the one kept
+      const db = await this.db;
+      await db.insert(questionDraws)
+        .values({ competitionId, userId, questionIds: drawPaper(questions, blueprint) })
+        .onConflictDoNothing();
+      draw = await this.getQuestionDraw(competitionId, userId);
+    }
+
+    return paperQuestions(questions, blueprint, draw);
+  }
+
+  // Paper positions
+  async getPaperPosition(competitionId: number, userId: number): Promise<PaperPosition | undefined> {
+    const db = await this.db;
+    const [position] = await db.select().from(paperPositions)
+      .where(and(eq(paperPositions.competitionId, competitionId), eq(paperPositions.userId, userId)));
+    return position;
+  }
+
+  async savePaperPosition(insertPosition: InsertPaperPosition): Promise<PaperPosition> {
+    const changes = {
+      page: insertPosition.page ?? 0,
+      pageStartSeconds: insertPosition.pageStartSeconds ?? 0,
+      sectionStartSeconds: insertPosition.sectionStartSeconds ?? 0,
+      lastAnswerSeconds: insertPosition.lastAnswerSeconds ?? null,
+      updatedAt: new Date(),
+    };
+
+    const db = await this.db;
+    const [position] = await db.insert(paperPositions)
+      .values({ competitionId: insertPosition.competitionId, userId: insertPosition.userId, ...changes })
+      .onConflictDoUpdate({
+        target: [paperPositions.competitionId, paperPositions.userId],
+        set: changes,
+      })
+      .returning();
+    return position;
+  }
+
+  // Round archives
+  async listRoundArchives(competitionId?: number): Promise<RoundArchive[]> {
+    if (competitionId !== undefined && !isId(competitionId)) return [];
+
+    const db = await this.db;
+    const archives = await db.select().from(roundArchives)
+      .where(competitionId === undefined ? undefined : eq(roundArchives.competitionId, competitionId))
+      .orderBy(desc(roundArchives.id));
+    return archives.map(reviveArchive);
+  }
+
+  async getRoundArchive(id: number): Promise<RoundArchive | undefined> {
+    if (!isId(id)) return undefined;
+
+    const db = await this.db;
+    const [archive] = await db.select().from(roundArchives).where(eq(roundArchives.id, id));
+    return archive && reviveArchive(archive);
+  }
+
+  // Login throttling
+  async getLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<LoginThrottle | undefined> {
+    const db = await this.db;
+    const [throttle] = await db.select().from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    return throttle;
+  }
+
+  async saveLoginThrottle(throttleData: Omit<LoginThrottle, 'id'>): Promise<LoginThrottle> {
+    const db = await this.db;
+    const [throttle] = await db.insert(loginThrottles)
+      .values(throttleData)
+      .onConflictDoUpdate({ target: [loginThrottles.scope, loginThrottles.key], set: throttleData })
+      .returning();
+
+    return throttle;
+  }
+
+  async deleteLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+      .returning({ id: loginThrottles.id });
+
+    return deleted.length > 0;
+  }
+
+  async listLoginThrottles(): Promise<LoginThrottle[]> {
+    const db = await this.db;
+    return db.select().from(loginThrottles).orderBy(asc(loginThrottles.id));
+  }
+
+  // Login audit log
+  async recordLoginEvent(insertEvent: InsertLoginEvent): Promise<LoginEvent> {
+    const db = await this.db;
+    const [event] = await db.insert(loginEvents).values({
+      type: insertEvent.type,
+      userId: insertEvent.userId ?? null,
+      username: insertEvent.username,
+      role: insertEvent.role ?? null,
+      school: insertEvent.school ?? null,
+      ipAddress: insertEvent.ipAddress ?? null,
+      userAgent: insertEvent.userAgent ?? null,
+      reason: insertEvent.reason ?? null,
+    }).returning();
+
+    await db.delete(loginEvents).where(lte(loginEvents.id, event.id - MAX_LOGIN_EVENTS));
+
+    return event;
+  }
+
+  async listLoginEvents(query: LoginEventQuery): Promise<LoginEvent[]> {
+    const conditions: SQL[] = [];
+    if (query.type) conditions.push(eq(loginEvents.type, query.type));
+    if (query.role) conditions.push(eq(loginEvents.role, query.role));
+    if (query.school) conditions.push(eq(loginEvents.school, query.school));
+    if (query.userId !== undefined) conditions.push(eq(loginEvents.userId, query.userId));
+    if (query.username) conditions.push(sql`lower(${loginEvents.username}) = lower(${query.username})`);
+    if (query.from) conditions.push(gte(loginEvents.createdAt, query.from));
+    if (query.to) conditions.push(lte(loginEvents.createdAt, query.to));
+
+    const db = await this.db;
+    return db.select().from(loginEvents)
+      .where(and(...conditions))
+      .orderBy(desc(loginEvents.id))
+      .limit(query.limit);
+  }
+
+  // Backups
+  async exportData(): Promise<StorageData> {
+    return this.inTransaction(async storage => {
+      const db = await storage.db;
+      const counters: Record<string, number> = {};
+      for (const { table, counter } of COUNTED_TABLES) {
+        const [{ next }] = await db.select({ next: sql<number>`coalesce(max(${table.id}), 0) + 1` }).from(table);
+        counters[counter] = Number(next);
+      }
+
+      return {
+        users: await db.select().from(users).orderBy(asc(users.id)),
+        questions: await db.select().from(questions).orderBy(asc(questions.id)),
+        competitions: await db.select().from(competitions).orderBy(asc(competitions.id)),
+        quizSettings: await db.select().from(quizSettings).orderBy(asc(quizSettings.id)),
+        quizAnswers: await db.select().from(quizAnswers).orderBy(asc(quizAnswers.id)),
+        answerRevisions: await db.select().from(answerRevisions).orderBy(asc(answerRevisions.id)),
+        results: await db.select().from(results).orderBy(asc(results.id)),
+        timeExtensions: await db.select().from(timeExtensions).orderBy(asc(timeExtensions.id)),
+        questionDraws: await db.select().from(questionDraws).orderBy(asc(questionDraws.id)),
+        paperPositions: await db.select().from(paperPositions).orderBy(asc(paperPositions.id)),
+        roundArchives: (await db.select().from(roundArchives).orderBy(asc(roundArchives.id))).map(reviveArchive),
+        counters,
+      };
+    });
+  }
+
+  async importData(data: StorageData): Promise<void> {
+    return this.inTransaction(async storage => {
+      const db = await storage.db;
+
+      // Audit events are unlinked while the users are replaced
+      const linkedEvents = await db.select({ id: loginEvents.id, userId: loginEvents.userId })
+        .from(loginEvents)
+        .where(isNotNull(loginEvents.userId));
+      await db.update(loginEvents).set({ userId: null }).where(isNotNull(loginEvents.userId));
+
+      await db.delete(roundArchives);
+      await db.delete(paperPositions);
+      await db.delete(questionDraws);
+      await db.delete(timeExtensions);
+      await db.delete(results);
+      await db.delete(answerRevisions);
+      await db.delete(quizAnswers);
+      await db.delete(quizSettings);
+      await db.delete(competitions);
+      await db.delete(questions);
+      await db.delete(users);
+
+      await insertAll(db, users, data.users);
+      await insertAll(db, questions, data.questions);
+      await insertAll(db, competitions, data.competitions);
+      await insertAll(db, quizSettings, data.quizSettings);
+      await insertAll(db, quizAnswers, data.quizAnswers);
+      await insertAll(db, answerRevisions, data.answerRevisions);
+      await insertAll(db, results, data.results);
+      await insertAll(db, timeExtensions, data.timeExtensions);
+      await insertAll(db, questionDraws, data.questionDraws);
+      await insertAll(db, paperPositions, data.paperPositions);
+      await insertAll(db, roundArchives, data.roundArchives);
+      await resetSequences(db, data.counters);
+
+      // and linked again to the accounts that were restored
+      const restoredIds = new Set(data.users.map(user => user.id));
+      const eventsByUser = new Map<number, number[]>();
+      linkedEvents.forEach(event => {
+        if (event.userId === null || !restoredIds.has(event.userId)) return;
+        eventsByUser.set(event.userId, [...(eventsByUser.get(event.userId) ?? []), event.id]);
+      });
+      for (const [userId, eventIds] of Array.from(eventsByUser)) {
+        for (let i = 0; i < eventIds.length; i += BATCH_SIZE) {
+          await db.update(loginEvents).set({ userId }).where(inArray(loginEvents.id, eventIds.slice(i, i + BATCH_SIZE)));
+        }
+      }
+    });
+  }
+}
+
+// Dates inside jsonb columns are read back as ISO strings
+function reviveArchive(archive: RoundArchive): RoundArchive {
+  return JSON.parse(JSON.stringify(archive), reviveDates);
+}
+
+// Ids parsed from request paths may be NaN, which Postgres rejects rather than matching nothing
+function isId(id: number): boolean {
+  return Number.isInteger(id);
+}
+
+// Usernames are matched case-insensitively, as in the JSON storage
+function usernameMatches(username: string): SQL {
+  return sql`lower(${users.username}) = lower(${username})`;
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { storage, JsonStorage } from "./storage";
+import { connectDatabase, insertAll, resetSequences } from "./drizzle-storage";
+import { users, questions, competitions, quizSettings, quizAnswers, answerRevisions, results, timeExtensions, questionDraws, paperPositions, roundArchives, loginThrottles, loginEvents, schoolEnum } from "@shared/schema";
+
+// Copy the JSON data files into an empty database, keeping every id.
+// Usage: DATABASE_URL=<postgres:// URL or PGlite directory> npm run db:import
+// Afterwards start the server with STORAGE=postgres and the same DATABASE_URL.
+
+const COUNTERS_FILE = path.join(process.cwd(), 'data', 'counters.json');
+
+async function main() {
+  if (!(storage instanceof JsonStorage)) {
+    console.error('The importer reads the JSON files; run it without STORAGE=postgres');
+    process.exit(1);
+  }
+
+  const url = process.env.DATABASE_URL || path.join(process.cwd(), 'data', 'pglite');
+  const db = await connectDatabase(url);
+
+  const [existing] = await db.select({ id: users.id }).from(users).limit(1);
+  if (existing) {
+    console.error('The database already has users; import into an empty database');
+    process.exit(1);
+  }
+
+  const counters: Record<string, number> = fs.existsSync(COUNTERS_FILE)
+    ? JSON.parse(fs.readFileSync(COUNTERS_FILE, 'utf8'))
+    : {};
+
+  const userList = await storage.listUsers();
+  const questionList = await storage.listQuestions();
+  const competitionList = await storage.listCompetitions();
+
+  const userIds = new Set(userList.map(user => user.id));
+  const questionIds = new Set(questionList.map(question => question.id));
+  const competitionIds = new Set(competitionList.map(competition => competition.id));
+  const schools = new Set<string>(schoolEnum.enumValues);
+  const knownUser = (id: number | null) => (id !== null && userIds.has(id) ? id : null);
+
+  // Records pointing at deleted users, questions or competitions cannot be imported
+  const skipped = (kind: string, count: number) => {
+    if (count > 0) console.warn(`Skipped ${count} ${kind} belonging to deleted records`);
+  };
+
+  await db.transaction(async tx => {
+    await insertAll(tx, users, userList.map(user => {
+      if (user.school && !schools.has(user.school)) {
+        console.warn(`User "${user.username}" has an unknown school "${user.school}"; it was cleared`);
+        return { ...user, school: null };
+      }
+      return user;
+    }));
+
+    await insertAll(tx, questions, questionList.map(question => ({
+      ...question,
+      createdBy: knownUser(question.createdBy),
+    })));
+
+    await insertAll(tx, competitions, competitionList.map(competition => ({
+      ...competition,
+      createdBy: knownUser(competition.createdBy),
+    })));
+
+    let answerCount = 0;
+    for (const competition of competitionList) {
+      const settings = await storage.getQuizSettings(competition.id);
+      if (settings) await insertAll(tx, quizSettings, [settings]);
+
+      const answers = await storage.listQuizAnswers(competition.id);
+      const importedAnswers = answers.filter(answer => userIds.has(answer.userId) && questionIds.has(answer.questionId));
+      skipped('answers', answers.length - importedAnswers.length);
+      await insertAll(tx, quizAnswers, importedAnswers);
+      answerCount += importedAnswers.length;
+
+      const revisions = await storage.listAnswerRevisions(competition.id);
+      const importedRevisions = revisions.filter(revision => userIds.has(revision.userId) && questionIds.has(revision.questionId));
+      skipped('answer revisions', revisions.length - importedRevisions.length);
+      await insertAll(tx, answerRevisions, importedRevisions);
+
+      const competitionResults = await storage.listResults(competition.id);
+      const importedResults = competitionResults.filter(result => userIds.has(result.userId));
+      skipped('results', competitionResults.length - importedResults.length);
+      await insertAll(tx, results, importedResults);
+
+      const extensions = await storage.listTimeExtensions(competition.id);
+      const importedExtensions = extensions.filter(extension => userIds.has(extension.userId));
+      skipped('time extensions', extensions.length - importedExtensions.length);
+      await insertAll(tx, timeExtensions, importedExtensions.map(extension => ({
+        ...extension,
+        grantedBy: knownUser(extension.grantedBy),
+      })));
+    }
+
+    const { questionDraws: draws, paperPositions: positions } = await storage.exportData();
+    const importedDraws = draws.filter(draw => competitionIds.has(draw.competitionId) && userIds.has(draw.userId));
+    skipped('question papers', draws.length - importedDraws.length);
+    await insertAll(tx, questionDraws, importedDraws);
+
+    const importedPositions = positions.filter(position =>
+      competitionIds.has(position.competitionId) && userIds.has(position.userId));
+    skipped('paper positions', positions.length - importedPositions.length);
+    await insertAll(tx, paperPositions, importedPositions);
+
+    // Archives keep the ids of deleted records, as they are copies
+    const archives = await storage.listRoundArchives();
+    await insertAll(tx, roundArchives, archives);
+
+    await insertAll(tx, loginThrottles, await storage.listLoginThrottles());
+
+    // The audit log is listed newest first; insert it in the order it was recorded
+    const events = await storage.listLoginEvents({ limit: Number.MAX_SAFE_INTEGER });
+    await insertAll(tx, loginEvents, events.reverse().map(event => ({
+      ...event,
+      userId: knownUser(event.userId),
+    })));
+
+    await resetSequences(tx, counters);
+
+    console.log(`Imported ${userList.length} users, ${questionList.length} questions, ` +
+      `${competitionList.length} competitions, ${answerCount} answers, ${archives.length} archived rounds ` +
+      `and ${events.length} login events`);
+  });
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Failed to import the JSON data:', error);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+// Parse ISO dates back to Date objects
+export function reviveDates(key: string, value: unknown): unknown {
+  if (typeof value === 'string' &&
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.*Z$/.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
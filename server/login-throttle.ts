@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import type { LoginThrottle } from "@shared/schema";
+
+type ThrottleScope = LoginThrottle['scope'];
+
+interface ThrottlePolicy {
+  // Failures allowed before any delay is imposed
+  freeAttempts: number;
+  // Failures after which the key is locked out
+  lockoutAfter: number;
+}
+
+// Failures older than this no longer count
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+
+// Whole schools often share one address, so IPs get far more room than usernames
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  username: { freeAttempts: 3, lockoutAfter: 8 },
+  ip: { freeAttempts: 20, lockoutAfter: 100 },
+};
+
+export interface LoginBlock {
+  scope: ThrottleScope;
+  blockedUntil: Date;
+}
+
+export function usernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// Whether the throttle still has failures inside the window or an unexpired block
+export function isThrottleActive(throttle: LoginThrottle, now: Date = new Date()): boolean {
+  if (throttle.blockedUntil && new Date(throttle.blockedUntil) > now) return true;
+  if (!throttle.lastFailureAt) return false;
+
+  return now.getTime() - new Date(throttle.lastFailureAt).getTime() < FAILURE_WINDOW_MS;
+}
+
+// Whether the throttle is serving a full lockout rather than a short delay
+export function isLockedOut(throttle: LoginThrottle, now: Date = new Date()): boolean {
+  return throttle.failureCount >= POLICIES[throttle.scope].lockoutAfter &&
+    !!throttle.blockedUntil && new Date(throttle.blockedUntil) > now;
+}
+
+// Delay after the given number of consecutive failures: none at first, then doubling
+// from two seconds, then a full lockout
+function blockDuration(scope: ThrottleScope, failureCount: number): number {
+  const policy = POLICIES[scope];
+  if (failureCount >= policy.lockoutAfter) return LOCKOUT_MS;
+  if (failureCount <= policy.freeAttempts) return 0;
+
+  return Math.min(1000 * 2 ** (failureCount - policy.freeAttempts), MAX_DELAY_MS);
+}
+
+// The block that currently applies to a login for this username from this address, if any
+export async function getLoginBlock(username: string, ipAddress: string, now: Date = new Date()): Promise<LoginBlock | null> {
+  const throttles = [
+    await storage.getLoginThrottle('username', usernameKey(username)),
+    await storage.getLoginThrottle('ip', ipAddress),
+  ];
+
+  let block: LoginBlock | null = null;
+  for (const throttle of throttles) {
+    if (!throttle?.blockedUntil || new Date(throttle.blockedUntil) <= now) continue;
+
+    const blockedUntil = new Date(throttle.blockedUntil);
+    if (!block || blockedUntil > block.blockedUntil) {
+      block = { scope: throttle.scope, blockedUntil };
+    }
+  }
+
+  return block;
+}
+
+async function countFailure(scope: ThrottleScope, key: string, now: Date): Promise<LoginThrottle> {
+  const existing = await storage.getLoginThrottle(scope, key);
+  const failureCount = existing && isThrottleActive(existing, now) ? existing.failureCount + 1 : 1;
+  const duration = blockDuration(scope, failureCount);
+
+  return storage.saveLoginThrottle({
+    scope,
+    key,
+    failureCount,
+    lastFailureAt: now,
+    blockedUntil: duration > 0 ? new Date(now.getTime() + duration) : null,
+  });
+}
+
+// Count a failed login against both the username and the address
+export async function registerLoginFailure(username: string, ipAddress: string): Promise<void> {
+  const now = new Date();
+
+  await countFailure('username', usernameKey(username), now);
+  await countFailure('ip', ipAddress, now);
+}
+
+// A successful login clears the username's failures; the address keeps its count
+// because other people may be failing from it
+export async function clearLoginFailures(username: string): Promise<void> {
+  await storage.deleteLoginThrottle('username', usernameKey(username));
+}
@@ -0,0 +1,144 @@
+import type { NavigationPolicy, PaperLayout, PaperPosition, PaperStructure, Question } from "@shared/schema";
+
+// Answers sent just before a page closes may arrive slightly after it
+const PAGE_GRACE_SECONDS = 2;
+
+// Where a student is in their paper, in seconds of quiz time
+export type PaperClock = Pick<PaperPosition, 'page' | 'pageStartSeconds' | 'sectionStartSeconds'>;
+
+function toPages(questionIds: number[], perPage: number): number[][] {
+  const pages: number[][] = [];
+  for (let i = 0; i < questionIds.length; i += perPage) {
+    pages.push(questionIds.slice(i, i + perPage));
+  }
+  return pages;
+}
+
+// Split a paper, in the order it is served, into the layout's sections and pages. Sections
+// the paper is too short to reach are left out, and a page never spans two sections. Time
+// limits are dropped for free navigation, where students could return to a closed page.
+export function layOutPaper(questions: Pick<Question, 'id'>[], layout: PaperLayout, policy: NavigationPolicy): PaperStructure {
+  const timed = policy.mode === 'forward';
+  const perPage = layout.display === 'single' ? 1 : layout.questionsPerPage;
+  const questionIds = questions.map(question => question.id);
+  const sections: PaperStructure['sections'] = [];
+
+  let start = 0;
+  layout.sections.forEach(section => {
+    const sectionIds = questionIds.slice(start, start + section.questionCount);
+    start += section.questionCount;
+    if (sectionIds.length > 0) {
+      sections.push({
+        name: section.name,
+        pages: toPages(sectionIds, perPage),
+        timeLimitSeconds: timed ? section.timeLimitSeconds : null,
+      });
+    }
+  });
+
+  const rest = questionIds.slice(start);
+  if (rest.length > 0) {
+    sections.push({ name: null, pages: toPages(rest, perPage), timeLimitSeconds: null });
+  }
+
+  return {
+    display: layout.display,
+    sections,
+    questionTimeLimitSeconds: timed ? layout.questionTimeLimitSeconds : null,
+    currentPage: 0,
+    secondsLeftOnPage: null,
+  };
+}
+
+// Why the layout's time limits cannot be kept under the navigation policy, if they cannot
+export function timeLimitConflict(layout: PaperLayout, policy: NavigationPolicy): string | undefined {
+  const timed = layout.questionTimeLimitSeconds !== null || layout.sections.some(section => section.timeLimitSeconds !== null);
+  if (timed && policy.mode !== 'forward') {
+    return 'Time limits need forward-only navigation, since students could go back to a page that has closed.';
+  }
+  return undefined;
+}
+
+// The pages across sections, with the index of the section each one is in
+function flatPages(structure: PaperStructure): { section: number; questionIds: number[] }[] {
+  return structure.sections.flatMap((section, index) =>
+    section.pages.map(questionIds => ({ section: index, questionIds })));
+}
+
+// Index of the page holding the question, counting across sections, or -1 when the
+// question is not on the paper
+export function pageOf(structure: PaperStructure, questionId: number): number {
+  return flatPages(structure).findIndex(page => page.questionIds.includes(questionId));
+}
+
+// The last page, for pages past the end of the paper
+export function clampPage(structure: PaperStructure, page: number): number {
+  return Math.max(0, Math.min(page, flatPages(structure).length - 1));
+}
+
+// The student's clock once they open the given page at the given moment. Staying in the
+// same section keeps the section's clock running.
+export function openPage(structure: PaperStructure, clock: PaperClock | undefined, page: number, nowSeconds: number): PaperClock {
+  const pages = flatPages(structure);
+  const sameSection = clock !== undefined && pages[clock.page]?.section === pages[page]?.section;
+
+  return {
+    page,
+    pageStartSeconds: nowSeconds,
+    sectionStartSeconds: sameSection ? clock.sectionStartSeconds : nowSeconds,
+  };
+}
+
+// When the page the clock is on closes, in seconds of quiz time: once the time for its
+// questions is used up or its section runs out of time, whichever comes first. Null when
+// the page has no time limit.
+export function pageDeadline(structure: PaperStructure, clock: PaperClock): number | null {
+  const page = flatPages(structure)[clock.page];
+  if (!page) return null;
+
+  const deadlines: number[] = [];
+  if (structure.questionTimeLimitSeconds !== null) {
+    deadlines.push(clock.pageStartSeconds + structure.questionTimeLimitSeconds * page.questionIds.length);
+  }
+  const sectionLimit = structure.sections[page.section].timeLimitSeconds;
+  if (sectionLimit !== null) {
+    deadlines.push(clock.sectionStartSeconds + sectionLimit);
+  }
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+// Move the clock past every page whose time ran out by the given moment, each page opening
+// when the one before it closed. The last page stays where it is once it closes.
+export function catchUpClock(structure: PaperStructure, clock: PaperClock, nowSeconds: number): PaperClock {
+  const lastPage = flatPages(structure).length - 1;
+
+  let current = clock;
+  let deadline = pageDeadline(structure, current);
+  while (deadline !== null && deadline <= nowSeconds && current.page < lastPage) {
+    current = openPage(structure, current, current.page + 1, deadline);
+    deadline = pageDeadline(structure, current);
+  }
+  return current;
+}
+
+// The clock as it stood for an answer sent at the given moment. Answers sent just before a
+// page closed still count for it.
+export function clockForAnswer(structure: PaperStructure, clock: PaperClock, nowSeconds: number): PaperClock {
+  return catchUpClock(structure, clock, nowSeconds - PAGE_GRACE_SECONDS);
+}
+
+// Whether the page the clock is on still takes answers at the given moment
+export function isPageOpen(structure: PaperStructure, clock: PaperClock, nowSeconds: number): boolean {
+  const deadline = pageDeadline(structure, clock);
+  return deadline === null || nowSeconds <= deadline + PAGE_GRACE_SECONDS;
+}
+
+// The structure as the student sees it with their clock at the given moment
+export function atClock(structure: PaperStructure, clock: PaperClock, nowSeconds: number): PaperStructure {
+  const deadline = pageDeadline(structure, clock);
+  return {
+    ...structure,
+    currentPage: clock.page,
+    secondsLeftOnPage: deadline === null ? null : Math.max(0, deadline - nowSeconds),
+  };
+}
@@ -0,0 +1,57 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+// Stored hashes look like "scrypt$<salt>$<hash>", both hex encoded
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+function formatHash(salt: string, key: Buffer): string {
+  return `${HASH_PREFIX}$${salt}$${key.toString('hex')}`;
+}
+
+// Whether a stored password is already hashed, as opposed to a legacy plaintext value
+export function isPasswordHash(stored: string): boolean {
+  const parts = stored.split('$');
+  return parts.length === 3 && parts[0] === HASH_PREFIX;
+}
+
+// Hash a password with a fresh random salt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return formatHash(salt, key);
+}
+
+// Synchronous variant for startup work that runs before the server accepts requests
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  return formatHash(salt, scryptSync(password, salt, KEY_LENGTH));
+}
+
+// Check a password against a stored hash in constant time
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) return false;
+
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Credentials for the first super admin, taken from the environment
+export function superAdminFromEnv(): { username: string; password: string } | null {
+  const username = process.env.SUPERADMIN_USERNAME || 'superadmin';
+  const password = process.env.SUPERADMIN_PASSWORD;
+
+  if (!password) {
+    console.warn('No super admin account exists. Set SUPERADMIN_PASSWORD (and optionally SUPERADMIN_USERNAME) ' +
+      'or run "npm run create-superadmin -- <username>" to create one.');
+    return null;
+  }
+
+  return { username, password };
+}
@@ -0,0 +1,100 @@
+import type { Question, QuizAnswer, StudentAnswer } from "@shared/schema";
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const;
+type OptionLetter = typeof OPTION_LETTERS[number];
+
+// FNV-1a hash of the seed feeding a mulberry32 generator, so the same seed always
+// gives the same sequence. The hash is mixed further because seeds such as "1:3"
+// and "1:4" differ in one bit and would otherwise start off nearly the same.
+function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  state = Math.imul(state ^ (state >>> 16), 0x85ebca6b);
+  state = Math.imul(state ^ (state >>> 13), 0xc2b2ae35);
+  state ^= state >>> 16;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: readonly T[], seed: string): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+type OrderedQuestion = Pick<Question, 'id' | 'isImage'>;
+
+// The canonical option shown under each letter, A to D, for one student and question.
+// Image questions print their options in the image, so those keep their order.
+function optionOrder(competitionId: number, userId: number, question: OrderedQuestion): OptionLetter[] {
+  if (question.isImage) return [...OPTION_LETTERS];
+
+  return shuffle(OPTION_LETTERS, `${competitionId}:${userId}:${question.id}`);
+}
+
+function optionText(question: Question, letter: OptionLetter): string {
+  return question[`option${letter}`];
+}
+
+// A student's questions, in their own order and with their own option letters. The order
+// only depends on the competition and the student, so it survives reloads and restarts.
+export function shuffleQuestionsFor<T extends Question>(questions: T[], competitionId: number, userId: number): T[] {
+  const ordered = shuffle([...questions].sort((a, b) => a.id - b.id), `${competitionId}:${userId}`);
+
+  return ordered.map(question => {
+    const order = optionOrder(competitionId, userId, question);
+    return {
+      ...question,
+      optionA: optionText(question, order[0]),
+      optionB: optionText(question, order[1]),
+      optionC: optionText(question, order[2]),
+      optionD: optionText(question, order[3]),
+      correctAnswer: toShownOption(competitionId, userId, question, question.correctAnswer) ?? question.correctAnswer,
+    };
+  });
+}
+
+// The canonical letter of the option a student picked under the letter they were shown
+export function toCanonicalOption(
+  competitionId: number,
+  userId: number,
+  question: OrderedQuestion,
+  shown: string | null | undefined,
+): string | null {
+  const index = OPTION_LETTERS.indexOf(shown as OptionLetter);
+  return index === -1 ? null : optionOrder(competitionId, userId, question)[index];
+}
+
+// The letter a student was shown for a canonical option
+export function toShownOption(
+  competitionId: number,
+  userId: number,
+  question: OrderedQuestion,
+  canonical: string | null | undefined,
+): string | null {
+  const index = optionOrder(competitionId, userId, question).indexOf(canonical as OptionLetter);
+  return index === -1 ? null : OPTION_LETTERS[index];
+}
+
+// A saved answer as the student who gave it sees it, which never says whether it was
+// correct. Answers to deleted questions are shown as they were saved.
+export function shownAnswer(answer: QuizAnswer, question: OrderedQuestion | undefined): StudentAnswer {
+  const { isCorrect, ...shown } = answer;
+  if (!question) return shown;
+
+  return {
+    ...shown,
+    userAnswer: toShownOption(answer.competitionId, answer.userId, question, answer.userAnswer),
+  };
+}
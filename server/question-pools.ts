@@ -0,0 +1,63 @@
+import type { Question, QuestionDraw, QuestionPool } from "@shared/schema";
+
+const normalizeTopic = (topic: string) => topic.trim().toLowerCase();
+
+function inPool(question: Question, pool: QuestionPool): boolean {
+  if (pool.difficulty && (question.difficulty ?? 'medium') !== pool.difficulty) return false;
+  if (pool.topics.length === 0) return true;
+
+  const topic = question.topic ? normalizeTopic(question.topic) : null;
+  return topic !== null && pool.topics.some(poolTopic => normalizeTopic(poolTopic) === topic);
+}
+
+function describePool(pool: QuestionPool): string {
+  const difficulty = pool.difficulty ? `${pool.difficulty} ` : '';
+  const topics = pool.topics.length > 0 ? ` on ${pool.topics.join(' or ')}` : '';
+  return `${pool.count} ${difficulty}${pool.count === 1 ? 'question' : 'questions'}${topics}`;
+}
+
+// Why the question set cannot fill the blueprint, or an empty list when it can
+export function blueprintShortfalls(questions: Question[], blueprint: QuestionPool[]): string[] {
+  const shortfalls = blueprint.flatMap(pool => {
+    const available = questions.filter(question => inPool(question, pool)).length;
+    return available < pool.count
+      ? [`The blueprint asks for ${describePool(pool)}, but only ${available} ${available === 1 ? 'is' : 'are'} available.`]
+      : [];
+  });
+
+  const total = blueprint.reduce((sum, pool) => sum + pool.count, 0);
+  if (shortfalls.length === 0 && total > questions.length) {
+    shortfalls.push(`The blueprint asks for ${total} questions, but the competition only has ${questions.length}.`);
+  }
+  return shortfalls;
+}
+
+// Draw a paper at random, pool by pool. A question drawn for one pool is not drawn again
+// for a later one, and a pool the question set can no longer fill gets what is left.
+export function drawPaper(questions: Question[], blueprint: QuestionPool[]): number[] {
+  const drawn = new Set<number>();
+
+  blueprint.forEach(pool => {
+    const candidates = questions.filter(question => !drawn.has(question.id) && inPool(question, pool));
+    for (let i = 0; i < pool.count && candidates.length > 0; i++) {
+      const [question] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+      drawn.add(question.id);
+    }
+  });
+
+  return Array.from(drawn);
+}
+
+// The questions a student's answers are graded against: those of their drawn paper, or
+// the whole question set for competitions without a blueprint. A student who was never
+// served a paper has no questions.
+export function paperQuestions(questions: Question[], blueprint: QuestionPool[], draw: QuestionDraw | undefined): Question[] {
+  if (draw) {
+    const byId = new Map(questions.map(question => [question.id, question]));
+    return draw.questionIds
+      .map(questionId => byId.get(questionId))
+      .filter((question): question is Question => question !== undefined);
+  }
+
+  return blueprint.length === 0 ? questions : [];
+}
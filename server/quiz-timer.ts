@@ -0,0 +1,49 @@
+import type { QuizSetting } from "@shared/schema";
+
+// Answers sent just before the deadline may arrive slightly after it
+const DEADLINE_GRACE_MS = 2000;
+
+// The moment answers stop being accepted, or null if the quiz has not started.
+// extraSeconds is the student's personal time extension, if any.
+export function getQuizDeadline(settings: QuizSetting, extraSeconds: number = 0): Date | null {
+  let deadline: number;
+  if (settings.endTime) {
+    deadline = new Date(settings.endTime).getTime();
+  } else if (settings.startTime) {
+    // Quizzes started before deadlines were recorded run for their configured duration
+    deadline = new Date(settings.startTime).getTime() + settings.durationSeconds * 1000;
+  } else {
+    return null;
+  }
+
+  return new Date(deadline + extraSeconds * 1000);
+}
+
+// Whether the deadline, including the grace period, has passed at the given moment
+export function isPastDeadline(settings: QuizSetting, now: Date = new Date(), extraSeconds: number = 0): boolean {
+  const deadline = getQuizDeadline(settings, extraSeconds);
+  if (!deadline) return false;
+
+  return now.getTime() > deadline.getTime() + DEADLINE_GRACE_MS;
+}
+
+// Whether answers may still be accepted at the given moment
+export function isQuizOpen(settings: QuizSetting, now: Date = new Date(), extraSeconds: number = 0): boolean {
+  if (settings.state !== 'started' || !getQuizDeadline(settings)) return false;
+
+  return !isPastDeadline(settings, now, extraSeconds);
+}
+
+// Seconds the quiz has been running at the given moment, capped at the deadline and excluding pauses
+export function getElapsedSeconds(settings: QuizSetting, now: Date = new Date(), extraSeconds: number = 0): number {
+  if (!settings.startTime) return 0;
+
+  let end = now.getTime();
+  const deadline = getQuizDeadline(settings, extraSeconds);
+  if (deadline) end = Math.min(end, deadline.getTime());
+  if (settings.pausedAt) end = Math.min(end, new Date(settings.pausedAt).getTime());
+
+  const elapsed = end - new Date(settings.startTime).getTime() - settings.pausedSeconds * 1000;
+
+  return Math.max(0, Math.round(elapsed / 1000));
+}
@@ -0,0 +1,76 @@
+import type { QuizSetting } from "@shared/schema";
+
+// Quiz state changes, shared by the storage implementations. Each takes the current
+// settings and returns the settings to save.
+
+export function startedSettings(current: QuizSetting, now: Date): QuizSetting {
+  // The deadline is fixed when the quiz starts so every client counts down to the same moment
+  const endTime = new Date(now.getTime() + current.durationSeconds * 1000);
+
+  return {
+    ...current,
+    state: 'started',
+    scheduledStartTime: null,
+    startTime: now,
+    endTime,
+    pausedAt: null,
+    pausedSeconds: 0,
+    updatedAt: now,
+  };
+}
+
+export function pausedSettings(current: QuizSetting, now: Date): QuizSetting {
+  return {
+    ...current,
+    state: 'paused',
+    pausedAt: now,
+    updatedAt: now,
+  };
+}
+
+export function resumedSettings(current: QuizSetting, now: Date, extraSeconds: number): QuizSetting {
+  const pausedMs = current.pausedAt ? now.getTime() - new Date(current.pausedAt).getTime() : 0;
+  const endTime = current.endTime
+    ? new Date(new Date(current.endTime).getTime() + pausedMs + extraSeconds * 1000)
+    : null;
+
+  return {
+    ...current,
+    state: 'started',
+    endTime,
+    pausedAt: null,
+    pausedSeconds: current.pausedSeconds + Math.round(pausedMs / 1000),
+    updatedAt: now,
+  };
+}
+
+export function completedSettings(current: QuizSetting, now: Date): QuizSetting {
+  // A quiz ended early closes now rather than at its scheduled deadline
+  const endTime = current.endTime && new Date(current.endTime) < now ? current.endTime : now;
+  const pausedMs = current.pausedAt ? now.getTime() - new Date(current.pausedAt).getTime() : 0;
+
+  return {
+    ...current,
+    state: 'completed',
+    endTime,
+    pausedAt: null,
+    pausedSeconds: current.pausedSeconds + Math.round(pausedMs / 1000),
+    updatedAt: now,
+  };
+}
+
+export function resetSettings(current: QuizSetting, now: Date): QuizSetting {
+  return {
+    id: current.id,
+    competitionId: current.competitionId,
+    state: 'waiting',
+    durationSeconds: current.durationSeconds,
+    scheduledStartTime: null,
+    startTime: null,
+    endTime: null,
+    pausedAt: null,
+    pausedSeconds: 0,
+    lastReset: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,80 @@
+import type { ArchivedResult, Competition, QuizAnswer, QuizSetting, Result, RoundArchive, User } from "@shared/schema";
+
+export type NewRoundArchive = Omit<RoundArchive, 'id' | 'createdAt'>;
+
+// Rounds are named after the competition and the day they started unless given a name
+function defaultArchiveName(competition: Competition, settings: QuizSetting, now: Date): string {
+  const day = (settings.startTime ?? now).toISOString().slice(0, 10);
+  return `${competition.name} (${day})`;
+}
+
+// Capture a finished round before its answers and results are cleared, or undefined
+// when nothing was recorded in it. Results are copied with the students' names and
+// schools, in rank order.
+export function buildRoundArchive(
+  competition: Competition,
+  settings: QuizSetting,
+  answers: QuizAnswer[],
+  results: Result[],
+  users: User[],
+  name?: string,
+): NewRoundArchive | undefined {
+  if (answers.length === 0 && results.length === 0) return undefined;
+
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const archivedResults: ArchivedResult[] = results
+    .map(result => {
+      const user = usersById.get(result.userId);
+      return { ...result, username: user?.username ?? null, school: user?.school ?? null };
+    })
+    .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
+
+  return {
+    competitionId: competition.id,
+    competitionName: competition.name,
+    name: name || defaultArchiveName(competition, settings, new Date()),
+    settings,
+    answers,
+    results: archivedResults,
+  };
+}
+
+// What the list of archives shows, without the answers and results themselves
+export function archiveSummary(archive: RoundArchive) {
+  return {
+    id: archive.id,
+    competitionId: archive.competitionId,
+    competitionName: archive.competitionName,
+    name: archive.name,
+    startTime: archive.settings.startTime,
+    endTime: archive.settings.endTime,
+    participantCount: archive.results.length,
+    answerCount: archive.answers.length,
+    createdAt: archive.createdAt,
+  };
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The ranked results of an archived round as CSV
+export function archiveResultsCsv(archive: RoundArchive): string {
+  const header = ['Rank', 'Username', 'School', 'Score', 'Correct', 'Incorrect', 'Skipped',
+    'Average response time (s)', 'Completion time (s)'];
+
+  const rows = archive.results.map(result => [
+    result.rank,
+    result.username,
+    result.school,
+    result.score,
+    result.correctAnswers,
+    result.incorrectAnswers,
+    result.skippedAnswers,
+    result.averageResponseTime,
+    result.completionTime,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,8 +1,19 @@
 import express from "express";
 import type { Request as ExpressRequest, Response as ExpressResponse, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertUserSchema, insertQuestionSchema, insertQuizAnswerSchema, insertResultSchema, loginSchema, type User } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { isQuizOpen, getElapsedSeconds } from "./quiz-timer";
+import { startQuizScheduler } from "./scheduler";
+import { createBackup, backupFileName, validateBackup, restoreBackup, listSnapshots, snapshotPath, snapshotSchedule, startSnapshotSchedule } from "./backup";
+import { archiveSummary, archiveResultsCsv } from "./round-archives";
+import { rankSchools } from "./school-rankings";
+import { shuffleQuestionsFor, toCanonicalOption, shownAnswer } from "./question-order";
+import { blueprintShortfalls } from "./question-pools";
+import { layOutPaper, timeLimitConflict, pageOf, clampPage, openPage, pageDeadline, catchUpClock, clockForAnswer, isPageOpen, atClock, type PaperClock } from "./paper-layout";
+import { verifyPassword } from "./passwords";
+import { sessionRegistry, studentSessionPolicy, isSessionLive, type ActiveSession } from "./session-registry";
+import { getLoginBlock, registerLoginFailure, clearLoginFailures, isThrottleActive, isLockedOut } from "./login-throttle";
+import { insertUserSchema, insertQuestionSchema, insertCompetitionSchema, insertQuizSettingsSchema, insertQuizAnswerSchema, insertTimeExtensionSchema, loginSchema, changePasswordSchema, loginEventQuerySchema, scheduleQuizSchema, resumeQuizSchema, resetQuizSchema, openPageSchema, DEFAULT_PAPER_LAYOUT, DEFAULT_NAVIGATION_POLICY, type User, type PaperPosition, type Competition, type QuestionPool } from "@shared/schema";
 import session from "express-session";
 import MemoryStore from "memorystore";
 import { z } from "zod";
@@ -20,6 +31,7 @@ interface Request extends ExpressRequest {
   body: any;
   params: ParamsDictionary;
   file?: Express.Multer.File;
+  competition?: Competition;
 }
 
 // Extend Express Response type
@@ -57,27 +69,21 @@ const upload = multer({
   }
 });
 
+// Backup archives are checked in memory before anything is restored
+const backupUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024 // 200MB limit
+  }
+});
+
 export async function registerRoutes(app: ReturnType<typeof express>): Promise<Server> {
   // Serve static files from uploads directory
   app.use('/uploads', express.static('uploads'));
 
-  // Add default student user if it doesn't exist
-  const defaultUser = {
-    username: "student",
-    password: "student",
-    role: "student" as const,
-    school: "Other" as const
-  };
-
-  try {
-    const existingUser = await storage.getUserByUsername(defaultUser.username);
-    if (!existingUser) {
-      await storage.createUser(defaultUser);
-      console.log("Created default student user");
-    }
-  } catch (error) {
-    console.error("Failed to create default user:", error);
-  }
+  const sessionStore = new MemoryStoreSession({
+    checkPeriod: 86400000, // 24 hours
+  });
 
   // Setup session middleware
   app.use(
@@ -90,12 +96,20 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
         maxAge: 86400000, // 24 hours
         httpOnly: true,
       },
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // 24 hours
-      }),
+      store: sessionStore,
     })
   );
 
+  // Reject API requests from sessions that were ended by another login or an administrator
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (req.session?.user && !sessionRegistry.touch(req.sessionID)) {
+      return req.session.destroy(() => {
+        res.status(401).json({ message: "Your session has ended. Please log in again." });
+      });
+    }
+    next();
+  });
+
   // Auth middleware for different roles
   const requireAuth = (req: Request, res: Response, next: NextFunction) => {
     if (!req.session?.user) {
@@ -118,24 +132,164 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     next();
   };
 
+  // Pick the competition a user should see when none is named: a running one first,
+  // then one waiting to start, then the most recently created
+  const findCurrentCompetition = async (user?: Omit<User, 'password'>): Promise<Competition | undefined> => {
+    const statePriority: Record<string, number> = { started: 0, paused: 0, waiting: 1, completed: 2 };
+    const candidates: { competition: Competition; priority: number }[] = [];
+
+    for (const competition of await storage.listCompetitions()) {
+      if (user?.role === "student") {
+        const participants = await storage.listCompetitionParticipants(competition.id);
+        if (!participants.some(participant => participant.id === user.id)) continue;
+      }
+      const settings = await storage.getQuizSettings(competition.id);
+      candidates.push({ competition, priority: statePriority[settings?.state ?? "waiting"] });
+    }
+
+    candidates.sort((a, b) => a.priority - b.priority || b.competition.id - a.competition.id);
+    return candidates[0]?.competition;
+  };
+
+  // Resolve the competition a request is scoped to, from the route, ?competitionId=
+  // or the caller's current competition
+  const resolveCompetition = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rawId = req.params.competitionId ?? req.query.competitionId;
+      const competition = rawId !== undefined
+        ? await storage.getCompetition(parseInt(String(rawId)))
+        : await findCurrentCompetition(req.session.user);
+
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      // Students may only access competitions they are on the roster of
+      if (req.session.user?.role === "student") {
+        const participants = await storage.listCompetitionParticipants(competition.id);
+        if (!participants.some(participant => participant.id === req.session.user?.id)) {
+          return res.status(403).json({ message: "You are not registered for this competition" });
+        }
+      }
+
+      req.competition = competition;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve competition" });
+    }
+  };
+
+  // Competition-scoped routes are served under /api/competitions/:competitionId and,
+  // for existing clients, under the plain /api prefix
+  const scoped = (routePath: string) => [`/api/competitions/:competitionId${routePath}`, `/api${routePath}`];
+
   // Use the router for routes
   app.use(router);
 
+  // Accounts flagged for a password change may only use the auth routes until they change it
+  router.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (req.session?.user?.mustChangePassword && !req.path.startsWith("/auth/")) {
+      return res.status(403).json({ message: "You must change your password before continuing" });
+    }
+    next();
+  });
+
+  // Mount routes on the router instead of app
+  // Address the request came from, used to throttle and audit logins
+  const clientIp = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
+
+  // End another session, recording it as a logout in the audit log
+  const terminateSession = async (activeSession: ActiveSession, reason: string) => {
+    sessionRegistry.remove(activeSession.sessionId);
+    await new Promise<void>(resolve => sessionStore.destroy(activeSession.sessionId, () => resolve()));
+
+    await storage.recordLoginEvent({
+      type: "logout",
+      username: activeSession.username,
+      userId: activeSession.userId,
+      role: activeSession.role,
+      school: activeSession.school,
+      ipAddress: activeSession.ipAddress,
+      userAgent: activeSession.userAgent,
+      reason,
+    });
+  };
+
+  // Add a login, logout or failed attempt to the audit log
+  const recordLoginEvent = (
+    req: Request,
+    type: "login" | "logout" | "failure",
+    username: string,
+    user?: Omit<User, 'password'>,
+    reason?: string,
+  ) => storage.recordLoginEvent({
+    type,
+    username,
+    userId: user?.id ?? null,
+    role: user?.role ?? null,
+    school: user?.school ?? null,
+    ipAddress: clientIp(req),
+    userAgent: req.get("user-agent") ?? null,
+    reason: reason ?? null,
+  });
+
   // Mount routes on the router instead of app
   router.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
       const credentials = loginSchema.parse(req.body);
+      const ipAddress = clientIp(req);
+
       const user = await storage.getUserByUsername(credentials.username);
 
-      if (!user || user.password !== credentials.password) {
+      const block = await getLoginBlock(credentials.username, ipAddress);
+      if (block) {
+        await recordLoginEvent(req, "failure", credentials.username, user, "Too many failed attempts");
+
+        const retryAfterSeconds = Math.ceil((block.blockedUntil.getTime() - Date.now()) / 1000);
+        const wait = retryAfterSeconds >= 60
+          ? `${Math.ceil(retryAfterSeconds / 60)} minute(s)`
+          : `${retryAfterSeconds} second(s)`;
+
+        res.setHeader("Retry-After", retryAfterSeconds.toString());
+        return res.status(429).json({
+          message: `Too many failed login attempts. Please try again in ${wait}.`,
+          retryAfterSeconds,
+        });
+      }
+
+      if (!user || !(await verifyPassword(credentials.password, user.password))) {
+        await registerLoginFailure(credentials.username, ipAddress);
+        await recordLoginEvent(req, "failure", credentials.username, user, user ? "Wrong password" : "Unknown username");
         return res.status(401).json({ message: "Invalid username or password" });
       }
 
       // Don't allow students to login if school doesn't match
       if (user.role === "student" && credentials.school && user.school !== credentials.school) {
+        await registerLoginFailure(credentials.username, ipAddress);
+        await recordLoginEvent(req, "failure", credentials.username, user, "School does not match");
         return res.status(401).json({ message: "Invalid school selected" });
       }
 
+      // Students may only be logged in once at a time
+      if (user.role === "student") {
+        const otherSessions = sessionRegistry.listForUser(user.id)
+          .filter(activeSession => activeSession.sessionId !== req.sessionID);
+
+        if (studentSessionPolicy === "reject" && otherSessions.some(activeSession => isSessionLive(activeSession))) {
+          await recordLoginEvent(req, "failure", credentials.username, user, "Already logged in on another device");
+          return res.status(409).json({
+            message: "This account is already logged in on another device. Log out there first or ask an administrator to end that session.",
+          });
+        }
+
+        for (const otherSession of otherSessions) {
+          await terminateSession(otherSession, "Logged in on another device");
+        }
+      }
+
+      await clearLoginFailures(credentials.username);
+      await recordLoginEvent(req, "login", user.username, user);
+
       // Update last login
       await storage.updateUser(user.id, { 
         lastLogin: new Date() 
@@ -144,6 +298,7 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
       // Store user in session (exclude password)
       const { password, ...userWithoutPassword } = user;
       req.session.user = userWithoutPassword;
+      sessionRegistry.register(req.sessionID, userWithoutPassword, ipAddress, req.get("user-agent") ?? null);
 
       res.json({ user: userWithoutPassword });
     } catch (error) {
@@ -154,8 +309,47 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
+  router.post("/api/auth/change-password", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.session.user!.id);
+
+      if (!user || !(await verifyPassword(currentPassword, user.password))) {
+        return res.status(401).json({ message: "Current password is incorrect" });
+      }
+
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "New password must be different from the current password" });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        password: newPassword,
+        mustChangePassword: false,
+      });
+
+      const { password, ...userWithoutPassword } = updatedUser!;
+      req.session.user = userWithoutPassword;
+
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
   // Continue with other routes using router instead of app
-  router.post("/api/auth/logout", (req: Request, res: Response) => {
+  router.post("/api/auth/logout", async (req: Request, res: Response) => {
+    if (req.session.user) {
+      try {
+        await recordLoginEvent(req, "logout", req.session.user.username, req.session.user);
+      } catch (error) {
+        console.error("Failed to record logout:", error);
+      }
+      sessionRegistry.remove(req.sessionID);
+    }
+
     req.session.destroy((err: Error) => {
       if (err) {
         return res.status(500).json({ message: "Failed to logout" });
@@ -241,22 +435,188 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
-  // Question routes
-  router.get("/api/questions", async (req: Request, res: Response) => {
+  // Login security routes
+  router.get("/api/security/lockouts", requireSuperAdmin, async (req: Request, res: Response) => {
     try {
-      const questions = await storage.listQuestions();
+      const now = new Date();
+      const throttles = (await storage.listLoginThrottles())
+        .filter(throttle => isThrottleActive(throttle, now))
+        .map(throttle => ({ ...throttle, lockedOut: isLockedOut(throttle, now) }))
+        .sort((a, b) => Number(b.lockedOut) - Number(a.lockedOut) || b.failureCount - a.failureCount);
 
-      // If the user is not authenticated or is a student, filter out correct answers
-      if (!req.session.user || req.session.user.role === 'student') {
-        const filteredQuestions = questions.map(q => {
-          // Omit correctAnswer for students or unauthenticated users
-          const { correctAnswer, ...rest } = q;
-          return rest;
-        });
-        return res.json(filteredQuestions);
+      res.json(throttles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lockouts" });
+    }
+  });
+
+  router.delete("/api/security/lockouts/:scope/:key", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const scope = z.enum(["username", "ip"]).parse(req.params.scope);
+      const deleted = await storage.deleteLoginThrottle(scope, req.params.key);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Lockout not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lockout scope" });
       }
+      res.status(500).json({ message: "Failed to clear lockout" });
+    }
+  });
 
-      // Admin and superadmin can see all question details
+  // Live session routes
+  router.get("/api/sessions", requireSuperAdmin, (req: Request, res: Response) => {
+    const now = new Date();
+    const sessions = sessionRegistry.list()
+      .map(({ sessionId, ...activeSession }) => ({
+        ...activeSession,
+        live: isSessionLive(activeSession, now),
+        current: sessionId === req.sessionID,
+      }))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+
+    res.json({ policy: studentSessionPolicy, sessions });
+  });
+
+  router.delete("/api/sessions/:id", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const activeSession = sessionRegistry.findById(req.params.id);
+      if (!activeSession) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      if (activeSession.sessionId === req.sessionID) {
+        return res.status(400).json({ message: "Use Log out to end your own session" });
+      }
+
+      await terminateSession(activeSession, `Ended by ${req.session.user!.username}`);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to end session" });
+    }
+  });
+
+  // Login audit routes
+  router.get("/api/audit/logins", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = loginEventQuerySchema.parse(req.query);
+      res.json(await storage.listLoginEvents(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to fetch login history" });
+    }
+  });
+
+  // Backup routes
+  router.get("/api/admin/backup", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const backup = await createBackup();
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${backupFileName()}"`);
+      res.send(backup);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
+  // With ?dryRun=true the backup is only checked, and the report says what a restore would do
+  router.post("/api/admin/restore", requireSuperAdmin, backupUpload.single('backup'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No backup file uploaded" });
+      }
+
+      const { report, archive } = await validateBackup(req.file.buffer);
+      if (req.query.dryRun === 'true') {
+        return res.json({ restored: false, report });
+      }
+
+      if (!archive) {
+        return res.status(400).json({ message: report.errors[0], report });
+      }
+
+      await restoreBackup(archive);
+      console.log(`Data restored from backup by ${req.session.user!.username}`);
+      res.json({ restored: true, report });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  router.get("/api/admin/backups", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json({ ...snapshotSchedule, snapshots: listSnapshots() });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch snapshots" });
+    }
+  });
+
+  router.get("/api/admin/backups/:name", requireSuperAdmin, async (req: Request, res: Response) => {
+    const snapshotFile = snapshotPath(req.params.name);
+    if (!snapshotFile) {
+      return res.status(404).json({ message: "Snapshot not found" });
+    }
+
+    res.download(snapshotFile);
+  });
+
+  // Round archive routes (rounds kept when a competition is reset)
+  router.get("/api/archives", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.query.competitionId ? parseInt(req.query.competitionId as string, 10) : undefined;
+      const archives = await storage.listRoundArchives(competitionId);
+      res.json(archives.map(archiveSummary));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch archived rounds" });
+    }
+  });
+
+  router.get("/api/archives/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const archive = await storage.getRoundArchive(parseInt(req.params.id, 10));
+      if (!archive) {
+        return res.status(404).json({ message: "Archived round not found" });
+      }
+
+      res.json(archive);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch archived round" });
+    }
+  });
+
+  // The ranked results as CSV, or with ?format=json the whole archive
+  router.get("/api/archives/:id/export", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const archive = await storage.getRoundArchive(parseInt(req.params.id, 10));
+      if (!archive) {
+        return res.status(404).json({ message: "Archived round not found" });
+      }
+
+      const fileName = `round-${archive.id}`;
+      if (req.query.format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+        return res.json(archive);
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      res.send(archiveResultsCsv(archive));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export archived round" });
+    }
+  });
+
+  // Question routes. The whole bank is for staff only; students get the questions on their
+  // own paper from the competition's quiz routes.
+  router.get("/api/questions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const questions = await storage.listQuestions();
       res.json(questions);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch questions" });
@@ -274,6 +634,7 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
         optionD: req.body.optionD,
         correctAnswer: req.body.correctAnswer,
         difficulty: req.body.difficulty || 'medium',
+        topic: req.body.topic?.trim() || null,
         createdBy: req.session.user?.id,
         isImage: req.file ? true : false
       };
@@ -328,6 +689,8 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
         optionD: req.body.optionD || question.optionD,
         correctAnswer: req.body.correctAnswer || question.correctAnswer,
         difficulty: req.body.difficulty || question.difficulty,
+        // An empty topic clears it
+        topic: req.body.topic !== undefined ? req.body.topic.trim() || null : question.topic,
         isImage: req.file ? true : question.isImage
       };
 
@@ -383,50 +746,574 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
+  // Competition routes
+  router.get("/api/competitions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const competitions = await storage.listCompetitions();
+
+      if (req.session.user?.role !== "student") {
+        return res.json(competitions);
+      }
+
+      // Students only see the competitions they are on the roster of
+      const visibleCompetitions = [];
+      for (const competition of competitions) {
+        const participants = await storage.listCompetitionParticipants(competition.id);
+        if (participants.some(participant => participant.id === req.session.user?.id)) {
+          visibleCompetitions.push(competition);
+        }
+      }
+      res.json(visibleCompetitions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch competitions" });
+    }
+  });
+
+  router.get("/api/competitions/current", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const competition = await findCurrentCompetition(req.session.user);
+      if (!competition) {
+        return res.status(404).json({ message: "No competition available" });
+      }
+      res.json(competition);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch competition" });
+    }
+  });
+
+  router.get("/api/competitions/:competitionId", requireAuth, resolveCompetition, (req: Request, res: Response) => {
+    res.json(req.competition);
+  });
+
+  // Why the competition's question set cannot fill the blueprint, if it cannot
+  const blueprintShortfall = async (questionIds: number[], blueprint: QuestionPool[]): Promise<string | undefined> => {
+    if (blueprint.length === 0) return undefined;
+
+    const allQuestions = await storage.listQuestions();
+    const questionSet = questionIds.length === 0
+      ? allQuestions
+      : allQuestions.filter(question => questionIds.includes(question.id));
+    return blueprintShortfalls(questionSet, blueprint)[0];
+  };
+
+  router.post("/api/competitions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const competitionData = insertCompetitionSchema.parse({
+        ...req.body,
+        createdBy: req.session.user?.id,
+      });
+
+      const shortfall = await blueprintShortfall(competitionData.questionIds ?? [], competitionData.questionBlueprint ?? []);
+      if (shortfall) {
+        return res.status(400).json({ message: shortfall });
+      }
+
+      const conflict = timeLimitConflict(
+        competitionData.paperLayout ?? DEFAULT_PAPER_LAYOUT,
+        competitionData.navigationPolicy ?? DEFAULT_NAVIGATION_POLICY,
+      );
+      if (conflict) {
+        return res.status(400).json({ message: conflict });
+      }
+
+      const newCompetition = await storage.createCompetition(competitionData);
+      res.status(201).json(newCompetition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create competition" });
+    }
+  });
+
+  router.put("/api/competitions/:competitionId", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.competitionId);
+      const competitionData = insertCompetitionSchema.partial().parse(req.body);
+
+      const existing = await storage.getCompetition(id);
+      if (existing && (competitionData.questionBlueprint || competitionData.questionIds)) {
+        const shortfall = await blueprintShortfall(
+          competitionData.questionIds ?? existing.questionIds,
+          competitionData.questionBlueprint ?? existing.questionBlueprint,
+        );
+        if (shortfall) {
+          return res.status(400).json({ message: shortfall });
+        }
+      }
+
+      if (existing && (competitionData.paperLayout || competitionData.navigationPolicy)) {
+        const conflict = timeLimitConflict(
+          competitionData.paperLayout ?? existing.paperLayout,
+          competitionData.navigationPolicy ?? existing.navigationPolicy,
+        );
+        if (conflict) {
+          return res.status(400).json({ message: conflict });
+        }
+      }
+
+      const updatedCompetition = await storage.updateCompetition(id, competitionData);
+      if (!updatedCompetition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      res.json(updatedCompetition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update competition" });
+    }
+  });
+
+  router.delete("/api/competitions/:competitionId", requireSuperAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.competitionId);
+      const result = await storage.deleteCompetition(id);
+
+      if (!result) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete competition" });
+    }
+  });
+
+  // Questions served for a competition
+  // The questions as the signed-in user is served them: students get the paper drawn for
+  // them, in their own question and option order; admins get the whole question set
+  const servedQuestions = async (req: Request) => {
+    if (req.session.user?.role === 'student') {
+      const questions = await storage.getQuestionPaper(req.competition!.id, req.session.user.id);
+      return shuffleQuestionsFor(questions, req.competition!.id, req.session.user.id);
+    }
+
+    return storage.listCompetitionQuestions(req.competition!.id);
+  };
+
+  router.get(scoped("/quiz/questions"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const questions = await servedQuestions(req);
+
+      // Students never receive the correct answers
+      if (req.session.user?.role === 'student') {
+        return res.json(questions.map(({ correctAnswer, ...rest }) => rest));
+      }
+
+      res.json(questions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch questions" });
+    }
+  });
+
+  // Whether the signed-in user is held to a forward-only paper. Admins never are.
+  const isForwardOnly = (req: Request) =>
+    req.session.user?.role === 'student' && req.competition!.navigationPolicy.mode === 'forward';
+
+  // The signed-in student's paper split into sections and pages, the position saved for
+  // them, and the quiz time in seconds at the given moment. A student without a saved
+  // position is on the first page from then on.
+  const studentPaper = async (store: IStorage, req: Request, now: Date) => {
+    const competition = req.competition!;
+    const userId = req.session.user!.id;
+    const questions = shuffleQuestionsFor(await store.getQuestionPaper(competition.id, userId), competition.id, userId);
+    const structure = layOutPaper(questions, competition.paperLayout, competition.navigationPolicy);
+
+    const settings = await store.getQuizSettings(competition.id);
+    const extension = await store.getTimeExtension(competition.id, userId);
+    const nowSeconds = settings ? getElapsedSeconds(settings, now, extension?.extraSeconds ?? 0) : 0;
+
+    const position = await store.getPaperPosition(competition.id, userId);
+    const clock: PaperClock = position ?? openPage(structure, undefined, 0, nowSeconds);
+    return { structure, position, clock, nowSeconds };
+  };
+
+  // Saves the student's clock when it has moved. The time of their last answer is only
+  // kept while they stay on the same page.
+  const savePosition = async (store: IStorage, req: Request, position: PaperPosition | undefined, clock: PaperClock, lastAnswerSeconds?: number) => {
+    const samePage = position?.page === clock.page && position.pageStartSeconds === clock.pageStartSeconds;
+    if (samePage && position.sectionStartSeconds === clock.sectionStartSeconds && lastAnswerSeconds === undefined) {
+      return position;
+    }
+
+    return store.savePaperPosition({
+      competitionId: req.competition!.id,
+      userId: req.session.user!.id,
+      page: clock.page,
+      pageStartSeconds: clock.pageStartSeconds,
+      sectionStartSeconds: clock.sectionStartSeconds,
+      lastAnswerSeconds: lastAnswerSeconds ?? (samePage ? position.lastAnswerSeconds : null),
+    });
+  };
+
+  // How the quiz page splits the served questions into sections and pages, and the page
+  // the student is on. Pages whose time ran out are closed, and the student moved past them.
+  router.get(scoped("/quiz/paper"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      if (req.session.user?.role !== 'student') {
+        const questions = await servedQuestions(req);
+        return res.json(layOutPaper(questions, req.competition!.paperLayout, req.competition!.navigationPolicy));
+      }
+
+      const paper = await storage.transaction(async (tx) => {
+        const { structure, position, clock, nowSeconds } = await studentPaper(tx, req, new Date());
+        const current = catchUpClock(structure, clock, nowSeconds);
+        await savePosition(tx, req, position, current);
+        return atClock(structure, current, nowSeconds);
+      });
+      res.json(paper);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch paper layout" });
+    }
+  });
+
+  // Opens a page of the student's paper, starting its clock. Forward-only papers never
+  // take a student back, and close the pages behind them.
+  router.post(scoped("/quiz/paper/page"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const { page } = openPageSchema.parse(req.body);
+
+      if (req.session.user?.role !== 'student') {
+        const questions = await servedQuestions(req);
+        const structure = layOutPaper(questions, req.competition!.paperLayout, req.competition!.navigationPolicy);
+        return res.json({ ...structure, currentPage: clampPage(structure, page) });
+      }
+
+      const paper = await storage.transaction(async (tx) => {
+        const { structure, position, clock, nowSeconds } = await studentPaper(tx, req, new Date());
+        const current = catchUpClock(structure, clock, nowSeconds);
+
+        // Moving past the last page leaves the student on it
+        const target = clampPage(structure, isForwardOnly(req) ? Math.max(page, current.page) : page);
+        const opened = target === current.page ? current : openPage(structure, current, target, nowSeconds);
+        await savePosition(tx, req, position, opened);
+        return atClock(structure, opened, nowSeconds);
+      });
+      res.json(paper);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to open the page" });
+    }
+  });
+
   // Quiz settings routes
-  router.get("/api/quiz/settings", async (req: Request, res: Response) => {
+  router.get(scoped("/quiz/settings"), resolveCompetition, async (req: Request, res: Response) => {
     try {
-      const settings = await storage.getQuizSettings();
-      res.json(settings || { state: "waiting" });
+      const competitionId = req.competition!.id;
+      const settings = await storage.getQuizSettings(competitionId);
+
+      // A student's timer runs to their own deadline, including any extension
+      const extension = req.session.user?.role === 'student'
+        ? await storage.getTimeExtension(competitionId, req.session.user.id)
+        : undefined;
+
+      // Clients count down against the server clock, not their own
+      res.json({
+        ...(settings || { competitionId, state: "waiting" }),
+        timeExtensionSeconds: extension?.extraSeconds ?? 0,
+        serverTime: new Date(),
+      });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch quiz settings" });
     }
   });
 
-  router.post("/api/quiz/start", requireAdmin, async (req: Request, res: Response) => {
+  const quizDurationSchema = insertQuizSettingsSchema.pick({ durationSeconds: true });
+
+  router.put(scoped("/quiz/settings"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+      const settingsData = quizDurationSchema.parse(req.body);
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (current?.state === 'started') {
+        return res.status(400).json({ message: "Cannot change the duration while the quiz is running" });
+      }
+
+      const settings = await storage.createOrUpdateQuizSettings(competitionId, settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update quiz settings" });
+    }
+  });
+
+  router.post(scoped("/quiz/start"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
     try {
-      const settings = await storage.startQuiz();
+      const competitionId = req.competition!.id;
+
+      // The duration can be set together with starting the quiz
+      const { durationSeconds } = quizDurationSchema.partial().parse(req.body ?? {});
+      if (durationSeconds !== undefined) {
+        await storage.createOrUpdateQuizSettings(competitionId, { durationSeconds });
+      }
+
+      const settings = await storage.startQuiz(competitionId);
       res.json(settings);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       res.status(500).json({ message: "Failed to start quiz" });
     }
   });
 
-  router.post("/api/quiz/reset", requireSuperAdmin, async (req: Request, res: Response) => {
+  router.post(scoped("/quiz/schedule"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+      const { scheduledStartTime } = scheduleQuizSchema.parse(req.body);
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (current && current.state !== 'waiting') {
+        return res.status(400).json({ message: "The quiz can only be scheduled before it starts" });
+      }
+
+      if (scheduledStartTime.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "The start time must be in the future" });
+      }
+
+      // Scheduling again replaces any earlier start time
+      const settings = await storage.scheduleQuiz(competitionId, scheduledStartTime);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to schedule quiz" });
+    }
+  });
+
+  router.delete(scoped("/quiz/schedule"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
     try {
-      const settings = await storage.resetQuiz();
+      const competitionId = req.competition!.id;
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (!current?.scheduledStartTime || current.state !== 'waiting') {
+        return res.status(400).json({ message: "The quiz has no scheduled start to cancel" });
+      }
+
+      const settings = await storage.scheduleQuiz(competitionId, null);
       res.json(settings);
     } catch (error) {
+      res.status(500).json({ message: "Failed to cancel scheduled start" });
+    }
+  });
+
+  router.post(scoped("/quiz/pause"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (current?.state !== 'started') {
+        return res.status(400).json({ message: "Only a running quiz can be paused" });
+      }
+
+      const settings = await storage.pauseQuiz(competitionId);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to pause quiz" });
+    }
+  });
+
+  router.post(scoped("/quiz/resume"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+      const { extraMinutes } = resumeQuizSchema.parse(req.body ?? {});
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (current?.state !== 'paused') {
+        return res.status(400).json({ message: "The quiz is not paused" });
+      }
+
+      const settings = await storage.resumeQuiz(competitionId, extraMinutes * 60);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to resume quiz" });
+    }
+  });
+
+  router.post(scoped("/quiz/end"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+
+      const current = await storage.getQuizSettings(competitionId);
+      if (current?.state !== 'started' && current?.state !== 'paused') {
+        return res.status(400).json({ message: "The quiz is not running" });
+      }
+
+      const settings = await storage.endQuiz(competitionId);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to end quiz" });
+    }
+  });
+
+  router.post(scoped("/quiz/reset"), requireSuperAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const { archiveName } = resetQuizSchema.parse(req.body ?? {});
+      const settings = await storage.resetQuiz(req.competition!.id, archiveName);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       res.status(500).json({ message: "Failed to reset quiz" });
     }
   });
 
+  // Time extension routes
+  router.get(scoped("/quiz/extensions"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const extensions = await storage.listTimeExtensions(req.competition!.id);
+      res.json(extensions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch time extensions" });
+    }
+  });
+
+  router.put(scoped("/quiz/extensions/:userId"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competitionId = req.competition!.id;
+      const extensionData = insertTimeExtensionSchema.parse({
+        ...req.body,
+        competitionId,
+        userId: parseInt(req.params.userId),
+        grantedBy: req.session.user!.id,
+      });
+
+      const student = await storage.getUser(extensionData.userId);
+      if (!student || student.role !== 'student') {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // Granting again replaces the student's previous extension
+      const extension = await storage.setTimeExtension(extensionData);
+      res.json(extension);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to save time extension" });
+    }
+  });
+
+  router.delete(scoped("/quiz/extensions/:userId"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteTimeExtension(req.competition!.id, parseInt(req.params.userId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Time extension not found" });
+      }
+
+      res.json({ message: "Time extension removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove time extension" });
+    }
+  });
+
   // Quiz answers routes
-  router.post("/api/quiz/answers", requireAuth, async (req: Request, res: Response) => {
+  router.post(scoped("/quiz/answers"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const answerData = insertQuizAnswerSchema.parse(req.body);
+      const answerData = insertQuizAnswerSchema.parse({
+        ...req.body,
+        competitionId: req.competition!.id,
+      });
 
       // Ensure the user is submitting their own answers
       if (answerData.userId !== req.session.user.id) {
         return res.status(403).json({ message: "Cannot submit answers for another user" });
       }
 
-      const savedAnswer = await storage.saveQuizAnswer(answerData);
-      res.status(201).json(savedAnswer);
+      // Checked and saved together so the quiz cannot close in between
+      const outcome = await storage.transaction(async (tx) => {
+        const now = new Date();
+        const settings = await tx.getQuizSettings(req.competition!.id);
+        if (settings?.state === 'paused') {
+          return { error: "The quiz is paused. Please wait for it to resume." };
+        }
+
+        if (await tx.getResult(req.competition!.id, answerData.userId)) {
+          return { error: "You have already submitted this quiz. Answers can no longer be changed." };
+        }
+
+        const paper = await tx.getQuestionPaper(req.competition!.id, answerData.userId);
+        const question = paper.find(question => question.id === answerData.questionId);
+        if (!question) {
+          return { error: "That question is not part of your quiz." };
+        }
+
+        const extension = await tx.getTimeExtension(req.competition!.id, answerData.userId);
+        const extraSeconds = extension?.extraSeconds ?? 0;
+        if (!settings || !isQuizOpen(settings, now, extraSeconds)) {
+          return { error: "The quiz is closed. Answers are no longer accepted." };
+        }
+
+        // Forward-only papers close each page once the student has moved past it or its time
+        // has run out, and keep the pages after it shut until the student reaches them
+        const shuffled = req.session.user!.role === 'student';
+        let timeSpentSeconds: number | null = null;
+        if (shuffled) {
+          const { structure, position, clock, nowSeconds } = await studentPaper(tx, req, now);
+          const current = clockForAnswer(structure, clock, nowSeconds);
+          const page = pageOf(structure, question.id);
+          const deadline = pageDeadline(structure, current);
+          if (isForwardOnly(req)) {
+            if (page < current.page) {
+              return { error: "You have moved past that question. Its answer can no longer be changed." };
+            }
+            if (page === current.page && !isPageOpen(structure, current, nowSeconds)) {
+              return { error: "Time is up for that question. Its answer can no longer be changed." };
+            }
+            if (page > current.page) {
+              return { error: "That question is not open yet." };
+            }
+          }
+
+          // Time on the page since it was opened, or since the last answer on it, counts
+          // towards this question
+          const previous = (await tx.getQuizAnswersForUser(req.competition!.id, answerData.userId))
+            .find(answer => answer.questionId === question.id);
+          timeSpentSeconds = previous?.timeSpentSeconds ?? null;
+          if (page === current.page) {
+            const samePage = position?.page === current.page && position.pageStartSeconds === current.pageStartSeconds;
+            const since = Math.max(current.pageStartSeconds, (samePage ? position.lastAnswerSeconds : null) ?? 0);
+            const until = Math.min(nowSeconds, deadline ?? nowSeconds);
+            timeSpentSeconds = (timeSpentSeconds ?? 0) + Math.max(0, until - since);
+            await savePosition(tx, req, position, current, until);
+          } else {
+            await savePosition(tx, req, position, current);
+          }
+        }
+
+        // Response times are measured by the server, never taken from the client. Students
+        // answer with the letters they were shown, which are graded as the canonical ones.
+        const answer = await tx.saveQuizAnswer({
+          ...answerData,
+          userAnswer: shuffled
+            ? toCanonicalOption(answerData.competitionId, answerData.userId, question, answerData.userAnswer)
+            : answerData.userAnswer,
+          responseTimeSeconds: getElapsedSeconds(settings, now, extraSeconds),
+          timeSpentSeconds,
+        });
+        return { answer: shuffled ? shownAnswer(answer, question) : answer };
+      });
+
+      if (outcome.error) {
+        return res.status(403).json({ message: outcome.error });
+      }
+      res.status(201).json(outcome.answer);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -435,59 +1322,83 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
-  router.get("/api/quiz/answers", requireAuth, async (req: Request, res: Response) => {
+  router.get(scoped("/quiz/answers"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
       const userId = req.session.user.id;
-      const answers = await storage.getQuizAnswersForUser(userId);
-      res.json(answers);
+      const answers = await storage.getQuizAnswersForUser(req.competition!.id, userId);
+      if (req.session.user.role !== 'student') {
+        return res.json(answers);
+      }
+
+      const questions = new Map((await storage.listQuestions()).map(question => [question.id, question]));
+      res.json(answers.map(answer => shownAnswer(answer, questions.get(answer.questionId))));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch answers" });
     }
   });
 
-  // Results routes
-  router.post("/api/results", requireAuth, async (req: Request, res: Response) => {
+  // A student's current answers and the answers they replaced, for handling disputes
+  router.get(scoped("/quiz/answers/:userId/history"), requireAdmin, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const student = await storage.getUser(parseInt(req.params.userId, 10));
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const answers = await storage.getQuizAnswersForUser(req.competition!.id, student.id);
+      const revisions = await storage.listAnswerRevisions(req.competition!.id, student.id);
+      res.json({ answers, revisions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch answer history" });
+    }
+  });
+
+  // Finishes the student's attempt. Nothing is taken from the request: the result is scored
+  // from the saved answers and timed by the server, and the answers are locked from then on.
+  router.post(scoped("/quiz/submit"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const resultData = insertResultSchema.parse(req.body);
+      const competitionId = req.competition!.id;
+      const userId = req.session.user.id;
 
-      // Ensure the user is submitting their own results
-      if (resultData.userId !== req.session.user.id) {
-        return res.status(403).json({ message: "Cannot submit results for another user" });
-      }
+      const outcome = await storage.transaction(async (tx) => {
+        const settings = await tx.getQuizSettings(competitionId);
+        if (!settings?.startTime || settings.state === 'waiting') {
+          return { status: 403, error: "The quiz has not started yet." };
+        }
+        if (settings.state === 'completed' && !(await tx.getResult(competitionId, userId))) {
+          return { status: 403, error: "The quiz has ended. Results have already been finalized." };
+        }
 
-      // The server will recalculate the score for security
-      // Client-submitted scores are ignored in favor of server calculation
-      // This ensures students can't manipulate their scores
-      let savedResult = await storage.getResult(resultData.userId);
+        const result = await tx.submitResult(competitionId, userId);
+        if (!result) {
+          return { status: 409, error: "You have already submitted this quiz." };
+        }
+        return { result };
+      });
 
-      if (savedResult) {
-        // Update existing result
-        savedResult = await storage.updateResult(resultData.userId, resultData);
-      } else {
-        // Create new result
-        savedResult = await storage.saveResult(resultData);
+      if (outcome.error) {
+        return res.status(outcome.status).json({ message: outcome.error });
       }
-
-      res.status(201).json(savedResult);
+      res.status(201).json(outcome.result);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: error.errors[0].message });
-      }
-      res.status(500).json({ message: "Failed to save result" });
+      res.status(500).json({ message: "Failed to submit quiz" });
     }
   });
 
-  router.get("/api/results", requireAuth, async (req: Request, res: Response) => {
+  // Results routes
+  router.get(scoped("/results"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
     try {
-      const results = await storage.listResults();
+      // In rank order, so that every page shows the ranks the server gave
+      const results = (await storage.listResults(req.competition!.id))
+        .sort((a, b) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER));
 
       // Only admin can see all results, students can only see their own
       if (req.session.user && (req.session.user.role === "admin" || req.session.user.role === "superadmin")) {
@@ -511,14 +1422,14 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
-  router.get("/api/results/me", requireAuth, async (req: Request, res: Response) => {
+  router.get(scoped("/results/me"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
     try {
       if (!req.session.user) {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
       const userId = req.session.user.id;
-      const result = await storage.getResult(userId);
+      const result = await storage.getResult(req.competition!.id, userId);
 
       if (!result) {
         return res.status(404).json({ message: "No result found" });
@@ -530,6 +1441,32 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     }
   });
 
+  // Schools ranked under the competition's school ranking rule, with their students
+  router.get(scoped("/leaderboard/schools"), requireAuth, resolveCompetition, async (req: Request, res: Response) => {
+    try {
+      const competition = req.competition!;
+      const standings = rankSchools(
+        await storage.listResults(competition.id),
+        await storage.listUsers(),
+        competition.schoolRanking,
+      );
+
+      if (req.session.user?.role === "admin" || req.session.user?.role === "superadmin") {
+        return res.json(standings);
+      }
+
+      // Students see the other students' scores, but not who they are
+      res.json(standings.map(standing => ({
+        ...standing,
+        students: standing.students.map(student => student.userId === req.session.user?.id
+          ? student
+          : { ...student, userId: 0, username: null }),
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch school leaderboard" });
+    }
+  });
+
   // Create HTTP server
   const httpServer = createServer(app);
 
@@ -559,13 +1496,16 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
       lastPingTime: Date.now() 
     });
 
-    // Send initial quiz state
-    storage.getQuizSettings().then(settings => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({
-          type: 'QUIZ_STATE_UPDATE',
-          payload: settings || { state: 'waiting' }
-        }));
+    // Send the initial quiz state of every competition
+    storage.listCompetitions().then(async competitions => {
+      for (const competition of competitions) {
+        const settings = await storage.getQuizSettings(competition.id);
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({
+            type: 'QUIZ_STATE_UPDATE',
+            payload: settings || { competitionId: competition.id, state: 'waiting' }
+          }));
+        }
       }
     });
 
@@ -690,20 +1630,56 @@ export async function registerRoutes(app: ReturnType<typeof express>): Promise<S
     });
   };
 
-  // Override storage.startQuiz and storage.resetQuiz to broadcast changes
+  // Override the quiz state transitions in storage to broadcast changes
   const originalStartQuiz = storage.startQuiz;
-  storage.startQuiz = async () => {
-    const settings = await originalStartQuiz.call(storage);
+  storage.startQuiz = async (competitionId: number) => {
+    const settings = await originalStartQuiz.call(storage, competitionId);
+    broadcastQuizState(settings);
+    return settings;
+  };
+
+  const originalScheduleQuiz = storage.scheduleQuiz;
+  storage.scheduleQuiz = async (competitionId: number, scheduledStartTime: Date | null) => {
+    const settings = await originalScheduleQuiz.call(storage, competitionId, scheduledStartTime);
+    broadcastQuizState(settings);
+    return settings;
+  };
+
+  const originalPauseQuiz = storage.pauseQuiz;
+  storage.pauseQuiz = async (competitionId: number) => {
+    const settings = await originalPauseQuiz.call(storage, competitionId);
+    broadcastQuizState(settings);
+    return settings;
+  };
+
+  const originalResumeQuiz = storage.resumeQuiz;
+  storage.resumeQuiz = async (competitionId: number, extraSeconds?: number) => {
+    const settings = await originalResumeQuiz.call(storage, competitionId, extraSeconds);
+    broadcastQuizState(settings);
+    return settings;
+  };
+
+  const originalEndQuiz = storage.endQuiz;
+  storage.endQuiz = async (competitionId: number) => {
+    const settings = await originalEndQuiz.call(storage, competitionId);
     broadcastQuizState(settings);
     return settings;
   };
 
   const originalResetQuiz = storage.resetQuiz;
-  storage.resetQuiz = async () => {
-    const settings = await originalResetQuiz.call(storage);
+  storage.resetQuiz = async (competitionId: number, archiveName?: string) => {
+    const settings = await originalResetQuiz.call(storage, competitionId, archiveName);
     broadcastQuizState(settings);
     return settings;
   };
 
+  // Start and complete quizzes automatically at their scheduled times
+  const stopQuizScheduler = startQuizScheduler();
+  httpServer.on('close', stopQuizScheduler);
+
+  // Take automatic snapshots of the data
+  const stopSnapshotSchedule = startSnapshotSchedule();
+  httpServer.on('close', stopSnapshotSchedule);
+
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { storage } from "./storage";
+import { isPastDeadline } from "./quiz-timer";
+
+// How often quizzes are checked against their scheduled start and deadline
+const CHECK_INTERVAL_MS = 1000;
+
+// Start quizzes whose scheduled time has arrived and complete those whose deadline has passed
+async function runScheduledTransitions(): Promise<void> {
+  const now = new Date();
+  const competitions = await storage.listCompetitions();
+
+  for (const competition of competitions) {
+    const settings = await storage.getQuizSettings(competition.id);
+    if (!settings) continue;
+
+    if (settings.state === 'waiting' && settings.scheduledStartTime && new Date(settings.scheduledStartTime) <= now) {
+      await storage.startQuiz(competition.id);
+      console.log(`Quiz for competition ${competition.id} started at its scheduled time`);
+      continue;
+    }
+
+    if (settings.state !== 'started') continue;
+
+    // Students with a time extension keep the quiz open until their own deadline
+    const extensions = await storage.listTimeExtensions(competition.id);
+    const longestExtension = Math.max(0, ...extensions.map(extension => extension.extraSeconds));
+
+    if (isPastDeadline(settings, now, longestExtension)) {
+      await storage.endQuiz(competition.id);
+      console.log(`Quiz for competition ${competition.id} reached its deadline and was completed`);
+    }
+  }
+}
+
+// Start the background scheduler, returning a function that stops it
+export function startQuizScheduler(): () => void {
+  let running = false;
+
+  const interval = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow run
+    if (running) return;
+    running = true;
+
+    try {
+      await runScheduledTransitions();
+    } catch (error) {
+      console.error('Quiz scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL_MS);
+
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,45 @@
+import type { Result, SchoolRanking, SchoolStanding, User } from "@shared/schema";
+
+const byRank = (a: Pick<Result, 'rank' | 'score'>, b: Pick<Result, 'rank' | 'score'>) =>
+  (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER) || b.score - a.score;
+
+// Rank the schools of a competition by their best students' results, highest first.
+// Students without a school are left out, and schools with the same score share a rank.
+export function rankSchools(results: Result[], users: User[], rule: SchoolRanking): SchoolStanding[] {
+  const usersById = new Map(users.map(user => [user.id, user]));
+
+  const resultsBySchool = new Map<string, Result[]>();
+  results.forEach(result => {
+    const school = usersById.get(result.userId)?.school;
+    if (!school) return;
+
+    if (!resultsBySchool.has(school)) resultsBySchool.set(school, []);
+    resultsBySchool.get(school)!.push(result);
+  });
+
+  const standings: SchoolStanding[] = Array.from(resultsBySchool, ([school, schoolResults]) => {
+    const students = [...schoolResults].sort(byRank).map((result, index) => ({
+      userId: result.userId,
+      username: usersById.get(result.userId)?.username ?? null,
+      score: result.score,
+      rank: result.rank,
+      counted: index < rule.topStudents,
+    }));
+
+    const counted = students.filter(student => student.counted);
+    const total = counted.reduce((sum, student) => sum + student.score, 0);
+    const score = rule.aggregate === 'average'
+      ? Math.round((total / counted.length) * 100) / 100
+      : total;
+
+    return { school, rank: 0, score, studentCount: students.length, students };
+  });
+
+  standings.sort((a, b) => b.score - a.score || a.school.localeCompare(b.school));
+  standings.forEach((standing, index) => {
+    const previous = standings[index - 1];
+    standing.rank = previous && previous.score === standing.score ? previous.rank : index + 1;
+  });
+
+  return standings;
+}
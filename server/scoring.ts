@@ -0,0 +1,161 @@
+import { DEFAULT_SCORING_PROFILE, DEFAULT_RANKING_POLICY, type Question, type QuizAnswer, type Result, type ScoringProfile, type RankingPolicy } from "@shared/schema";
+
+export interface Score {
+  score: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  skippedAnswers: number;
+  averageResponseTime: number;
+}
+
+// Seconds the student spent on each answered question, as recorded with the answer. For
+// answers saved without it, responseTimeSeconds is measured from the start of the quiz,
+// so each answer took the time since the one before it.
+function secondsPerAnswer(userAnswers: QuizAnswer[]): Map<number, number> {
+  const byTime = [...userAnswers].sort((a, b) => (a.responseTimeSeconds ?? 0) - (b.responseTimeSeconds ?? 0));
+
+  let previous = 0;
+  return new Map(byTime.map(answer => {
+    const time = answer.responseTimeSeconds ?? 0;
+    const seconds = answer.timeSpentSeconds ?? Math.max(0, time - previous);
+    previous = time;
+    return [answer.questionId, seconds];
+  }));
+}
+
+function speedBonus(profile: ScoringProfile, seconds: number): number {
+  const { maxPoints, withinSeconds } = profile.speedBonus;
+  if (maxPoints <= 0 || seconds >= withinSeconds) return 0;
+
+  return maxPoints * (1 - seconds / withinSeconds);
+}
+
+// Score a student's answers against the competition's questions
+export function scoreAnswers(
+  userAnswers: QuizAnswer[],
+  questions: Question[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): Score {
+  let correctCount = 0;
+  let incorrectCount = 0;
+  let skippedCount = 0;
+  let totalResponseTime = 0;
+  let points = 0;
+
+  const answersByQuestion = new Map(userAnswers.map(answer => [answer.questionId, answer]));
+  const answerSeconds = secondsPerAnswer(userAnswers);
+
+  questions.forEach(question => {
+    const answer = answersByQuestion.get(question.id);
+    const difficulty = (question.difficulty ?? 'medium') as keyof ScoringProfile['difficultyWeights'];
+    const weight = profile.difficultyWeights[difficulty] ?? profile.difficultyWeights.medium;
+
+    // Unanswered questions count as skipped
+    if (!answer || answer.userAnswer === null) {
+      skippedCount++;
+      points += profile.skipped * weight;
+      return;
+    }
+
+    totalResponseTime += answer.responseTimeSeconds ?? 0;
+
+    if (answer.userAnswer === question.correctAnswer) {
+      correctCount++;
+      points += profile.correct * weight + speedBonus(profile, answerSeconds.get(question.id) ?? 0);
+    } else {
+      incorrectCount++;
+      points += profile.incorrect * weight;
+    }
+  });
+
+  // Calculate average response time
+  const answeredCount = correctCount + incorrectCount;
+  const averageTime = answeredCount > 0 ? Math.round(totalResponseTime / answeredCount) : 0;
+
+  return {
+    // Weights and bonuses can give fractions of a point; results hold whole points
+    score: Math.round(points),
+    correctAnswers: correctCount,
+    incorrectAnswers: incorrectCount,
+    skippedAnswers: skippedCount,
+    averageResponseTime: averageTime
+  };
+}
+
+// Each student's share of the hard questions on their own paper that they answered
+// correctly, by user id. Papers hold the questions each student was served, by user id.
+export function hardQuestionAccuracy(answers: QuizAnswer[], papers: Map<number, Question[]>): Map<number, number> {
+  const choices = new Map(answers.map(answer => [`${answer.userId}:${answer.questionId}`, answer.userAnswer]));
+
+  const accuracy = new Map<number, number>();
+  papers.forEach((paper, userId) => {
+    const hardQuestions = paper.filter(question => question.difficulty === 'hard');
+    const correct = hardQuestions.filter(question => {
+      const choice = choices.get(`${userId}:${question.id}`);
+      return choice != null && choice === question.correctAnswer;
+    }).length;
+    accuracy.set(userId, hardQuestions.length > 0 ? correct / hardQuestions.length : 0);
+  });
+  return accuracy;
+}
+
+// Negative when a should be ranked above b, zero when the policy cannot tell them apart
+function compareResults(a: Result, b: Result, policy: RankingPolicy, hardAccuracy: Map<number, number>): number {
+  if (a.score !== b.score) return b.score - a.score;
+
+  for (const tieBreaker of policy.tieBreakers) {
+    let difference = 0;
+    switch (tieBreaker) {
+      case 'completionTime':
+        // Results without a completion time come last
+        difference = (a.completionTime ?? Infinity) - (b.completionTime ?? Infinity);
+        if (Number.isNaN(difference)) difference = 0;
+        break;
+      case 'correctAnswers':
+        difference = b.correctAnswers - a.correctAnswers;
+        break;
+      case 'fewerIncorrect':
+        difference = a.incorrectAnswers - b.incorrectAnswers;
+        break;
+      case 'hardAccuracy':
+        difference = (hardAccuracy.get(b.userId) ?? 0) - (hardAccuracy.get(a.userId) ?? 0);
+        break;
+    }
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+}
+
+// Rank a competition's results, as a map of result id to rank. Results are ordered by
+// score and then by the policy's tie-breakers; those still tied share a rank.
+export function rankResults(
+  competitionResults: Result[],
+  policy: RankingPolicy = DEFAULT_RANKING_POLICY,
+  hardAccuracy: Map<number, number> = new Map(),
+): Map<number, number> {
+  const compare = (a: Result, b: Result) => compareResults(a, b, policy, hardAccuracy);
+  const sorted = [...competitionResults].sort((a, b) => compare(a, b) || a.id - b.id);
+
+  // Split into groups of tied results, best first
+  const groups: Result[][] = [];
+  sorted.forEach((result, index) => {
+    if (index > 0 && compare(sorted[index - 1], result) === 0) {
+      groups[groups.length - 1].push(result);
+    } else {
+      groups.push([result]);
+    }
+  });
+
+  const ranks = new Map<number, number>();
+  let placed = 0;
+  groups.forEach((group, groupIndex) => {
+    const rank = policy.method === 'dense' ? groupIndex + 1
+      : policy.method === 'shared' ? placed + group.length
+      : placed + 1;
+    group.forEach(result => ranks.set(result.id, rank));
+    placed += group.length;
+  });
+
+  return ranks;
+}
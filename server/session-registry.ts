@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import type { User } from "@shared/schema";
+
+// What happens when a student logs in while already logged in elsewhere: the new
+// login ends the old session ("takeover"), or is refused while the old one is live ("reject")
+export type StudentSessionPolicy = 'takeover' | 'reject';
+
+export const studentSessionPolicy: StudentSessionPolicy =
+  process.env.STUDENT_SESSION_POLICY === 'reject' ? 'reject' : 'takeover';
+
+// A session not seen for this long no longer blocks a new login; open quiz pages
+// poll every few seconds, so a live session is never this quiet
+const LIVE_WINDOW_MS = 2 * 60 * 1000;
+
+// Matches the session cookie lifetime
+const SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+export interface ActiveSession {
+  // Public identifier; the session ID itself never leaves the server
+  id: string;
+  sessionId: string;
+  userId: number;
+  username: string;
+  role: User['role'];
+  school: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+
+export function isSessionLive(session: Pick<ActiveSession, 'lastSeenAt'>, now: Date = new Date()): boolean {
+  return now.getTime() - session.lastSeenAt.getTime() < LIVE_WINDOW_MS;
+}
+
+// Logged-in sessions, kept in memory alongside the session store
+class SessionRegistry {
+  private sessions = new Map<string, ActiveSession>();
+
+  register(
+    sessionId: string,
+    user: Omit<User, 'password'>,
+    ipAddress: string | null,
+    userAgent: string | null,
+  ): ActiveSession {
+    const now = new Date();
+    const session: ActiveSession = {
+      id: randomUUID(),
+      sessionId,
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      school: user.school,
+      ipAddress,
+      userAgent,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  // Mark the session as seen, returning false if it is not registered
+  touch(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    session.lastSeenAt = new Date();
+    return true;
+  }
+
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  findById(id: string): ActiveSession | undefined {
+    return this.list().find(session => session.id === id);
+  }
+
+  listForUser(userId: number): ActiveSession[] {
+    return this.list().filter(session => session.userId === userId);
+  }
+
+  list(): ActiveSession[] {
+    // Drop sessions whose cookie has expired
+    const cutoff = Date.now() - SESSION_LIFETIME_MS;
+    for (const [sessionId, session] of Array.from(this.sessions)) {
+      if (session.createdAt.getTime() < cutoff) this.sessions.delete(sessionId);
+    }
+
+    return Array.from(this.sessions.values());
+  }
+}
+
+export const sessionRegistry = new SessionRegistry();
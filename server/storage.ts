@@ -1,7 +1,34 @@
 
 import fs from 'fs';
 import path from 'path';
-import { users, questions, quizSettings, quizAnswers, results, type User, type InsertUser, type Question, type InsertQuestion, type QuizSetting, type InsertQuizSetting, type QuizAnswer, type InsertQuizAnswer, type Result, type InsertResult } from "@shared/schema";
+import { AsyncLocalStorage } from 'async_hooks';
+import { getElapsedSeconds } from "./quiz-timer";
+import { startedSettings, pausedSettings, resumedSettings, completedSettings, resetSettings } from "./quiz-transitions";
+import { scoreAnswers, rankResults, hardQuestionAccuracy, type Score } from "./scoring";
+import { hashPassword, hashPasswordSync, isPasswordHash, superAdminFromEnv } from "./passwords";
+import { reviveDates } from "./json-dates";
+import { buildRoundArchive } from "./round-archives";
+import { answerKey, revisionOf, foldRepeatedAnswers } from "./answer-revisions";
+import { drawPaper, paperQuestions } from "./question-pools";
+import { DrizzleStorage } from "./drizzle-storage";
+import { users, questions, quizSettings, quizAnswers, results, DEFAULT_SCORING_PROFILE, DEFAULT_RANKING_POLICY, DEFAULT_SCHOOL_RANKING, paperLayoutSchema, DEFAULT_PAPER_LAYOUT, DEFAULT_NAVIGATION_POLICY, type User, type InsertUser, type Question, type InsertQuestion, type Competition, type InsertCompetition, type QuizSetting, type InsertQuizSetting, type QuizAnswer, type InsertQuizAnswer, type AnswerRevision, type Result, type InsertResult, type TimeExtension, type InsertTimeExtension, type QuestionDraw, type PaperPosition, type InsertPaperPosition, type LoginThrottle, type LoginEvent, type InsertLoginEvent, type LoginEventQuery, type RoundArchive } from "@shared/schema";
+
+// Everything a backup holds: the competition data and the next id for each table.
+// Login throttles and the login audit log are not part of it.
+export interface StorageData {
+  users: User[];
+  questions: Question[];
+  competitions: Competition[];
+  quizSettings: QuizSetting[];
+  quizAnswers: QuizAnswer[];
+  answerRevisions: AnswerRevision[];
+  results: Result[];
+  timeExtensions: TimeExtension[];
+  questionDraws: QuestionDraw[];
+  paperPositions: PaperPosition[];
+  roundArchives: RoundArchive[];
+  counters: Record<string, number>;
+}
 
 // Storage interface
 export interface IStorage {
@@ -10,6 +37,8 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser> & { lastLogin?: Date }): Promise<User | undefined>;
+  // Deletes the user along with their answers, results, time extensions and papers. Records
+  // they created or granted, and their login events, are kept without them.
   deleteUser(id: number): Promise<boolean>;
   listUsers(): Promise<User[]>;
 
@@ -17,31 +46,102 @@ export interface IStorage {
   getQuestion(id: number): Promise<Question | undefined>;
   createQuestion(question: InsertQuestion): Promise<Question>;
   updateQuestion(id: number, question: Partial<InsertQuestion>): Promise<Question | undefined>;
+  // Deletes the question along with every answer to it, and takes it out of competition
+  // question sets. Results already saved are not rescored.
   deleteQuestion(id: number): Promise<boolean>;
   listQuestions(): Promise<Question[]>;
 
+  // Competition management
+  getCompetition(id: number): Promise<Competition | undefined>;
+  createCompetition(competition: InsertCompetition): Promise<Competition>;
+  // Changing the scoring profile rescores the competition's results, and changing the
+  // ranking policy ranks them again
+  updateCompetition(id: number, competition: Partial<InsertCompetition>): Promise<Competition | undefined>;
+  deleteCompetition(id: number): Promise<boolean>;
+  listCompetitions(): Promise<Competition[]>;
+  listCompetitionQuestions(competitionId: number): Promise<Question[]>;
+  listCompetitionParticipants(competitionId: number): Promise<User[]>;
+
   // Quiz settings
-  getQuizSettings(): Promise<QuizSetting | undefined>;
-  createOrUpdateQuizSettings(settings: Partial<InsertQuizSetting>): Promise<QuizSetting>;
-  startQuiz(): Promise<QuizSetting>;
-  resetQuiz(): Promise<QuizSetting>;
+  getQuizSettings(competitionId: number): Promise<QuizSetting | undefined>;
+  createOrUpdateQuizSettings(competitionId: number, settings: Partial<InsertQuizSetting>): Promise<QuizSetting>;
+  startQuiz(competitionId: number): Promise<QuizSetting>;
+  // Sets or clears (null) the time at which the quiz starts automatically
+  scheduleQuiz(competitionId: number, scheduledStartTime: Date | null): Promise<QuizSetting>;
+  // Pausing freezes the deadline; resuming moves it back by the paused time plus any extra time
+  pauseQuiz(competitionId: number): Promise<QuizSetting>;
+  resumeQuiz(competitionId: number, extraSeconds?: number): Promise<QuizSetting>;
+  // Completes the quiz and finalizes results and rankings for every participating student,
+  // including those who answered nothing
+  endQuiz(competitionId: number): Promise<QuizSetting>;
+  // Archives the round under the given name (if anything was recorded in it), then
+  // clears its answers and results
+  resetQuiz(competitionId: number, archiveName?: string): Promise<QuizSetting>;
 
   // Quiz answers
+  // Saves the student's answer to the question, replacing their earlier answer to it,
+  // which goes into the revision log. Choosing the same option again only updates the
+  // time spent on the question.
   saveQuizAnswer(answer: InsertQuizAnswer): Promise<QuizAnswer>;
-  getQuizAnswersForUser(userId: number): Promise<QuizAnswer[]>;
+  getQuizAnswersForUser(competitionId: number, userId: number): Promise<QuizAnswer[]>;
+  listQuizAnswers(competitionId: number): Promise<QuizAnswer[]>;
+  // Oldest first, for every student or just one
+  listAnswerRevisions(competitionId: number, userId?: number): Promise<AnswerRevision[]>;
 
   // Results
-  getResult(userId: number): Promise<Result | undefined>;
+  getResult(competitionId: number, userId: number): Promise<Result | undefined>;
   saveResult(result: InsertResult): Promise<Result>;
-  listResults(): Promise<Result[]>;
-  calculateRankings(): Promise<void>;
-  calculateScore(userId: number): Promise<{
-    score: number;
-    correctAnswers: number;
-    incorrectAnswers: number;
-    skippedAnswers: number;
-    averageResponseTime: number;
-  }>;
+  // Records the student's final result, scored from their saved answers and timed by the
+  // server clock, or undefined when they already have one
+  submitResult(competitionId: number, userId: number): Promise<Result | undefined>;
+  updateResult(competitionId: number, userId: number, result: Partial<InsertResult>): Promise<Result | undefined>;
+  listResults(competitionId: number): Promise<Result[]>;
+  calculateRankings(competitionId: number): Promise<void>;
+  calculateScore(competitionId: number, userId: number): Promise<Score>;
+
+  // Time extensions
+  getTimeExtension(competitionId: number, userId: number): Promise<TimeExtension | undefined>;
+  // Creates the user's extension for the competition, or replaces the existing one
+  setTimeExtension(extension: InsertTimeExtension): Promise<TimeExtension>;
+  deleteTimeExtension(competitionId: number, userId: number): Promise<boolean>;
+  listTimeExtensions(competitionId: number): Promise<TimeExtension[]>;
+
+  // Question papers
+  // The questions served to the student. A competition with a question blueprint draws
+  // the student's paper the first time it is asked for and keeps it until the quiz is
+  // reset; without one, every student gets all of the competition's questions.
+  getQuestionPaper(competitionId: number, userId: number): Promise<Question[]>;
+
+  // Paper positions
+  getPaperPosition(competitionId: number, userId: number): Promise<PaperPosition | undefined>;
+  // Records the page the student is on and their clock on it, replacing the previous position
+  savePaperPosition(position: InsertPaperPosition): Promise<PaperPosition>;
+
+  // Round archives, newest first
+  listRoundArchives(competitionId?: number): Promise<RoundArchive[]>;
+  getRoundArchive(id: number): Promise<RoundArchive | undefined>;
+
+  // Login throttling
+  getLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<LoginThrottle | undefined>;
+  // Creates the throttle for the scope and key, or replaces the existing one
+  saveLoginThrottle(throttle: Omit<LoginThrottle, 'id'>): Promise<LoginThrottle>;
+  deleteLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<boolean>;
+  listLoginThrottles(): Promise<LoginThrottle[]>;
+
+  // Login audit log
+  recordLoginEvent(event: InsertLoginEvent): Promise<LoginEvent>;
+  // Most recent first
+  listLoginEvents(query: LoginEventQuery): Promise<LoginEvent[]>;
+
+  // Run several operations as one: no other change interleaves with them, and if the
+  // operation throws, none of its changes are kept. Use the storage passed to the
+  // operation for everything that belongs to the transaction.
+  transaction<T>(operation: (storage: IStorage) => Promise<T>): Promise<T>;
+
+  // Backups
+  exportData(): Promise<StorageData>;
+  // Replaces all competition data with the given data
+  importData(data: StorageData): Promise<void>;
 }
 
 // Define the storage directory for JSON files
@@ -56,9 +156,22 @@ if (!fs.existsSync(DATA_DIR)) {
 const FILES = {
   USERS: path.join(DATA_DIR, 'users.json'),
   QUESTIONS: path.join(DATA_DIR, 'questions.json'),
+  COMPETITIONS: path.join(DATA_DIR, 'competitions.json'),
   QUIZ_SETTINGS: path.join(DATA_DIR, 'quiz_settings.json'),
   QUIZ_ANSWERS: path.join(DATA_DIR, 'quiz_answers.json'),
+  ANSWER_REVISIONS: path.join(DATA_DIR, 'answer_revisions.json'),
+  // Answer changes since quiz_answers.json and answer_revisions.json were last written,
+  // one JSON entry per line
+  QUIZ_ANSWERS_JOURNAL: path.join(DATA_DIR, 'quiz_answers.journal'),
   RESULTS: path.join(DATA_DIR, 'results.json'),
+  TIME_EXTENSIONS: path.join(DATA_DIR, 'time_extensions.json'),
+  QUESTION_DRAWS: path.join(DATA_DIR, 'question_draws.json'),
+  PAPER_POSITIONS: path.join(DATA_DIR, 'paper_positions.json'),
+  ROUND_ARCHIVES: path.join(DATA_DIR, 'round_archives.json'),
+  LOGIN_THROTTLES: path.join(DATA_DIR, 'login_throttles.json'),
+  LOGIN_EVENTS: path.join(DATA_DIR, 'login_events.json'),
+  // Failed logins recorded before the login audit log existed
+  FAILED_LOGINS: path.join(DATA_DIR, 'failed_logins.json'),
   COUNTERS: path.join(DATA_DIR, 'counters.json'),
 };
 
@@ -66,37 +179,69 @@ const FILES = {
 const DEFAULT_DATA = {
   USERS: [] as User[],
   QUESTIONS: [] as Question[],
-  QUIZ_SETTINGS: {
-    id: 1,
-    state: 'waiting',
-    startTime: null,
-    endTime: null,
-    lastReset: null,
-    updatedAt: new Date(),
-  } as QuizSetting,
+  COMPETITIONS: [] as Competition[],
+  QUIZ_SETTINGS: [] as QuizSetting[],
   QUIZ_ANSWERS: [] as QuizAnswer[],
+  ANSWER_REVISIONS: [] as AnswerRevision[],
   RESULTS: [] as Result[],
+  TIME_EXTENSIONS: [] as TimeExtension[],
+  QUESTION_DRAWS: [] as QuestionDraw[],
+  PAPER_POSITIONS: [] as PaperPosition[],
+  ROUND_ARCHIVES: [] as RoundArchive[],
+  LOGIN_THROTTLES: [] as LoginThrottle[],
+  LOGIN_EVENTS: [] as LoginEvent[],
   COUNTERS: {
     userIdCounter: 1,
     questionIdCounter: 1,
+    competitionIdCounter: 1,
+    quizSettingIdCounter: 1,
     quizAnswerIdCounter: 1,
+    answerRevisionIdCounter: 1,
     resultIdCounter: 1,
+    timeExtensionIdCounter: 1,
+    questionDrawIdCounter: 1,
+    paperPositionIdCounter: 1,
+    roundArchiveIdCounter: 1,
+    loginThrottleIdCounter: 1,
+    loginEventIdCounter: 1,
   },
 };
 
+// Name of the competition created for data recorded before competitions existed
+const DEFAULT_COMPETITION_NAME = 'Main Competition';
+
+// Quiz length used when a competition has not configured one
+const DEFAULT_QUIZ_DURATION_SECONDS = 3600;
+
+// Older login events are dropped so the file stays small
+const MAX_LOGIN_EVENTS = 20000;
+
+// Credentials that earlier versions created automatically; accounts still using them
+// must choose a new password after migration
+const LEGACY_DEFAULT_CREDENTIALS: Record<string, string> = {
+  admin: 'admin123',
+  superadmin: 'superadmin123',
+};
+
+// The answer journal is folded into quiz_answers.json after this many entries,
+// and at least this often while answers are coming in
+const JOURNAL_COMPACT_ENTRIES = 500;
+const JOURNAL_COMPACT_INTERVAL_MS = 60 * 1000;
+
+// A change to the quiz answers, as recorded in the journal. Replaying entries is
+// idempotent, so entries already folded into the snapshot can safely be replayed again.
+type AnswerJournalEntry =
+  // The revision holds the answer this one replaced
+  | { op: 'save'; answer: QuizAnswer; revision?: AnswerRevision }
+  // Clears the answers and revisions that match every id given
+  | { op: 'clear'; competitionId?: number; userId?: number; questionId?: number };
+
 // Helper function to read JSON file
 function readJsonFile<T>(filePath: string, defaultData: T): T {
   try {
     if (fs.existsSync(filePath)) {
       const data = fs.readFileSync(filePath, 'utf8');
-      return JSON.parse(data, (key, value) => {
-        // Parse ISO dates back to Date objects
-        if (typeof value === 'string' && 
-            /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}.*Z$/.test(value)) {
-          return new Date(value);
-        }
-        return value;
-      });
+      return JSON.parse(data, reviveDates);
     }
   } catch (error) {
     console.error(`Error reading file ${filePath}:`, error);
@@ -105,10 +250,67 @@ function readJsonFile<T>(filePath: string, defaultData: T): T {
   return defaultData;
 }
 
-// Helper function to write JSON file
+// Write through a file descriptor and flush it to disk before returning
+function writeAndSync(filePath: string, data: string, flags: string): void {
+  const fd = fs.openSync(filePath, flags);
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Helper function to write JSON file. The data goes to a temporary file that then
+// replaces the original, so a crash mid-write never leaves a truncated file behind.
 function writeJsonFile<T>(filePath: string, data: T): void {
+  const tempPath = `${filePath}.tmp`;
+  try {
+    writeAndSync(tempPath, JSON.stringify(data, null, 2), 'w');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    console.error(`Error writing file ${filePath}:`, error);
+  }
+}
+
+// Read the journal's entries in order. A crash mid-append can leave a partial last
+// line, which is skipped.
+function readJournal<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const entries: T[] = [];
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim() !== '');
+  lines.forEach((line, index) => {
+    try {
+      entries.push(JSON.parse(line, reviveDates));
+    } catch {
+      console.warn(`Skipping unreadable entry ${index + 1} of ${filePath}`);
+    }
+  });
+
+  return entries;
+}
+
+// The JsonStorage fields holding each collection
+type CollectionName = 'users' | 'questions' | 'competitions' | 'quizSettings' | 'quizAnswers' | 'answerRevisions' |
+  'results' | 'timeExtensions' | 'questionDraws' | 'paperPositions' | 'roundArchives' | 'loginThrottles' | 'loginEvents';
+
+// Changes made inside a JsonStorage transaction, written to disk when it commits
+interface PendingWrites {
+  files: Map<string, unknown>;
+  journal: AnswerJournalEntry[];
+  // Each collection the transaction changed, as it was before the first change
+  originals: Map<CollectionName, object[]>;
+}
+
+// Set while a queued mutation runs; pending is present inside a transaction
+interface MutationContext {
+  pending: PendingWrites | null;
+}
+
+function appendJournal<T>(filePath: string, entry: T): void {
   try {
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+    writeAndSync(filePath, JSON.stringify(entry) + '\n', 'a');
   } catch (error) {
     console.error(`Error writing file ${filePath}:`, error);
   }
@@ -117,66 +319,447 @@ function writeJsonFile<T>(filePath: string, data: T): void {
 export class JsonStorage implements IStorage {
   private users: User[];
   private questions: Question[];
-  private quizSettings: QuizSetting;
+  private competitions: Competition[];
+  private quizSettings: QuizSetting[];
   private quizAnswers: QuizAnswer[];
+  private answerRevisions: AnswerRevision[];
   private results: Result[];
+  private timeExtensions: TimeExtension[];
+  private questionDraws: QuestionDraw[];
+  private paperPositions: PaperPosition[];
+  private roundArchives: RoundArchive[];
+  private loginThrottles: LoginThrottle[];
+  private loginEvents: LoginEvent[];
 
   private userIdCounter: number;
   private questionIdCounter: number;
+  private competitionIdCounter: number;
+  private quizSettingIdCounter: number;
   private quizAnswerIdCounter: number;
+  private answerRevisionIdCounter: number;
   private resultIdCounter: number;
+  private timeExtensionIdCounter: number;
+  private questionDrawIdCounter: number;
+  private paperPositionIdCounter: number;
+  private roundArchiveIdCounter: number;
+  private loginThrottleIdCounter: number;
+  private loginEventIdCounter: number;
+
+  // Entries appended to the answer journal since the last compaction
+  private journalEntries = 0;
+
+  // Mutations run one at a time, in the order they were requested
+  private queue: Promise<unknown> = Promise.resolve();
+  private mutation = new AsyncLocalStorage<MutationContext>();
 
   constructor() {
     // Initialize with data from files or defaults
     this.users = readJsonFile<User[]>(FILES.USERS, DEFAULT_DATA.USERS);
     this.questions = readJsonFile<Question[]>(FILES.QUESTIONS, DEFAULT_DATA.QUESTIONS);
-    this.quizSettings = readJsonFile<QuizSetting>(FILES.QUIZ_SETTINGS, DEFAULT_DATA.QUIZ_SETTINGS);
+    this.competitions = readJsonFile<Competition[]>(FILES.COMPETITIONS, DEFAULT_DATA.COMPETITIONS);
+    this.quizSettings = readJsonFile<QuizSetting[]>(FILES.QUIZ_SETTINGS, DEFAULT_DATA.QUIZ_SETTINGS);
     this.quizAnswers = readJsonFile<QuizAnswer[]>(FILES.QUIZ_ANSWERS, DEFAULT_DATA.QUIZ_ANSWERS);
+    this.answerRevisions = readJsonFile<AnswerRevision[]>(FILES.ANSWER_REVISIONS, DEFAULT_DATA.ANSWER_REVISIONS);
     this.results = readJsonFile<Result[]>(FILES.RESULTS, DEFAULT_DATA.RESULTS);
+    this.timeExtensions = readJsonFile<TimeExtension[]>(FILES.TIME_EXTENSIONS, DEFAULT_DATA.TIME_EXTENSIONS);
+    this.questionDraws = readJsonFile<QuestionDraw[]>(FILES.QUESTION_DRAWS, DEFAULT_DATA.QUESTION_DRAWS);
+    this.paperPositions = readJsonFile<PaperPosition[]>(FILES.PAPER_POSITIONS, DEFAULT_DATA.PAPER_POSITIONS);
+    this.roundArchives = readJsonFile<RoundArchive[]>(FILES.ROUND_ARCHIVES, DEFAULT_DATA.ROUND_ARCHIVES);
+    this.loginThrottles = readJsonFile<LoginThrottle[]>(FILES.LOGIN_THROTTLES, DEFAULT_DATA.LOGIN_THROTTLES);
+    this.loginEvents = readJsonFile<LoginEvent[]>(FILES.LOGIN_EVENTS, DEFAULT_DATA.LOGIN_EVENTS);
 
     const counters = readJsonFile(FILES.COUNTERS, DEFAULT_DATA.COUNTERS);
     this.userIdCounter = counters.userIdCounter;
     this.questionIdCounter = counters.questionIdCounter;
+    this.competitionIdCounter = counters.competitionIdCounter ?? DEFAULT_DATA.COUNTERS.competitionIdCounter;
+    this.quizSettingIdCounter = counters.quizSettingIdCounter ?? DEFAULT_DATA.COUNTERS.quizSettingIdCounter;
     this.quizAnswerIdCounter = counters.quizAnswerIdCounter;
+    this.answerRevisionIdCounter = counters.answerRevisionIdCounter ?? DEFAULT_DATA.COUNTERS.answerRevisionIdCounter;
     this.resultIdCounter = counters.resultIdCounter;
+    this.timeExtensionIdCounter = counters.timeExtensionIdCounter ?? DEFAULT_DATA.COUNTERS.timeExtensionIdCounter;
+    this.questionDrawIdCounter = counters.questionDrawIdCounter ?? DEFAULT_DATA.COUNTERS.questionDrawIdCounter;
+    this.paperPositionIdCounter = counters.paperPositionIdCounter ?? DEFAULT_DATA.COUNTERS.paperPositionIdCounter;
+    this.roundArchiveIdCounter = counters.roundArchiveIdCounter ?? DEFAULT_DATA.COUNTERS.roundArchiveIdCounter;
+    this.loginThrottleIdCounter = counters.loginThrottleIdCounter ?? DEFAULT_DATA.COUNTERS.loginThrottleIdCounter;
+    this.loginEventIdCounter = counters.loginEventIdCounter ?? DEFAULT_DATA.COUNTERS.loginEventIdCounter;
+
+    // Recover answers saved since the answer file was last written
+    this.replayAnswerJournal();
+
+    // Hash passwords stored in plaintext by earlier versions
+    if (this.users.some(user => !isPasswordHash(user.password))) {
+      this.migratePasswords();
+    }
 
-    // Create default data if no data exists
-    if (this.users.length === 0) {
-      this.createDefaultUsers();
+    // Failed logins recorded before the audit log become failure events
+    if (fs.existsSync(FILES.FAILED_LOGINS)) {
+      this.migrateFailedLogins();
     }
 
+    // Create the first super admin from the environment if there is none
+    if (!this.users.some(user => user.role === 'superadmin')) {
+      this.bootstrapSuperAdmin();
+    }
+
+    // Move data from the single-quiz layout into a default competition
+    if (this.competitions.length === 0) {
+      this.migrateToCompetitions();
+    }
+
+    // Earlier versions kept every answer a student chose; the latest one counts
+    if (new Set(this.quizAnswers.map(answerKey)).size < this.quizAnswers.length) {
+      this.migrateRepeatedAnswers();
+    }
+
+    // Questions written before topics existed have none
+    this.questions = this.questions.map(question => ({ ...question, topic: question.topic ?? null }));
+
+    // Competitions created before scoring and ranking were configurable get the defaults,
+    // those created before question blueprints serve every question, and those created
+    // before paper layouts and navigation policies keep the forward-only batches of four,
+    // without time limits
+    this.competitions = this.competitions.map(competition => ({
+      ...competition,
+      questionBlueprint: competition.questionBlueprint ?? [],
+      paperLayout: paperLayoutSchema.parse(competition.paperLayout ?? DEFAULT_PAPER_LAYOUT),
+      navigationPolicy: competition.navigationPolicy ?? DEFAULT_NAVIGATION_POLICY,
+      scoringProfile: competition.scoringProfile ?? DEFAULT_SCORING_PROFILE,
+      rankingPolicy: competition.rankingPolicy ?? DEFAULT_RANKING_POLICY,
+      schoolRanking: competition.schoolRanking ?? DEFAULT_SCHOOL_RANKING,
+    }));
+
+    // Settings saved before durations were configurable get the default length
+    this.quizSettings = this.quizSettings.map(settings => ({
+      ...settings,
+      durationSeconds: settings.durationSeconds ?? DEFAULT_QUIZ_DURATION_SECONDS,
+      scheduledStartTime: settings.scheduledStartTime ?? null,
+      pausedAt: settings.pausedAt ?? null,
+      pausedSeconds: settings.pausedSeconds ?? 0,
+    }));
+
     // if (this.questions.length === 0) {
     //   this.createDefaultQuestions();
     // }
 
     // Save counters to ensure they are persisted
     this.saveCounters();
+
+    // Queued so that a compaction never writes out an unfinished transaction
+    setInterval(() => {
+      this.serialized(async () => {
+        if (this.journalEntries > 0) this.compactAnswers();
+      });
+    }, JOURNAL_COMPACT_INTERVAL_MS).unref();
   }
 
-  private saveCounters(): void {
-    const counters = {
+  // Run a mutation after those already queued. Calls made from inside a queued
+  // mutation run straight away as part of it.
+  private serialized<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.mutation.getStore()) return operation();
+
+    const result = this.queue.then(() => this.mutation.run({ pending: null }, operation));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async transaction<T>(operation: (storage: IStorage) => Promise<T>): Promise<T> {
+    // A transaction started inside another one becomes part of it
+    if (this.mutation.getStore()?.pending) return operation(this);
+
+    return this.serialized(async () => {
+      const counters = this.counters();
+      const pending: PendingWrites = { files: new Map(), journal: [], originals: new Map() };
+
+      let result: T;
+      try {
+        result = await this.mutation.run({ pending }, () => operation(this));
+      } catch (error) {
+        this.rollback(pending, counters);
+        throw error;
+      }
+
+      pending.files.forEach((data, filePath) => writeJsonFile(filePath, data));
+      pending.journal.forEach(entry => this.appendAnswerJournal(entry));
+      return result;
+    });
+  }
+
+  // Inside a transaction, copy each of the collections about to change unless it already
+  // changed, so that a rollback can put it back. Call before changing a collection.
+  private touch(...names: CollectionName[]): void {
+    const pending = this.mutation.getStore()?.pending;
+    if (!pending) return;
+
+    names.forEach(name => {
+      if (!pending.originals.has(name)) {
+        pending.originals.set(name, (this[name] as object[]).map(item => ({ ...item })));
+      }
+    });
+  }
+
+  // Put back the collections a transaction changed, and the counters as they were when it began
+  private rollback(pending: PendingWrites, counters: ReturnType<JsonStorage['counters']>): void {
+    pending.originals.forEach((items, name) => Object.assign(this, { [name]: items }));
+
+    this.userIdCounter = counters.userIdCounter;
+    this.questionIdCounter = counters.questionIdCounter;
+    this.competitionIdCounter = counters.competitionIdCounter;
+    this.quizSettingIdCounter = counters.quizSettingIdCounter;
+    this.quizAnswerIdCounter = counters.quizAnswerIdCounter;
+    this.answerRevisionIdCounter = counters.answerRevisionIdCounter;
+    this.resultIdCounter = counters.resultIdCounter;
+    this.timeExtensionIdCounter = counters.timeExtensionIdCounter;
+    this.questionDrawIdCounter = counters.questionDrawIdCounter;
+    this.paperPositionIdCounter = counters.paperPositionIdCounter;
+    this.roundArchiveIdCounter = counters.roundArchiveIdCounter;
+    this.loginThrottleIdCounter = counters.loginThrottleIdCounter;
+    this.loginEventIdCounter = counters.loginEventIdCounter;
+  }
+
+  // Write a data file, or inside a transaction, hold the write until it commits
+  private write<T>(filePath: string, data: T): void {
+    const pending = this.mutation.getStore()?.pending;
+    if (pending) {
+      pending.files.set(filePath, data);
+    } else {
+      writeJsonFile(filePath, data);
+    }
+  }
+
+  private counters() {
+    return {
       userIdCounter: this.userIdCounter,
       questionIdCounter: this.questionIdCounter,
+      competitionIdCounter: this.competitionIdCounter,
+      quizSettingIdCounter: this.quizSettingIdCounter,
       quizAnswerIdCounter: this.quizAnswerIdCounter,
+      answerRevisionIdCounter: this.answerRevisionIdCounter,
       resultIdCounter: this.resultIdCounter,
+      timeExtensionIdCounter: this.timeExtensionIdCounter,
+      questionDrawIdCounter: this.questionDrawIdCounter,
+      paperPositionIdCounter: this.paperPositionIdCounter,
+      roundArchiveIdCounter: this.roundArchiveIdCounter,
+      loginThrottleIdCounter: this.loginThrottleIdCounter,
+      loginEventIdCounter: this.loginEventIdCounter,
     };
+  }
+
+  private saveCounters(): void {
+    this.write(FILES.COUNTERS, this.counters());
+  }
+
+  private applyAnswerJournalEntry(entry: AnswerJournalEntry): void {
+    if (entry.op === 'save') {
+      const answerIndex = this.quizAnswers.findIndex(answer => answer.id === entry.answer.id);
+      if (answerIndex === -1) {
+        this.quizAnswers.push(entry.answer);
+      } else {
+        this.quizAnswers[answerIndex] = entry.answer;
+      }
+
+      const revision = entry.revision;
+      if (revision && !this.answerRevisions.some(existing => existing.id === revision.id)) {
+        this.answerRevisions.push(revision);
+      }
+    } else {
+      const cleared = (record: Pick<QuizAnswer, 'competitionId' | 'userId' | 'questionId'>) =>
+        (entry.competitionId === undefined || record.competitionId === entry.competitionId) &&
+        (entry.userId === undefined || record.userId === entry.userId) &&
+        (entry.questionId === undefined || record.questionId === entry.questionId);
+      this.quizAnswers = this.quizAnswers.filter(answer => !cleared(answer));
+      this.answerRevisions = this.answerRevisions.filter(revision => !cleared(revision));
+    }
+  }
+
+  private replayAnswerJournal(): void {
+    const entries = readJournal<AnswerJournalEntry>(FILES.QUIZ_ANSWERS_JOURNAL);
+    if (entries.length === 0) return;
+
+    entries.forEach(entry => this.applyAnswerJournalEntry(entry));
+
+    // The counters file may have been written before the last answers were
+    const nextAnswerId = Math.max(0, ...this.quizAnswers.map(answer => answer.id)) + 1;
+    this.quizAnswerIdCounter = Math.max(this.quizAnswerIdCounter, nextAnswerId);
+    const nextRevisionId = Math.max(0, ...this.answerRevisions.map(revision => revision.id)) + 1;
+    this.answerRevisionIdCounter = Math.max(this.answerRevisionIdCounter, nextRevisionId);
 
-    writeJsonFile(FILES.COUNTERS, counters);
+    this.compactAnswers();
+    console.log(`Recovered ${entries.length} answer changes from the journal`);
   }
 
-  private createDefaultUsers(): void {
-    // Create default admin and superadmin accounts
-    this.createUser({
-      username: 'admin',
-      password: 'admin123',
-      role: 'admin',
+  // Record an answer change in the journal instead of rewriting the whole answer file
+  private journalAnswers(entry: AnswerJournalEntry): void {
+    this.touch('quizAnswers', 'answerRevisions');
+    this.applyAnswerJournalEntry(entry);
+
+    const pending = this.mutation.getStore()?.pending;
+    if (pending) {
+      pending.journal.push(entry);
+    } else {
+      this.appendAnswerJournal(entry);
+    }
+  }
+
+  private appendAnswerJournal(entry: AnswerJournalEntry): void {
+    appendJournal(FILES.QUIZ_ANSWERS_JOURNAL, entry);
+
+    this.journalEntries++;
+    if (this.journalEntries >= JOURNAL_COMPACT_ENTRIES) {
+      this.compactAnswers();
+    }
+  }
+
+  // Fold the journal into quiz_answers.json and answer_revisions.json. The journal is
+  // only emptied once the snapshot is safely on disk.
+  private compactAnswers(): void {
+    writeJsonFile(FILES.QUIZ_ANSWERS, this.quizAnswers);
+    writeJsonFile(FILES.ANSWER_REVISIONS, this.answerRevisions);
+    try {
+      fs.truncateSync(FILES.QUIZ_ANSWERS_JOURNAL, 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error writing file ${FILES.QUIZ_ANSWERS_JOURNAL}:`, error);
+      }
+    }
+    this.journalEntries = 0;
+  }
+
+  // Keep the latest answer to each question, moving the earlier ones into the revision log
+  private migrateRepeatedAnswers(): void {
+    const { latest, replaced } = foldRepeatedAnswers(this.quizAnswers);
+
+    this.quizAnswers = latest;
+    this.answerRevisions.push(...replaced.map(revision => ({ ...revision, id: this.answerRevisionIdCounter++ })));
+    this.compactAnswers();
+    console.log(`Moved ${replaced.length} replaced answers into the revision log`);
+  }
+
+  private migratePasswords(): void {
+    this.users = this.users.map(user => {
+      if (isPasswordHash(user.password)) return user;
+
+      return {
+        ...user,
+        password: hashPasswordSync(user.password),
+        mustChangePassword: user.mustChangePassword || LEGACY_DEFAULT_CREDENTIALS[user.username] === user.password,
+      };
     });
 
-    this.createUser({
-      username: 'superadmin',
-      password: 'superadmin123',
+    writeJsonFile(FILES.USERS, this.users);
+    console.log('Migrated stored passwords to salted hashes');
+  }
+
+  private migrateFailedLogins(): void {
+    const failedLogins = readJsonFile<{ username: string; userId: number | null; ipAddress: string | null; reason: string; createdAt: Date | null }[]>(FILES.FAILED_LOGINS, []);
+
+    for (const failedLogin of failedLogins) {
+      const user = failedLogin.userId !== null ? this.users.find(u => u.id === failedLogin.userId) : undefined;
+      this.loginEvents.push({
+        id: this.loginEventIdCounter++,
+        type: 'failure',
+        userId: failedLogin.userId,
+        username: failedLogin.username,
+        role: user?.role ?? null,
+        school: user?.school ?? null,
+        ipAddress: failedLogin.ipAddress,
+        userAgent: null,
+        reason: failedLogin.reason,
+        createdAt: failedLogin.createdAt,
+      });
+    }
+
+    this.loginEvents.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime());
+    writeJsonFile(FILES.LOGIN_EVENTS, this.loginEvents);
+    fs.unlinkSync(FILES.FAILED_LOGINS);
+    console.log(`Moved ${failedLogins.length} failed logins into the login audit log`);
+  }
+
+  private bootstrapSuperAdmin(): void {
+    const credentials = superAdminFromEnv();
+    if (!credentials) return;
+
+    if (this.users.some(user => user.username.toLowerCase() === credentials.username.toLowerCase())) {
+      console.warn(`Cannot create super admin "${credentials.username}": the username is already taken`);
+      return;
+    }
+
+    // The environment password is only for the first login
+    this.users.push({
+      id: this.userIdCounter++,
+      username: credentials.username,
+      password: hashPasswordSync(credentials.password),
       role: 'superadmin',
+      school: null,
+      mustChangePassword: true,
+      lastLogin: null,
+      createdAt: new Date(),
     });
+
+    writeJsonFile(FILES.USERS, this.users);
+    console.log(`Created super admin account "${credentials.username}"`);
+  }
+
+  private migrateToCompetitions(): void {
+    const competition: Competition = {
+      id: this.competitionIdCounter++,
+      name: DEFAULT_COMPETITION_NAME,
+      type: 'preliminary',
+      description: null,
+      questionIds: [],
+      questionBlueprint: [],
+      paperLayout: DEFAULT_PAPER_LAYOUT,
+      navigationPolicy: DEFAULT_NAVIGATION_POLICY,
+      participantIds: [],
+      scoringProfile: DEFAULT_SCORING_PROFILE,
+      rankingPolicy: DEFAULT_RANKING_POLICY,
+      schoolRanking: DEFAULT_SCHOOL_RANKING,
+      createdBy: null,
+      createdAt: new Date(),
+    };
+    this.competitions.push(competition);
+
+    // quiz_settings.json used to hold a single settings object for the whole app
+    const legacySettings = this.quizSettings as unknown as QuizSetting | QuizSetting[];
+    this.quizSettings = [];
+    if (legacySettings && !Array.isArray(legacySettings)) {
+      this.quizSettings.push({
+        ...legacySettings,
+        id: this.quizSettingIdCounter++,
+        competitionId: competition.id,
+      });
+    } else {
+      this.quizSettings.push(this.buildDefaultSettings(competition.id));
+    }
+
+    this.quizAnswers = this.quizAnswers.map(answer => ({
+      ...answer,
+      competitionId: answer.competitionId ?? competition.id,
+    }));
+    this.results = this.results.map(result => ({
+      ...result,
+      competitionId: result.competitionId ?? competition.id,
+    }));
+
+    writeJsonFile(FILES.COMPETITIONS, this.competitions);
+    writeJsonFile(FILES.QUIZ_SETTINGS, this.quizSettings);
+    writeJsonFile(FILES.QUIZ_ANSWERS, this.quizAnswers);
+    writeJsonFile(FILES.RESULTS, this.results);
+  }
+
+  private buildDefaultSettings(competitionId: number): QuizSetting {
+    return {
+      id: this.quizSettingIdCounter++,
+      competitionId,
+      state: 'waiting',
+      durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS,
+      scheduledStartTime: null,
+      startTime: null,
+      endTime: null,
+      pausedAt: null,
+      pausedSeconds: 0,
+      lastReset: null,
+      updatedAt: new Date(),
+    };
   }
 
   // private createDefaultQuestions(): void {
@@ -242,49 +825,83 @@ export class JsonStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userIdCounter++;
-    const now = new Date();
-    const user: User = {
-      ...insertUser,
-      id,
-      lastLogin: null,
-      createdAt: now,
-      role: insertUser.role || 'student',
-      school: insertUser.school || null,
-    };
-
-    this.users.push(user);
-    writeJsonFile(FILES.USERS, this.users);
-    this.saveCounters();
-
-    return user;
+    return this.serialized(async () => {
+      const id = this.userIdCounter++;
+      const now = new Date();
+      const user: User = {
+        ...insertUser,
+        id,
+        password: await hashPassword(insertUser.password),
+        lastLogin: null,
+        createdAt: now,
+        role: insertUser.role || 'student',
+        school: insertUser.school || null,
+        mustChangePassword: insertUser.mustChangePassword ?? false,
+      };
+
+      this.touch('users');
+      this.users.push(user);
+      this.write(FILES.USERS, this.users);
+      this.saveCounters();
+
+      return user;
+    });
   }
 
   async updateUser(id: number, userData: Partial<InsertUser> & { lastLogin?: Date }): Promise<User | undefined> {
-    const userIndex = this.users.findIndex(user => user.id === id);
-    if (userIndex === -1) return undefined;
+    return this.serialized(async () => {
+      if (userData.password !== undefined) {
+        userData = { ...userData, password: await hashPassword(userData.password) };
+      }
 
-    const updatedUser: User = {
-      ...this.users[userIndex],
-      ...userData,
-    };
+      const userIndex = this.users.findIndex(user => user.id === id);
+      if (userIndex === -1) return undefined;
 
-    this.users[userIndex] = updatedUser;
-    writeJsonFile(FILES.USERS, this.users);
+      const updatedUser: User = {
+        ...this.users[userIndex],
+        ...userData,
+      };
 
-    return updatedUser;
+      this.touch('users');
+      this.users[userIndex] = updatedUser;
+      this.write(FILES.USERS, this.users);
+
+      return updatedUser;
+    });
   }
 
   async deleteUser(id: number): Promise<boolean> {
-    const initialLength = this.users.length;
-    this.users = this.users.filter(user => user.id !== id);
-
-    const deleted = initialLength > this.users.length;
-    if (deleted) {
-      writeJsonFile(FILES.USERS, this.users);
-    }
+    return this.serialized(async () => {
+      this.touch('users', 'results', 'timeExtensions', 'questionDraws', 'paperPositions', 'questions', 'competitions', 'loginEvents');
+      const initialLength = this.users.length;
+      this.users = this.users.filter(user => user.id !== id);
+
+      const deleted = initialLength > this.users.length;
+      if (deleted) {
+        // The user's own quiz records go with the account; references elsewhere are cleared
+        this.journalAnswers({ op: 'clear', userId: id });
+        this.results = this.results.filter(result => result.userId !== id);
+        this.timeExtensions = this.timeExtensions
+          .filter(extension => extension.userId !== id)
+          .map(extension => (extension.grantedBy === id ? { ...extension, grantedBy: null } : extension));
+        this.questionDraws = this.questionDraws.filter(draw => draw.userId !== id);
+        this.paperPositions = this.paperPositions.filter(position => position.userId !== id);
+        this.questions = this.questions.map(question => (question.createdBy === id ? { ...question, createdBy: null } : question));
+        this.competitions = this.competitions.map(competition => (competition.createdBy === id ? { ...competition, createdBy: null } : competition));
+        this.loginEvents = this.loginEvents.map(event => (event.userId === id ? { ...event, userId: null } : event));
+
+        this.write(FILES.USERS, this.users);
+        this.write(FILES.RESULTS, this.results);
+        this.write(FILES.TIME_EXTENSIONS, this.timeExtensions);
+        this.write(FILES.QUESTION_DRAWS, this.questionDraws);
+        this.write(FILES.PAPER_POSITIONS, this.paperPositions);
+        this.write(FILES.QUESTIONS, this.questions);
+        this.write(FILES.COMPETITIONS, this.competitions);
+        this.write(FILES.LOGIN_EVENTS, this.loginEvents);
+      }
 
-    return deleted;
+      return deleted;
+    });
   }
 
   async listUsers(): Promise<User[]> {
@@ -297,256 +914,844 @@ export class JsonStorage implements IStorage {
   }
 
   async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
-    const id = this.questionIdCounter++;
-    const now = new Date();
-    const question: Question = {
-      id,
-      createdAt: now,
-      questionText: insertQuestion.questionText || null,
-      questionImage: insertQuestion.questionImage || null,
-      optionA: insertQuestion.optionA,
-      optionB: insertQuestion.optionB,
-      optionC: insertQuestion.optionC,
-      optionD: insertQuestion.optionD,
-      correctAnswer: insertQuestion.correctAnswer,
-      difficulty: insertQuestion.difficulty || null,
-      createdBy: insertQuestion.createdBy || null,
-      isImage: insertQuestion.isImage || false,
-    };
-
-    this.questions.push(question);
-    writeJsonFile(FILES.QUESTIONS, this.questions);
-    this.saveCounters();
-
-    return question;
+    return this.serialized(async () => {
+      const id = this.questionIdCounter++;
+      const now = new Date();
+      const question: Question = {
+        id,
+        createdAt: now,
+        questionText: insertQuestion.questionText || null,
+        questionImage: insertQuestion.questionImage || null,
+        optionA: insertQuestion.optionA,
+        optionB: insertQuestion.optionB,
+        optionC: insertQuestion.optionC,
+        optionD: insertQuestion.optionD,
+        correctAnswer: insertQuestion.correctAnswer,
+        difficulty: insertQuestion.difficulty || null,
+        topic: insertQuestion.topic || null,
+        createdBy: insertQuestion.createdBy || null,
+        isImage: insertQuestion.isImage || false,
+      };
+
+      this.touch('questions');
+      this.questions.push(question);
+      this.write(FILES.QUESTIONS, this.questions);
+      this.saveCounters();
+
+      return question;
+    });
   }
 
   async updateQuestion(id: number, questionData: Partial<InsertQuestion>): Promise<Question | undefined> {
-    const questionIndex = this.questions.findIndex(question => question.id === id);
-    if (questionIndex === -1) return undefined;
+    return this.serialized(async () => {
+      const questionIndex = this.questions.findIndex(question => question.id === id);
+      if (questionIndex === -1) return undefined;
 
-    const updatedQuestion: Question = {
-      ...this.questions[questionIndex],
-      ...questionData,
-    };
+      const updatedQuestion: Question = {
+        ...this.questions[questionIndex],
+        ...questionData,
+      };
 
-    this.questions[questionIndex] = updatedQuestion;
-    writeJsonFile(FILES.QUESTIONS, this.questions);
+      this.touch('questions');
+      this.questions[questionIndex] = updatedQuestion;
+      this.write(FILES.QUESTIONS, this.questions);
 
-    return updatedQuestion;
+      return updatedQuestion;
+    });
   }
 
   async deleteQuestion(id: number): Promise<boolean> {
-    const initialLength = this.questions.length;
-    this.questions = this.questions.filter(question => question.id !== id);
-
-    const deleted = initialLength > this.questions.length;
-    if (deleted) {
-      writeJsonFile(FILES.QUESTIONS, this.questions);
-    }
+    return this.serialized(async () => {
+      this.touch('questions', 'competitions');
+      const initialLength = this.questions.length;
+      this.questions = this.questions.filter(question => question.id !== id);
+
+      const deleted = initialLength > this.questions.length;
+      if (deleted) {
+        this.write(FILES.QUESTIONS, this.questions);
+
+        // Remove the question from any competition question sets, along with its answers
+        this.competitions = this.competitions.map(competition => ({
+          ...competition,
+          questionIds: competition.questionIds.filter(questionId => questionId !== id),
+        }));
+        this.write(FILES.COMPETITIONS, this.competitions);
+        this.journalAnswers({ op: 'clear', questionId: id });
+      }
 
-    return deleted;
+      return deleted;
+    });
   }
 
   async listQuestions(): Promise<Question[]> {
     return this.questions;
   }
 
+  // Competition management
+  async getCompetition(id: number): Promise<Competition | undefined> {
+    return this.competitions.find(competition => competition.id === id);
+  }
+
+  async createCompetition(insertCompetition: InsertCompetition): Promise<Competition> {
+    return this.serialized(async () => {
+      const id = this.competitionIdCounter++;
+      const competition: Competition = {
+        id,
+        createdAt: new Date(),
+        name: insertCompetition.name,
+        type: insertCompetition.type || 'preliminary',
+        description: insertCompetition.description || null,
+        questionIds: insertCompetition.questionIds || [],
+        questionBlueprint: insertCompetition.questionBlueprint || [],
+        paperLayout: insertCompetition.paperLayout || DEFAULT_PAPER_LAYOUT,
+        navigationPolicy: insertCompetition.navigationPolicy || DEFAULT_NAVIGATION_POLICY,
+        participantIds: insertCompetition.participantIds || [],
+        scoringProfile: insertCompetition.scoringProfile || DEFAULT_SCORING_PROFILE,
+        rankingPolicy: insertCompetition.rankingPolicy || DEFAULT_RANKING_POLICY,
+        schoolRanking: insertCompetition.schoolRanking || DEFAULT_SCHOOL_RANKING,
+        createdBy: insertCompetition.createdBy || null,
+      };
+
+      this.touch('competitions', 'quizSettings');
+      this.competitions.push(competition);
+      this.quizSettings.push(this.buildDefaultSettings(id));
+      this.write(FILES.COMPETITIONS, this.competitions);
+      this.write(FILES.QUIZ_SETTINGS, this.quizSettings);
+      this.saveCounters();
+
+      return competition;
+    });
+  }
+
+  async updateCompetition(id: number, competitionData: Partial<InsertCompetition>): Promise<Competition | undefined> {
+    return this.transaction(async () => {
+      const competitionIndex = this.competitions.findIndex(competition => competition.id === id);
+      if (competitionIndex === -1) return undefined;
+
+      const updatedCompetition: Competition = {
+        ...this.competitions[competitionIndex],
+        ...competitionData,
+      };
+
+      this.touch('competitions');
+      this.competitions[competitionIndex] = updatedCompetition;
+      this.write(FILES.COMPETITIONS, this.competitions);
+
+      if (competitionData.scoringProfile) {
+        await this.rescoreResults(id);
+      } else if (competitionData.rankingPolicy) {
+        await this.calculateRankings(id);
+      }
+
+      return updatedCompetition;
+    });
+  }
+
+  async deleteCompetition(id: number): Promise<boolean> {
+    return this.serialized(async () => {
+      this.touch('competitions', 'quizSettings', 'results', 'timeExtensions', 'questionDraws', 'paperPositions');
+      const initialLength = this.competitions.length;
+      this.competitions = this.competitions.filter(competition => competition.id !== id);
+
+      const deleted = initialLength > this.competitions.length;
+      if (deleted) {
+        // A competition owns its settings, answers, results, time extensions and papers
+        this.quizSettings = this.quizSettings.filter(settings => settings.competitionId !== id);
+        this.journalAnswers({ op: 'clear', competitionId: id });
+        this.results = this.results.filter(result => result.competitionId !== id);
+        this.timeExtensions = this.timeExtensions.filter(extension => extension.competitionId !== id);
+        this.questionDraws = this.questionDraws.filter(draw => draw.competitionId !== id);
+        this.paperPositions = this.paperPositions.filter(position => position.competitionId !== id);
+
+        this.write(FILES.COMPETITIONS, this.competitions);
+        this.write(FILES.QUIZ_SETTINGS, this.quizSettings);
+        this.write(FILES.RESULTS, this.results);
+        this.write(FILES.TIME_EXTENSIONS, this.timeExtensions);
+        this.write(FILES.QUESTION_DRAWS, this.questionDraws);
+        this.write(FILES.PAPER_POSITIONS, this.paperPositions);
+      }
+
+      return deleted;
+    });
+  }
+
+  async listCompetitions(): Promise<Competition[]> {
+    return this.competitions;
+  }
+
+  async listCompetitionQuestions(competitionId: number): Promise<Question[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    if (competition.questionIds.length === 0) {
+      return this.questions;
+    }
+
+    // Keep the order in which the questions were assigned to the competition
+    return competition.questionIds
+      .map(questionId => this.questions.find(question => question.id === questionId))
+      .filter((question): question is Question => question !== undefined);
+  }
+
+  async listCompetitionParticipants(competitionId: number): Promise<User[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    const students = this.users.filter(user => user.role === 'student');
+    if (competition.participantIds.length === 0) {
+      return students;
+    }
+
+    return students.filter(user => competition.participantIds.includes(user.id));
+  }
+
   // Quiz settings
-  async getQuizSettings(): Promise<QuizSetting | undefined> {
-    return this.quizSettings;
+  async getQuizSettings(competitionId: number): Promise<QuizSetting | undefined> {
+    return this.quizSettings.find(settings => settings.competitionId === competitionId);
   }
 
-  async createOrUpdateQuizSettings(settings: Partial<InsertQuizSetting>): Promise<QuizSetting> {
-    const now = new Date();
+  private setQuizSettings(competitionId: number, settings: QuizSetting): QuizSetting {
+    this.touch('quizSettings');
+    const settingsIndex = this.quizSettings.findIndex(s => s.competitionId === competitionId);
+    if (settingsIndex === -1) {
+      this.quizSettings.push(settings);
+    } else {
+      this.quizSettings[settingsIndex] = settings;
+    }
 
-    this.quizSettings = {
-      ...this.quizSettings,
-      ...settings,
-      updatedAt: now,
-    };
+    this.write(FILES.QUIZ_SETTINGS, this.quizSettings);
+    return settings;
+  }
 
-    writeJsonFile(FILES.QUIZ_SETTINGS, this.quizSettings);
-    return this.quizSettings;
+  async createOrUpdateQuizSettings(competitionId: number, settings: Partial<InsertQuizSetting>): Promise<QuizSetting> {
+    return this.serialized(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
+
+      return this.setQuizSettings(competitionId, {
+        ...current,
+        ...settings,
+        updatedAt: new Date(),
+      });
+    });
   }
 
-  async startQuiz(): Promise<QuizSetting> {
-    const now = new Date();
+  async startQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.serialized(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
 
-    this.quizSettings = {
-      ...this.quizSettings,
-      state: 'started',
-      startTime: now,
-      updatedAt: now,
-    };
+      return this.setQuizSettings(competitionId, startedSettings(current, new Date()));
+    });
+  }
 
-    writeJsonFile(FILES.QUIZ_SETTINGS, this.quizSettings);
-    return this.quizSettings;
+  async pauseQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.serialized(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
+
+      return this.setQuizSettings(competitionId, pausedSettings(current, new Date()));
+    });
   }
 
-  async resetQuiz(): Promise<QuizSetting> {
-    const now = new Date();
+  async resumeQuiz(competitionId: number, extraSeconds: number = 0): Promise<QuizSetting> {
+    return this.serialized(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
 
-    this.quizSettings = {
-      id: 1,
-      state: 'waiting',
-      startTime: null,
-      endTime: null,
-      lastReset: now,
-      updatedAt: now,
-    };
+      return this.setQuizSettings(competitionId, resumedSettings(current, new Date(), extraSeconds));
+    });
+  }
 
-    // Clear all results and answers
-    this.quizAnswers = [];
-    this.results = [];
-    this.quizAnswerIdCounter = 1;
-    this.resultIdCounter = 1;
+  async scheduleQuiz(competitionId: number, scheduledStartTime: Date | null): Promise<QuizSetting> {
+    return this.serialized(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
 
-    writeJsonFile(FILES.QUIZ_SETTINGS, this.quizSettings);
-    writeJsonFile(FILES.QUIZ_ANSWERS, this.quizAnswers);
-    writeJsonFile(FILES.RESULTS, this.results);
-    this.saveCounters();
+      return this.setQuizSettings(competitionId, {
+        ...current,
+        scheduledStartTime,
+        updatedAt: new Date(),
+      });
+    });
+  }
+
+  async endQuiz(competitionId: number): Promise<QuizSetting> {
+    return this.transaction(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      this.saveCounters();
+
+      const settings = this.setQuizSettings(competitionId, completedSettings(current, new Date()));
+      await this.finalizeResults(competitionId);
 
-    return this.quizSettings;
+      return settings;
+    });
+  }
+
+  private async finalizeResults(competitionId: number): Promise<void> {
+    // Every student taking part, and anyone else who answered, such as a student since removed
+    // from the participant list. Students who answered nothing get a result with no answers.
+    const userIds = new Set([
+      ...(await this.listCompetitionParticipants(competitionId)).map(student => student.id),
+      ...(await this.listQuizAnswers(competitionId)).map(answer => answer.userId),
+    ]);
+
+    for (const userId of Array.from(userIds)) {
+      if (await this.getResult(competitionId, userId)) {
+        // Rescore submitted results against the final answer key
+        await this.updateResult(competitionId, userId, {});
+      } else {
+        // Students who never pressed "Finish Quiz" used all of the available time
+        await this.submitResult(competitionId, userId);
+      }
+    }
+
+    await this.calculateRankings(competitionId);
+  }
+
+  async resetQuiz(competitionId: number, archiveName?: string): Promise<QuizSetting> {
+    return this.transaction(async () => {
+      const current = (await this.getQuizSettings(competitionId)) ?? this.buildDefaultSettings(competitionId);
+      const competition = await this.getCompetition(competitionId);
+
+      // Keep the finished round before its answers and results are cleared
+      const archive = competition && buildRoundArchive(
+        competition,
+        current,
+        await this.listQuizAnswers(competitionId),
+        await this.listResults(competitionId),
+        this.users,
+        archiveName,
+      );
+      if (archive) {
+        this.touch('roundArchives');
+        this.roundArchives.push({ ...archive, id: this.roundArchiveIdCounter++, createdAt: new Date() });
+        this.write(FILES.ROUND_ARCHIVES, this.roundArchives);
+      }
+      this.saveCounters();
+
+      const settings = this.setQuizSettings(competitionId, resetSettings(current, new Date()));
+
+      // Clear the competition's results and answers, and draw new papers for the next round
+      // that students start from the first page of
+      this.journalAnswers({ op: 'clear', competitionId });
+      this.touch('results', 'questionDraws', 'paperPositions');
+      this.results = this.results.filter(result => result.competitionId !== competitionId);
+      this.questionDraws = this.questionDraws.filter(draw => draw.competitionId !== competitionId);
+      this.paperPositions = this.paperPositions.filter(position => position.competitionId !== competitionId);
+
+      this.write(FILES.RESULTS, this.results);
+      this.write(FILES.QUESTION_DRAWS, this.questionDraws);
+      this.write(FILES.PAPER_POSITIONS, this.paperPositions);
+
+      return settings;
+    });
   }
 
   // Quiz answers
   async saveQuizAnswer(insertAnswer: InsertQuizAnswer): Promise<QuizAnswer> {
-    const id = this.quizAnswerIdCounter++;
-    const now = new Date();
-
-    // Find the question to check if the answer is correct
-    const question = this.questions.find(q => q.id === insertAnswer.questionId);
-    const isCorrect = question ? (question.correctAnswer === insertAnswer.userAnswer) : false;
-
-    const answer: QuizAnswer = {
-      ...insertAnswer,
-      id,
-      isCorrect: isCorrect,
-      createdAt: now,
-      userAnswer: insertAnswer.userAnswer || null,
-      responseTimeSeconds: insertAnswer.responseTimeSeconds || null,
-    };
+    return this.serialized(async () => {
+      const now = new Date();
+      const userAnswer = insertAnswer.userAnswer || null;
+
+      // Find the question to check if the answer is correct
+      const question = this.questions.find(q => q.id === insertAnswer.questionId);
+      const isCorrect = question ? (question.correctAnswer === insertAnswer.userAnswer) : false;
+
+      const existing = this.quizAnswers.find(answer => answerKey(answer) === answerKey(insertAnswer));
+      if (existing?.userAnswer === userAnswer) {
+        const timeSpentSeconds = insertAnswer.timeSpentSeconds ?? existing.timeSpentSeconds;
+        if (timeSpentSeconds === existing.timeSpentSeconds) return existing;
+
+        const answer: QuizAnswer = { ...existing, timeSpentSeconds };
+        this.journalAnswers({ op: 'save', answer });
+        return answer;
+      }
 
-    this.quizAnswers.push(answer);
-    writeJsonFile(FILES.QUIZ_ANSWERS, this.quizAnswers);
-    this.saveCounters();
+      const answer: QuizAnswer = {
+        ...insertAnswer,
+        id: existing?.id ?? this.quizAnswerIdCounter++,
+        isCorrect: isCorrect,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        userAnswer,
+        responseTimeSeconds: insertAnswer.responseTimeSeconds ?? null,
+        timeSpentSeconds: insertAnswer.timeSpentSeconds ?? null,
+      };
+
+      this.journalAnswers({
+        op: 'save',
+        answer,
+        revision: existing && { ...revisionOf(existing, now), id: this.answerRevisionIdCounter++ },
+      });
+      this.saveCounters();
 
-    return answer;
+      return answer;
+    });
+  }
+
+  async getQuizAnswersForUser(competitionId: number, userId: number): Promise<QuizAnswer[]> {
+    return this.quizAnswers.filter(answer => answer.competitionId === competitionId && answer.userId === userId);
+  }
+
+  async listQuizAnswers(competitionId: number): Promise<QuizAnswer[]> {
+    return this.quizAnswers.filter(answer => answer.competitionId === competitionId);
   }
 
-  async getQuizAnswersForUser(userId: number): Promise<QuizAnswer[]> {
-    return this.quizAnswers.filter(answer => answer.userId === userId);
+  async listAnswerRevisions(competitionId: number, userId?: number): Promise<AnswerRevision[]> {
+    return this.answerRevisions.filter(revision =>
+      revision.competitionId === competitionId && (userId === undefined || revision.userId === userId));
   }
 
   // Results
-  async getResult(userId: number): Promise<Result | undefined> {
-    return this.results.find(result => result.userId === userId);
-  }
-
-  async calculateScore(userId: number): Promise<{
-    score: number;
-    correctAnswers: number;
-    incorrectAnswers: number;
-    skippedAnswers: number;
-    averageResponseTime: number;
-  }> {
-    // Get all user answers
-    const userAnswers = await this.getQuizAnswersForUser(userId);
-
-    // Get all questions
-    const questions = await this.listQuestions();
-
-    let correctCount = 0;
-    let incorrectCount = 0;
-    let skippedCount = questions.length - userAnswers.length;
-    let totalResponseTime = 0;
-
-    // Process each answer
-    userAnswers.forEach(answer => {
-      // Add response time to total
-      if (answer.responseTimeSeconds) {
-        totalResponseTime += answer.responseTimeSeconds;
+  async getResult(competitionId: number, userId: number): Promise<Result | undefined> {
+    return this.results.find(result => result.competitionId === competitionId && result.userId === userId);
+  }
+
+  async calculateScore(competitionId: number, userId: number): Promise<Score> {
+    const userAnswers = await this.getQuizAnswersForUser(competitionId, userId);
+    const competition = await this.getCompetition(competitionId);
+
+    // Graded against the questions the student was served
+    const questions = paperQuestions(
+      await this.listCompetitionQuestions(competitionId),
+      competition?.questionBlueprint ?? [],
+      this.findQuestionDraw(competitionId, userId),
+    );
+
+    return scoreAnswers(userAnswers, questions, competition?.scoringProfile);
+  }
+
+  // The questions each student was served, by user id
+  private async servedPapers(competitionId: number, userIds: number[]): Promise<Map<number, Question[]>> {
+    const competition = await this.getCompetition(competitionId);
+    const questions = await this.listCompetitionQuestions(competitionId);
+
+    return new Map(userIds.map(userId => [
+      userId,
+      paperQuestions(questions, competition?.questionBlueprint ?? [], this.findQuestionDraw(competitionId, userId)),
+    ]));
+  }
+
+  async saveResult(insertResult: InsertResult): Promise<Result> {
+    return this.transaction(async () => {
+      const id = this.resultIdCounter++;
+      const now = new Date();
+
+      // Recalculate the score server-side to ensure accuracy
+      const calculatedScore = await this.calculateScore(insertResult.competitionId, insertResult.userId);
+
+      const result: Result = {
+        ...insertResult,
+        id,
+        createdAt: now,
+        // Override submitted values with server-calculated values for security
+        score: calculatedScore.score,
+        correctAnswers: calculatedScore.correctAnswers,
+        incorrectAnswers: calculatedScore.incorrectAnswers,
+        skippedAnswers: calculatedScore.skippedAnswers,
+        averageResponseTime: calculatedScore.averageResponseTime,
+        completionTime: insertResult.completionTime ?? null,
+        rank: null,
+      };
+
+      this.touch('results');
+      this.results.push(result);
+      this.write(FILES.RESULTS, this.results);
+      this.saveCounters();
+
+      // Calculate rankings
+      await this.calculateRankings(insertResult.competitionId);
+
+      return this.results.find(r => r.id === id) as Result;
+    });
+  }
+
+  async submitResult(competitionId: number, userId: number): Promise<Result | undefined> {
+    return this.transaction(async () => {
+      if (await this.getResult(competitionId, userId)) return undefined;
+
+      const settings = await this.getQuizSettings(competitionId);
+      const extension = await this.getTimeExtension(competitionId, userId);
+
+      // saveResult scores the answers, so only the completion time is given here
+      return this.saveResult({
+        competitionId,
+        userId,
+        score: 0,
+        correctAnswers: 0,
+        incorrectAnswers: 0,
+        skippedAnswers: 0,
+        completionTime: settings ? getElapsedSeconds(settings, new Date(), extension?.extraSeconds) : null,
+      });
+    });
+  }
+
+  async updateResult(competitionId: number, userId: number, resultData: Partial<InsertResult>): Promise<Result | undefined> {
+    return this.transaction(async () => {
+      const resultIndex = this.results.findIndex(result => result.competitionId === competitionId && result.userId === userId);
+      if (resultIndex === -1) return undefined;
+
+      // Recalculate the score server-side, as in saveResult
+      const calculatedScore = await this.calculateScore(competitionId, userId);
+
+      this.touch('results');
+      this.results[resultIndex] = {
+        ...this.results[resultIndex],
+        completionTime: resultData.completionTime ?? this.results[resultIndex].completionTime,
+        ...calculatedScore,
+      };
+      this.write(FILES.RESULTS, this.results);
+
+      await this.calculateRankings(competitionId);
+
+      return this.results[resultIndex];
+    });
+  }
+
+  async listResults(competitionId: number): Promise<Result[]> {
+    return this.results.filter(result => result.competitionId === competitionId);
+  }
+
+  private async rescoreResults(competitionId: number): Promise<void> {
+    this.touch('results');
+    for (const result of await this.listResults(competitionId)) {
+      Object.assign(result, await this.calculateScore(competitionId, result.userId));
+    }
+    this.write(FILES.RESULTS, this.results);
+
+    await this.calculateRankings(competitionId);
+  }
+
+  async calculateRankings(competitionId: number): Promise<void> {
+    return this.serialized(async () => {
+      const competition = await this.getCompetition(competitionId);
+      const policy = competition?.rankingPolicy ?? DEFAULT_RANKING_POLICY;
+      const results = await this.listResults(competitionId);
+      const hardAccuracy = policy.tieBreakers.includes('hardAccuracy')
+        ? hardQuestionAccuracy(
+          await this.listQuizAnswers(competitionId),
+          await this.servedPapers(competitionId, results.map(result => result.userId)),
+        )
+        : undefined;
+      const ranks = rankResults(results, policy, hardAccuracy);
+
+      // Update rank for each result
+      this.touch('results');
+      this.results.forEach(result => {
+        if (ranks.has(result.id)) result.rank = ranks.get(result.id)!;
+      });
+
+      // Save updated rankings
+      this.write(FILES.RESULTS, this.results);
+    });
+  }
+
+  // Time extensions
+  async getTimeExtension(competitionId: number, userId: number): Promise<TimeExtension | undefined> {
+    return this.timeExtensions.find(extension => extension.competitionId === competitionId && extension.userId === userId);
+  }
+
+  async setTimeExtension(insertExtension: InsertTimeExtension): Promise<TimeExtension> {
+    return this.serialized(async () => {
+      const now = new Date();
+      this.touch('timeExtensions');
+      const existing = await this.getTimeExtension(insertExtension.competitionId, insertExtension.userId);
+
+      if (existing) {
+        Object.assign(existing, {
+          extraSeconds: insertExtension.extraSeconds,
+          reason: insertExtension.reason ?? null,
+          grantedBy: insertExtension.grantedBy ?? null,
+          updatedAt: now,
+        });
+        this.write(FILES.TIME_EXTENSIONS, this.timeExtensions);
+        return existing;
       }
 
-      // Find corresponding question
-      const question = questions.find(q => q.id === answer.questionId);
-      if (!question) return; // Skip if question not found
+      const extension: TimeExtension = {
+        id: this.timeExtensionIdCounter++,
+        competitionId: insertExtension.competitionId,
+        userId: insertExtension.userId,
+        extraSeconds: insertExtension.extraSeconds,
+        reason: insertExtension.reason ?? null,
+        grantedBy: insertExtension.grantedBy ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      this.timeExtensions.push(extension);
+      this.write(FILES.TIME_EXTENSIONS, this.timeExtensions);
+      this.saveCounters();
+
+      return extension;
+    });
+  }
 
-      // Check if answer is correct
-      if (answer.userAnswer === null) {
-        skippedCount++;
-      } else if (answer.userAnswer === question.correctAnswer) {
-        correctCount++;
-      } else {
-        incorrectCount++;
+  async deleteTimeExtension(competitionId: number, userId: number): Promise<boolean> {
+    return this.serialized(async () => {
+      this.touch('timeExtensions');
+      const initialLength = this.timeExtensions.length;
+      this.timeExtensions = this.timeExtensions.filter(
+        extension => !(extension.competitionId === competitionId && extension.userId === userId)
+      );
+
+      const deleted = initialLength > this.timeExtensions.length;
+      if (deleted) {
+        this.write(FILES.TIME_EXTENSIONS, this.timeExtensions);
       }
+
+      return deleted;
     });
+  }
 
-    // Calculate score: +2 for correct, -1 for incorrect, 0 for skipped
-    const finalScore = (correctCount * 2) - incorrectCount;
+  async listTimeExtensions(competitionId: number): Promise<TimeExtension[]> {
+    return this.timeExtensions.filter(extension => extension.competitionId === competitionId);
+  }
 
-    // Calculate average response time
-    const answeredCount = correctCount + incorrectCount;
-    const averageTime = answeredCount > 0 ? Math.round(totalResponseTime / answeredCount) : 0;
+  // Question papers
+  private findQuestionDraw(competitionId: number, userId: number): QuestionDraw | undefined {
+    return this.questionDraws.find(draw => draw.competitionId === competitionId && draw.userId === userId);
+  }
 
-    return {
-      score: finalScore,
-      correctAnswers: correctCount,
-      incorrectAnswers: incorrectCount,
-      skippedAnswers: skippedCount,
-      averageResponseTime: averageTime
-    };
+  async getQuestionPaper(competitionId: number, userId: number): Promise<Question[]> {
+    const competition = await this.getCompetition(competitionId);
+    if (!competition) return [];
+
+    const blueprint = competition.questionBlueprint;
+    if (blueprint.length > 0 && !this.findQuestionDraw(competitionId, userId)) {
+      await this.serialized(async () => {
+        // Another request may have drawn the paper while this one waited
+        if (this.findQuestionDraw(competitionId, userId)) return;
+
+        this.touch('questionDraws');
+        this.questionDraws.push({
+          id: this.questionDrawIdCounter++,
+          competitionId,
+          userId,
+          questionIds: drawPaper(await this.listCompetitionQuestions(competitionId), blueprint),
+          createdAt: new Date(),
+        });
+        this.write(FILES.QUESTION_DRAWS, this.questionDraws);
+        this.saveCounters();
+      });
+    }
+
+    return paperQuestions(
+      await this.listCompetitionQuestions(competitionId),
+      blueprint,
+      this.findQuestionDraw(competitionId, userId),
+    );
   }
 
-  async saveResult(insertResult: InsertResult): Promise<Result> {
-    const id = this.resultIdCounter++;
-    const now = new Date();
-
-    // Recalculate the score server-side to ensure accuracy
-    const calculatedScore = await this.calculateScore(insertResult.userId);
-
-    const result: Result = {
-      ...insertResult,
-      id,
-      createdAt: now,
-      // Override submitted values with server-calculated values for security
-      score: calculatedScore.score,
-      correctAnswers: calculatedScore.correctAnswers,
-      incorrectAnswers: calculatedScore.incorrectAnswers,
-      skippedAnswers: calculatedScore.skippedAnswers,
-      averageResponseTime: calculatedScore.averageResponseTime,
-      completionTime: insertResult.completionTime || null,
-      rank: null,
-    };
+  // Paper positions
+  async getPaperPosition(competitionId: number, userId: number): Promise<PaperPosition | undefined> {
+    return this.paperPositions.find(position => position.competitionId === competitionId && position.userId === userId);
+  }
 
-    this.results.push(result);
-    writeJsonFile(FILES.RESULTS, this.results);
-    this.saveCounters();
+  async savePaperPosition(insertPosition: InsertPaperPosition): Promise<PaperPosition> {
+    return this.serialized(async () => {
+      const now = new Date();
+      const changes = {
+        page: insertPosition.page ?? 0,
+        pageStartSeconds: insertPosition.pageStartSeconds ?? 0,
+        sectionStartSeconds: insertPosition.sectionStartSeconds ?? 0,
+        lastAnswerSeconds: insertPosition.lastAnswerSeconds ?? null,
+        updatedAt: now,
+      };
+
+      this.touch('paperPositions');
+      const existing = await this.getPaperPosition(insertPosition.competitionId, insertPosition.userId);
+      if (existing) {
+        Object.assign(existing, changes);
+        this.write(FILES.PAPER_POSITIONS, this.paperPositions);
+        return existing;
+      }
+
+      const position: PaperPosition = {
+        id: this.paperPositionIdCounter++,
+        competitionId: insertPosition.competitionId,
+        userId: insertPosition.userId,
+        ...changes,
+      };
 
-    // Calculate rankings
-    await this.calculateRankings();
+      this.paperPositions.push(position);
+      this.write(FILES.PAPER_POSITIONS, this.paperPositions);
+      this.saveCounters();
 
-    return this.results.find(r => r.id === id) as Result;
+      return position;
+    });
   }
 
-  async listResults(): Promise<Result[]> {
-    return this.results;
+  // Round archives
+  async listRoundArchives(competitionId?: number): Promise<RoundArchive[]> {
+    return this.roundArchives
+      .filter(archive => competitionId === undefined || archive.competitionId === competitionId)
+      .reverse();
   }
 
-  async calculateRankings(): Promise<void> {
-    // Sort results by score in descending order
-    this.results.sort((a, b) => b.score - a.score);
+  async getRoundArchive(id: number): Promise<RoundArchive | undefined> {
+    return this.roundArchives.find(archive => archive.id === id);
+  }
 
-    // Update rank for each result
-    this.results.forEach((result, index) => {
-      result.rank = index + 1;
+  // Login throttling
+  async getLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<LoginThrottle | undefined> {
+    return this.loginThrottles.find(throttle => throttle.scope === scope && throttle.key === key);
+  }
+
+  async saveLoginThrottle(throttleData: Omit<LoginThrottle, 'id'>): Promise<LoginThrottle> {
+    return this.serialized(async () => {
+      this.touch('loginThrottles');
+      const existing = await this.getLoginThrottle(throttleData.scope, throttleData.key);
+
+      if (existing) {
+        Object.assign(existing, throttleData);
+        this.write(FILES.LOGIN_THROTTLES, this.loginThrottles);
+        return existing;
+      }
+
+      const throttle: LoginThrottle = {
+        ...throttleData,
+        id: this.loginThrottleIdCounter++,
+      };
+
+      this.loginThrottles.push(throttle);
+      this.write(FILES.LOGIN_THROTTLES, this.loginThrottles);
+      this.saveCounters();
+
+      return throttle;
     });
+  }
 
-    // Save updated rankings
-    writeJsonFile(FILES.RESULTS, this.results);
+  async deleteLoginThrottle(scope: LoginThrottle['scope'], key: string): Promise<boolean> {
+    return this.serialized(async () => {
+      this.touch('loginThrottles');
+      const initialLength = this.loginThrottles.length;
+      this.loginThrottles = this.loginThrottles.filter(throttle => !(throttle.scope === scope && throttle.key === key));
+
+      const deleted = initialLength > this.loginThrottles.length;
+      if (deleted) {
+        this.write(FILES.LOGIN_THROTTLES, this.loginThrottles);
+      }
+
+      return deleted;
+    });
+  }
+
+  async listLoginThrottles(): Promise<LoginThrottle[]> {
+    return this.loginThrottles;
+  }
+
+  // Login audit log
+  async recordLoginEvent(insertEvent: InsertLoginEvent): Promise<LoginEvent> {
+    return this.serialized(async () => {
+      const event: LoginEvent = {
+        id: this.loginEventIdCounter++,
+        type: insertEvent.type,
+        userId: insertEvent.userId ?? null,
+        username: insertEvent.username,
+        role: insertEvent.role ?? null,
+        school: insertEvent.school ?? null,
+        ipAddress: insertEvent.ipAddress ?? null,
+        userAgent: insertEvent.userAgent ?? null,
+        reason: insertEvent.reason ?? null,
+        createdAt: new Date(),
+      };
+
+      this.touch('loginEvents');
+      this.loginEvents.push(event);
+      if (this.loginEvents.length > MAX_LOGIN_EVENTS) {
+        this.loginEvents = this.loginEvents.slice(-MAX_LOGIN_EVENTS);
+      }
+      this.write(FILES.LOGIN_EVENTS, this.loginEvents);
+      this.saveCounters();
+
+      return event;
+    });
+  }
+
+  async listLoginEvents(query: LoginEventQuery): Promise<LoginEvent[]> {
+    const username = query.username?.toLowerCase();
+
+    return this.loginEvents
+      .filter(event =>
+        (!query.type || event.type === query.type) &&
+        (!query.role || event.role === query.role) &&
+        (!query.school || event.school === query.school) &&
+        (query.userId === undefined || event.userId === query.userId) &&
+        (!username || event.username.toLowerCase() === username) &&
+        (!query.from || (event.createdAt && new Date(event.createdAt) >= query.from)) &&
+        (!query.to || (event.createdAt && new Date(event.createdAt) <= query.to))
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  // Backups
+  async exportData(): Promise<StorageData> {
+    return this.serialized(async () => ({
+      users: this.users,
+      questions: this.questions,
+      competitions: this.competitions,
+      quizSettings: this.quizSettings,
+      quizAnswers: this.quizAnswers,
+      answerRevisions: this.answerRevisions,
+      results: this.results,
+      timeExtensions: this.timeExtensions,
+      questionDraws: this.questionDraws,
+      paperPositions: this.paperPositions,
+      roundArchives: this.roundArchives,
+      counters: this.counters(),
+    }));
+  }
+
+  async importData(data: StorageData): Promise<void> {
+    return this.serialized(async () => {
+      this.touch('users', 'questions', 'competitions', 'quizSettings', 'quizAnswers', 'answerRevisions', 'results', 'timeExtensions', 'questionDraws', 'paperPositions', 'roundArchives');
+      this.users = data.users;
+      this.questions = data.questions;
+      this.competitions = data.competitions;
+      this.quizSettings = data.quizSettings;
+      this.quizAnswers = data.quizAnswers;
+      this.answerRevisions = data.answerRevisions;
+      this.results = data.results;
+      this.timeExtensions = data.timeExtensions;
+      this.questionDraws = data.questionDraws;
+      this.paperPositions = data.paperPositions;
+      this.roundArchives = data.roundArchives;
+
+      // Never hand out an id that is already in use
+      const nextId = (counter: number | undefined, items: { id: number }[]) =>
+        Math.max(counter ?? 1, ...items.map(item => item.id + 1));
+      this.userIdCounter = nextId(data.counters.userIdCounter, this.users);
+      this.questionIdCounter = nextId(data.counters.questionIdCounter, this.questions);
+      this.competitionIdCounter = nextId(data.counters.competitionIdCounter, this.competitions);
+      this.quizSettingIdCounter = nextId(data.counters.quizSettingIdCounter, this.quizSettings);
+      this.quizAnswerIdCounter = nextId(data.counters.quizAnswerIdCounter, this.quizAnswers);
+      this.answerRevisionIdCounter = nextId(data.counters.answerRevisionIdCounter, this.answerRevisions);
+      this.resultIdCounter = nextId(data.counters.resultIdCounter, this.results);
+      this.timeExtensionIdCounter = nextId(data.counters.timeExtensionIdCounter, this.timeExtensions);
+      this.questionDrawIdCounter = nextId(data.counters.questionDrawIdCounter, this.questionDraws);
+      this.paperPositionIdCounter = nextId(data.counters.paperPositionIdCounter, this.paperPositions);
+      this.roundArchiveIdCounter = nextId(data.counters.roundArchiveIdCounter, this.roundArchives);
+
+      writeJsonFile(FILES.USERS, this.users);
+      writeJsonFile(FILES.QUESTIONS, this.questions);
+      writeJsonFile(FILES.COMPETITIONS, this.competitions);
+      writeJsonFile(FILES.QUIZ_SETTINGS, this.quizSettings);
+      writeJsonFile(FILES.RESULTS, this.results);
+      writeJsonFile(FILES.TIME_EXTENSIONS, this.timeExtensions);
+      writeJsonFile(FILES.QUESTION_DRAWS, this.questionDraws);
+      writeJsonFile(FILES.PAPER_POSITIONS, this.paperPositions);
+      writeJsonFile(FILES.ROUND_ARCHIVES, this.roundArchives);
+      this.compactAnswers();
+      this.saveCounters();
+    });
   }
 }
 
-// Export the JSON storage implementation
-export const storage = new JsonStorage();
+// STORAGE=postgres keeps data in the database at DATABASE_URL (a postgres:// URL or a
+// PGlite data directory, by default data/pglite); otherwise data stays in the JSON files
+export const storage: IStorage = process.env.STORAGE === 'postgres'
+  ? new DrizzleStorage(process.env.DATABASE_URL || path.join(DATA_DIR, 'pglite'))
+  : new JsonStorage();
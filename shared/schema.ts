@@ -5,7 +5,9 @@ import {
   integer,
   boolean,
   timestamp,
+  jsonb,
   pgEnum,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -279,6 +281,8 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: userRoleEnum("role").notNull().default("student"),
   school: schoolEnum("school"),
+  // Set for bootstrapped accounts until their first password change
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
   lastLogin: timestamp("last_login"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -294,31 +298,218 @@ export const questions = pgTable("questions", {
   optionD: text("option_d").notNull(),
   correctAnswer: text("correct_answer").notNull(),
   difficulty: text("difficulty").default("medium"),
+  // Lets question blueprints draw from part of the bank
+  topic: text("topic"),
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   isImage: boolean("is_image").default(false),
 });
 
+// Competition type enum
+export const competitionTypeEnum = pgEnum("competition_type", [
+  "preliminary",
+  "final",
+  "practice",
+]);
+
+const pointsSchema = z.number().int("Points must be whole numbers").min(-100).max(100);
+const difficultyWeightSchema = z.number().min(0, "Difficulty weights cannot be negative").max(10);
+
+// How a competition's answers are scored
+export const scoringProfileSchema = z.object({
+  correct: pointsSchema,
+  incorrect: pointsSchema,
+  skipped: pointsSchema,
+  // A question's points are multiplied by the weight of its difficulty
+  difficultyWeights: z.object({
+    easy: difficultyWeightSchema,
+    medium: difficultyWeightSchema,
+    hard: difficultyWeightSchema,
+  }),
+  // Correct answers earn up to maxPoints more, falling to nothing for answers that
+  // took withinSeconds or longer. A maxPoints of 0 turns the bonus off.
+  speedBonus: z.object({
+    maxPoints: z.number().int("Points must be whole numbers").min(0).max(100),
+    withinSeconds: z.number().int().min(1, "The speed bonus window must be at least a second").max(3600),
+  }),
+});
+
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
+
+// +2 for a correct answer, -1 for a wrong one and nothing for a skipped one
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  correct: 2,
+  incorrect: -1,
+  skipped: 0,
+  difficultyWeights: { easy: 1, medium: 1, hard: 1 },
+  speedBonus: { maxPoints: 0, withinSeconds: 60 },
+};
+
+// Ways to order students with the same score, tried in turn
+export const tieBreakers = [
+  "completionTime",
+  "correctAnswers",
+  "fewerIncorrect",
+  "hardAccuracy",
+] as const;
+
+// Standard ranks go 1, 2, 2, 4; dense ranks 1, 2, 2, 3; shared ranks 1, 3, 3, 4
+export const rankMethods = ["standard", "dense", "shared"] as const;
+
+// How a competition's results are ranked
+export const rankingPolicySchema = z.object({
+  tieBreakers: z.array(z.enum(tieBreakers))
+    .refine(list => new Set(list).size === list.length, "Each tie-breaker can only be used once"),
+  method: z.enum(rankMethods),
+});
+
+export type TieBreaker = typeof tieBreakers[number];
+export type RankMethod = typeof rankMethods[number];
+export type RankingPolicy = z.infer<typeof rankingPolicySchema>;
+
+// Students with the same score are told apart by who finished sooner
+export const DEFAULT_RANKING_POLICY: RankingPolicy = {
+  tieBreakers: ["completionTime"],
+  method: "standard",
+};
+
+export const schoolAggregates = ["sum", "average"] as const;
+
+// How schools are ranked: by the sum or average of their best students' scores
+export const schoolRankingSchema = z.object({
+  topStudents: z.number().int().min(1, "At least one student must count for each school").max(100),
+  aggregate: z.enum(schoolAggregates),
+});
+
+export type SchoolAggregate = typeof schoolAggregates[number];
+export type SchoolRanking = z.infer<typeof schoolRankingSchema>;
+
+export const DEFAULT_SCHOOL_RANKING: SchoolRanking = {
+  topStudents: 3,
+  aggregate: "sum",
+};
+
+// One pool of a question blueprint: how many questions to draw, and from which part of the bank
+export const questionPoolSchema = z.object({
+  count: z.number().int().min(1, "Each pool must draw at least one question").max(500),
+  // Any difficulty when null
+  difficulty: z.enum(["easy", "medium", "hard"]).nullable().default(null),
+  // Any topic when empty
+  topics: z.array(z.string().trim().min(1, "Topics cannot be blank")).default([]),
+});
+
+export const questionBlueprintSchema = z.array(questionPoolSchema).max(20, "A blueprint can have at most 20 pools");
+
+export type QuestionPool = z.infer<typeof questionPoolSchema>;
+
+export const paperDisplays = ["grid", "single"] as const;
+
+// How the quiz page lays out a student's paper. Sections take questions in the order they
+// are served, and each section is split into pages of its own.
+export const paperLayoutSchema = z.object({
+  // Several questions per page in a grid, or one question per screen
+  display: z.enum(paperDisplays),
+  // Only used by the grid
+  questionsPerPage: z.number().int().min(1, "Each page must show at least one question").max(20),
+  // Questions left over after the last section are shown in an unnamed one
+  sections: z.array(z.object({
+    name: z.string().trim().min(1, "Each section needs a name").max(80),
+    questionCount: z.number().int().min(1, "Each section must hold at least one question").max(500),
+    // Seconds the student gets for the whole section, or null for no limit
+    timeLimitSeconds: z.number().int().min(10, "Time limits must be at least 10 seconds").max(6 * 3600).nullable().default(null),
+  })).max(20, "A paper can have at most 20 sections"),
+  // Seconds the student gets for each question, or null for no limit. A page gets the time
+  // of all its questions together. Time limits only apply to forward-only papers.
+  questionTimeLimitSeconds: z.number().int().min(10, "Time limits must be at least 10 seconds").max(3600).nullable().default(null),
+});
+
+export type PaperDisplay = typeof paperDisplays[number];
+export type PaperLayout = z.infer<typeof paperLayoutSchema>;
+
+// Batches of four in a 2x2 grid, as the quiz page always showed them
+export const DEFAULT_PAPER_LAYOUT: PaperLayout = {
+  display: "grid",
+  questionsPerPage: 4,
+  sections: [],
+  questionTimeLimitSeconds: null,
+};
+
+export const navigationModes = ["forward", "free"] as const;
+
+// Whether students may go back to earlier pages, and whether they see a review screen
+// listing unanswered and flagged questions before they submit
+export const navigationPolicySchema = z.object({
+  // Forward-only papers close each page once the student moves past it
+  mode: z.enum(navigationModes),
+  reviewScreen: z.boolean(),
+});
+
+export type NavigationMode = typeof navigationModes[number];
+export type NavigationPolicy = z.infer<typeof navigationPolicySchema>;
+
+// Students move forward only, as the rules have always told them
+export const DEFAULT_NAVIGATION_POLICY: NavigationPolicy = {
+  mode: "forward",
+  reviewScreen: false,
+};
+
+// Competitions table schema
+export const competitions = pgTable("competitions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: competitionTypeEnum("type").notNull().default("preliminary"),
+  description: text("description"),
+  // An empty question set serves the whole question bank
+  questionIds: integer("question_ids").array().notNull().default([]),
+  // Without a blueprint every student gets the whole question set; with one, each
+  // student's paper is drawn from it pool by pool
+  questionBlueprint: jsonb("question_blueprint").$type<QuestionPool[]>().notNull().default([]),
+  paperLayout: jsonb("paper_layout").$type<PaperLayout>().notNull().default(DEFAULT_PAPER_LAYOUT),
+  navigationPolicy: jsonb("navigation_policy").$type<NavigationPolicy>().notNull().default(DEFAULT_NAVIGATION_POLICY),
+  // An empty roster admits every student
+  participantIds: integer("participant_ids").array().notNull().default([]),
+  scoringProfile: jsonb("scoring_profile").$type<ScoringProfile>().notNull().default(DEFAULT_SCORING_PROFILE),
+  rankingPolicy: jsonb("ranking_policy").$type<RankingPolicy>().notNull().default(DEFAULT_RANKING_POLICY),
+  schoolRanking: jsonb("school_ranking").$type<SchoolRanking>().notNull().default(DEFAULT_SCHOOL_RANKING),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Quiz state enum
 export const quizStateEnum = pgEnum("quiz_state", [
   "waiting",
   "started",
+  "paused",
   "completed",
 ]);
 
-// Quiz settings table schema
+// Quiz settings table schema (one row per competition)
 export const quizSettings = pgTable("quiz_settings", {
   id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .unique()
+    .references(() => competitions.id),
   state: quizStateEnum("state").notNull().default("waiting"),
+  durationSeconds: integer("duration_seconds").notNull().default(3600),
+  // When set, the server starts the quiz automatically at this time
+  scheduledStartTime: timestamp("scheduled_start_time"),
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
+  // Set while the quiz is paused; the deadline moves back by the paused time on resume
+  pausedAt: timestamp("paused_at"),
+  // Total time spent paused, excluded from measured response times
+  pausedSeconds: integer("paused_seconds").notNull().default(0),
   lastReset: timestamp("last_reset"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Quiz answers table schema
+// Quiz answers table schema (each student's latest answer to each question)
 export const quizAnswers = pgTable("quiz_answers", {
   id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
@@ -328,12 +519,42 @@ export const quizAnswers = pgTable("quiz_answers", {
   userAnswer: text("user_answer"),
   isCorrect: boolean("is_correct"),
   responseTimeSeconds: integer("response_time_seconds"),
+  // Seconds the student spent on the question, over every time they answered it. Null
+  // when the server had no record of when its page was opened.
+  timeSpentSeconds: integer("time_spent_seconds"),
   createdAt: timestamp("created_at").defaultNow(),
+  // When the current answer was chosen
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  competitionUserQuestion: unique().on(table.competitionId, table.userId, table.questionId),
+}));
+
+// Answer revisions table schema (answers a student replaced by choosing again)
+export const answerRevisions = pgTable("answer_revisions", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  questionId: integer("question_id")
+    .notNull()
+    .references(() => questions.id),
+  userAnswer: text("user_answer"),
+  isCorrect: boolean("is_correct"),
+  responseTimeSeconds: integer("response_time_seconds"),
+  // When the replaced answer was chosen, and when it was replaced
+  answeredAt: timestamp("answered_at"),
+  replacedAt: timestamp("replaced_at").defaultNow(),
 });
 
 // Results table schema
 export const results = pgTable("results", {
   id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
@@ -345,6 +566,153 @@ export const results = pgTable("results", {
   completionTime: integer("completion_time"),
   rank: integer("rank"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // A student has one result per competition, recorded when they submit
+  competitionUser: unique().on(table.competitionId, table.userId),
+}));
+
+// Time extensions table schema (extra time for one student in one competition)
+export const timeExtensions = pgTable("time_extensions", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  extraSeconds: integer("extra_seconds").notNull(),
+  reason: text("reason"),
+  grantedBy: integer("granted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  competitionUser: unique().on(table.competitionId, table.userId),
+}));
+
+// Question draws table schema (the paper drawn for one student in one competition, kept
+// until the quiz is reset)
+export const questionDraws = pgTable("question_draws", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  // In the order they were drawn
+  questionIds: integer("question_ids").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  competitionUser: unique().on(table.competitionId, table.userId),
+}));
+
+// Paper positions table schema (the page a student is on, and when they opened it). On
+// forward-only papers the pages before the student's page are closed. Times are seconds
+// of quiz time, which stands still while the quiz is paused.
+export const paperPositions = pgTable("paper_positions", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id")
+    .notNull()
+    .references(() => competitions.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  page: integer("page").notNull().default(0),
+  pageStartSeconds: integer("page_start_seconds").notNull().default(0),
+  // When the student reached the section the page is in
+  sectionStartSeconds: integer("section_start_seconds").notNull().default(0),
+  // When the student last answered a question on the page, so the time between two
+  // answers is counted towards the second one
+  lastAnswerSeconds: integer("last_answer_seconds"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  competitionUser: unique().on(table.competitionId, table.userId),
+}));
+
+// A result as archived, with the student's details at the time of the reset
+export type ArchivedResult = Result & {
+  username: string | null;
+  school: string | null;
+};
+
+// A school's place on the school leaderboard, with the students behind it. Students
+// whose scores count towards the school's are marked as counted.
+export type SchoolStanding = {
+  school: string;
+  rank: number;
+  score: number;
+  studentCount: number;
+  students: (Pick<Result, 'userId' | 'score' | 'rank'> & { username: string | null; counted: boolean })[];
+};
+
+// A student's paper as the quiz page lays it out: its sections in order, each split into
+// pages of question ids. Sections without a name hold the questions no section claimed.
+export type PaperStructure = {
+  display: PaperDisplay;
+  sections: { name: string | null; pages: number[][]; timeLimitSeconds: number | null }[];
+  questionTimeLimitSeconds: number | null;
+  // Index of the page the student is on, counting across sections. On forward-only
+  // papers the pages before it are closed.
+  currentPage: number;
+  // Seconds left before the page closes and the student is moved on, or null when the
+  // page has no time limit
+  secondsLeftOnPage: number | null;
+};
+
+// Round archives table schema (a finished round, kept when its competition is reset).
+// The competition is copied rather than referenced, so archives outlive it.
+export const roundArchives = pgTable("round_archives", {
+  id: serial("id").primaryKey(),
+  competitionId: integer("competition_id").notNull(),
+  competitionName: text("competition_name").notNull(),
+  name: text("name").notNull(),
+  settings: jsonb("settings").$type<QuizSetting>().notNull(),
+  answers: jsonb("answers").$type<QuizAnswer[]>().notNull(),
+  // Ranked as they were when the quiz was reset
+  results: jsonb("results").$type<ArchivedResult[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What a login throttle counts failures against
+export const loginThrottleScopeEnum = pgEnum("login_throttle_scope", [
+  "username",
+  "ip",
+]);
+
+// Login throttles table schema (recent failed logins for one username or IP address)
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  scope: loginThrottleScopeEnum("scope").notNull(),
+  key: text("key").notNull(),
+  failureCount: integer("failure_count").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at"),
+  // No login is accepted for this key before this time
+  blockedUntil: timestamp("blocked_until"),
+}, (table) => ({
+  scopeKey: unique().on(table.scope, table.key),
+}));
+
+// Login event type enum
+export const loginEventTypeEnum = pgEnum("login_event_type", [
+  "login",
+  "logout",
+  "failure",
+]);
+
+// Login events table schema (audit history of logins, logouts and failed attempts).
+// Role and school are copied from the account at the time of the event.
+export const loginEvents = pgTable("login_events", {
+  id: serial("id").primaryKey(),
+  type: loginEventTypeEnum("type").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  username: text("username").notNull(),
+  role: userRoleEnum("role"),
+  school: text("school"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  // Why a failed attempt was rejected
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Zod schemas for form validation
@@ -371,10 +739,30 @@ export const insertQuestionSchema = createInsertSchema(questions, {
   createdAt: true,
 });
 
-export const insertQuizSettingsSchema = createInsertSchema(quizSettings).omit({
+export const insertCompetitionSchema = createInsertSchema(competitions, {
+  name: z.string().min(1, "Competition name is required"),
+  questionIds: z.array(z.number().int()).default([]),
+  questionBlueprint: questionBlueprintSchema.default([]),
+  paperLayout: paperLayoutSchema.default(DEFAULT_PAPER_LAYOUT),
+  navigationPolicy: navigationPolicySchema.default(DEFAULT_NAVIGATION_POLICY),
+  participantIds: z.array(z.number().int()).default([]),
+  scoringProfile: scoringProfileSchema.default(DEFAULT_SCORING_PROFILE),
+  rankingPolicy: rankingPolicySchema.default(DEFAULT_RANKING_POLICY),
+  schoolRanking: schoolRankingSchema.default(DEFAULT_SCHOOL_RANKING),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQuizSettingsSchema = createInsertSchema(quizSettings, {
+  durationSeconds: z.number().int().min(60, "Quiz duration must be at least one minute"),
+}).omit({
   id: true,
+  competitionId: true,
   startTime: true,
   endTime: true,
+  pausedAt: true,
+  pausedSeconds: true,
   lastReset: true,
   updatedAt: true,
 });
@@ -383,6 +771,7 @@ export const insertQuizAnswerSchema = createInsertSchema(quizAnswers).omit({
   id: true,
   isCorrect: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export const insertResultSchema = createInsertSchema(results).omit({
@@ -390,6 +779,36 @@ export const insertResultSchema = createInsertSchema(results).omit({
   createdAt: true,
 });
 
+export const insertTimeExtensionSchema = createInsertSchema(timeExtensions, {
+  extraSeconds: z.number().int().min(60, "Extensions must be at least one minute").max(6 * 3600),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaperPositionSchema = createInsertSchema(paperPositions).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertLoginEventSchema = createInsertSchema(loginEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Filters for the login audit log
+export const loginEventQuerySchema = z.object({
+  type: z.enum(["login", "logout", "failure"]).optional(),
+  role: z.enum(["student", "admin", "superadmin"]).optional(),
+  school: z.string().optional(),
+  userId: z.coerce.number().int().optional(),
+  username: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(3, "Username is required"),
   password: z.string().min(1, "Password is required"),
@@ -397,15 +816,56 @@ export const loginSchema = z.object({
   role: z.enum(["student", "admin", "superadmin"]).optional(),
 });
 
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "New password must be at least 8 characters"),
+});
+
+export const resumeQuizSchema = z.object({
+  extraMinutes: z.number().int().min(0, "Extra minutes cannot be negative").max(600).default(0),
+});
+
+export const resetQuizSchema = z.object({
+  archiveName: z.string().trim().max(200, "Archive name is too long").optional(),
+});
+
+// Opening the page at this index. On forward-only papers students can only move on.
+export const openPageSchema = z.object({
+  page: z.number().int().min(0, "Page cannot be negative"),
+});
+
+export const scheduleQuizSchema = z.object({
+  scheduledStartTime: z.coerce.date({
+    required_error: "Start time is required",
+    invalid_type_error: "Start time must be a valid date",
+  }),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
+export type Competition = typeof competitions.$inferSelect;
+export type InsertCompetition = z.infer<typeof insertCompetitionSchema>;
 export type QuizSetting = typeof quizSettings.$inferSelect;
 export type InsertQuizSetting = z.infer<typeof insertQuizSettingsSchema>;
 export type QuizAnswer = typeof quizAnswers.$inferSelect;
+// An answer as the student who gave it sees it, without whether it was correct
+export type StudentAnswer = Omit<QuizAnswer, 'isCorrect'>;
 export type InsertQuizAnswer = z.infer<typeof insertQuizAnswerSchema>;
+export type AnswerRevision = typeof answerRevisions.$inferSelect;
 export type Result = typeof results.$inferSelect;
 export type InsertResult = z.infer<typeof insertResultSchema>;
+export type TimeExtension = typeof timeExtensions.$inferSelect;
+export type InsertTimeExtension = z.infer<typeof insertTimeExtensionSchema>;
+export type QuestionDraw = typeof questionDraws.$inferSelect;
+export type PaperPosition = typeof paperPositions.$inferSelect;
+export type InsertPaperPosition = z.infer<typeof insertPaperPositionSchema>;
+export type RoundArchive = typeof roundArchives.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type LoginEvent = typeof loginEvents.$inferSelect;
+export type InsertLoginEvent = z.infer<typeof insertLoginEventSchema>;
+export type LoginEventQuery = z.infer<typeof loginEventQuerySchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
+export type ChangePasswordData = z.infer<typeof changePasswordSchema>;